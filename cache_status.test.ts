@@ -0,0 +1,123 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { Integer, Parameters, SfvParseError, Token } from "./mod.ts";
+import { SchemaError } from "./schema.ts";
+import {
+  appendCacheStatus,
+  type CacheStatusEntry,
+  decodeCacheStatus,
+  encodeCacheStatus,
+} from "./cache_status.ts";
+
+Deno.test("cache-status: decode", () => {
+  assertEquals(
+    decodeCacheStatus(
+      'OriginCache; hit; ttl=1100, "CDN Company Here"; hit; ttl=545',
+    ),
+    [
+      { cache: new Token("OriginCache"), hit: true, ttl: 1100 },
+      { cache: "CDN Company Here", hit: true, ttl: 545 },
+    ],
+  );
+  assertEquals(
+    decodeCacheStatus(
+      'ExampleCache; fwd=uri-miss; fwd-status=404; stored; collapsed; key="/a"; detail=MEMORY; x-foo=1',
+    ),
+    [{
+      cache: new Token("ExampleCache"),
+      fwd: "uri-miss",
+      fwdStatus: 404,
+      stored: true,
+      collapsed: true,
+      key: "/a",
+      detail: new Token("MEMORY"),
+      extensions: new Parameters([["x-foo", new Integer(1)]]),
+    }],
+  );
+  assertEquals(decodeCacheStatus("a;ttl=-5;hit=?0"), [
+    { cache: new Token("a"), ttl: -5, hit: false },
+  ]);
+  assertEquals(decodeCacheStatus(""), []);
+});
+
+Deno.test("cache-status: invalid", () => {
+  assertThrows(() => decodeCacheStatus("a;ttl="), SfvParseError);
+  assertThrows(
+    () => decodeCacheStatus("a, b;fwd=foo"),
+    SchemaError,
+    "[1];fwd: unknown forward reason: foo",
+  );
+  assertThrows(
+    () => decodeCacheStatus('a;ttl="1"'),
+    SchemaError,
+    '[0]: parameter "ttl" is a String, not an Integer',
+  );
+  assertThrows(
+    () => decodeCacheStatus("a;hit=1"),
+    SchemaError,
+    '[0]: parameter "hit" is an Integer, not a Boolean',
+  );
+  assertThrows(
+    () => decodeCacheStatus("(a b)"),
+    SchemaError,
+    "[0]: expected an item, got an inner list",
+  );
+  assertThrows(
+    () => decodeCacheStatus("1;hit"),
+    SchemaError,
+    "[0]: the cache identifier must be a Token or a String",
+  );
+  assertThrows(
+    () => decodeCacheStatus("a;detail=1"),
+    SchemaError,
+    "[0];detail: the detail must be a Token or a String",
+  );
+});
+
+Deno.test("cache-status: encode", () => {
+  const field =
+    'OriginCache;hit;ttl=1100;x-foo=?0, "CDN Company Here";fwd=stale;fwd-status=304;stored;detail="a b"';
+  assertEquals(encodeCacheStatus(decodeCacheStatus(field)), field);
+
+  // the defined parameters are serialized first.
+  const entry: CacheStatusEntry = {
+    cache: new Token("a"),
+    extensions: new Parameters([["x", true]]),
+    key: "k",
+    hit: false,
+  };
+  assertEquals(encodeCacheStatus([entry]), 'a;hit=?0;key="k";x');
+
+  assertThrows(
+    () =>
+      encodeCacheStatus([
+        { cache: "a", fwd: "foo" as CacheStatusEntry["fwd"] },
+      ]),
+    TypeError,
+    "unknown forward reason: foo",
+  );
+  assertThrows(
+    () =>
+      encodeCacheStatus([
+        { cache: "a", extensions: new Parameters([["ttl", true]]) },
+      ]),
+    TypeError,
+    "extension parameter ttl is defined in RFC 9211",
+  );
+});
+
+Deno.test("cache-status: append", () => {
+  const entry: CacheStatusEntry = {
+    cache: new Token("CDN"),
+    fwd: "uri-miss",
+    stored: true,
+  };
+  assertEquals(appendCacheStatus(null, entry), "CDN;fwd=uri-miss;stored");
+  assertEquals(appendCacheStatus(" ", entry), "CDN;fwd=uri-miss;stored");
+
+  // the existing members are kept as they are, even if unknown to RFC 9211.
+  assertEquals(
+    appendCacheStatus("Origin; hit; fwd=future-reason", entry),
+    "Origin; hit; fwd=future-reason, CDN;fwd=uri-miss;stored",
+  );
+  assertThrows(() => appendCacheStatus("a,", entry), SfvParseError);
+});
@@ -0,0 +1,259 @@
+/**
+ * Typed helpers for the `Cache-Status` field defined in RFC 9211.
+ *
+ * ```typescript
+ * import { Token } from "@shogo82148/sfv";
+ * import {
+ *   appendCacheStatus,
+ *   decodeCacheStatus,
+ * } from "@shogo82148/sfv/cache-status";
+ *
+ * const entries = decodeCacheStatus("OriginCache; hit; ttl=1100");
+ * entries[0].hit; // true
+ * entries[0].ttl; // 1100
+ *
+ * // an intermediary appends its own entry.
+ * appendCacheStatus("OriginCache; hit; ttl=1100", {
+ *   cache: new Token("CDN"),
+ *   fwd: "uri-miss",
+ *   stored: true,
+ * }); // "OriginCache; hit; ttl=1100, CDN;fwd=uri-miss;stored"
+ * ```
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9211.html | RFC 9211}
+ * @module
+ */
+
+import {
+  decodeList,
+  encodeList,
+  type InnerList,
+  Integer,
+  Item,
+  Parameters,
+  Token,
+} from "./mod.ts";
+import { appendMember, identifiedItem, omitUndefined } from "./list_member.ts";
+import { SchemaError } from "./schema.ts";
+
+/**
+ * CacheStatusForward is the reason why the request was forwarded.
+ */
+export type CacheStatusForward =
+  | "bypass"
+  | "method"
+  | "uri-miss"
+  | "vary-miss"
+  | "miss"
+  | "request"
+  | "stale"
+  | "partial";
+
+const FORWARD_REASONS: ReadonlySet<string> = new Set<CacheStatusForward>([
+  "bypass",
+  "method",
+  "uri-miss",
+  "vary-miss",
+  "miss",
+  "request",
+  "stale",
+  "partial",
+]);
+
+// isForwardReason reports whether the value is a forward reason defined in RFC 9211.
+function isForwardReason(value: string): value is CacheStatusForward {
+  return FORWARD_REASONS.has(value);
+}
+
+/**
+ * CacheStatusEntry is a member of the `Cache-Status` field,
+ * which describes how a cache handled the request.
+ */
+export interface CacheStatusEntry {
+  /**
+   * cache is the identifier of the cache.
+   */
+  cache: Token | string;
+
+  /**
+   * hit is whether the request was satisfied by the cache.
+   */
+  hit?: boolean;
+
+  /**
+   * fwd is the reason why the request was forwarded towards the origin.
+   */
+  fwd?: CacheStatusForward;
+
+  /**
+   * fwdStatus is the status code that the next hop server returned for the forwarded request.
+   */
+  fwdStatus?: number;
+
+  /**
+   * ttl is the remaining freshness lifetime of the response in seconds.
+   * It is negative if the response is stale.
+   */
+  ttl?: number;
+
+  /**
+   * stored is whether the cache stored the response.
+   */
+  stored?: boolean;
+
+  /**
+   * collapsed is whether the request was collapsed with other requests.
+   */
+  collapsed?: boolean;
+
+  /**
+   * key is the implementation-specific cache key of the response.
+   */
+  key?: string;
+
+  /**
+   * detail is the implementation-specific information.
+   */
+  detail?: Token | string;
+
+  /**
+   * extensions is the parameters that aren't defined in RFC 9211.
+   * They are serialized after the defined parameters.
+   */
+  extensions?: Parameters;
+}
+
+// the parameters defined in RFC 9211.
+const KNOWN_PARAMETERS: ReadonlySet<string> = new Set([
+  "hit",
+  "fwd",
+  "fwd-status",
+  "ttl",
+  "stored",
+  "collapsed",
+  "key",
+  "detail",
+]);
+
+/**
+ * decodeCacheStatus decodes the `Cache-Status` field.
+ *
+ * @param input the field lines of the field
+ * @returns the entries in order, the closest to the origin first
+ * @throws SfvParseError if the field is not a valid List
+ * @throws SchemaError if the members don't match RFC 9211
+ */
+export function decodeCacheStatus(...input: string[]): CacheStatusEntry[] {
+  return decodeList(...input).map((member, index) =>
+    toEntry(member, `[${index}]`)
+  );
+}
+
+/**
+ * encodeCacheStatus encodes the entries into the `Cache-Status` field.
+ *
+ * @param entries the entries in order, the closest to the origin first
+ * @returns the encoded field value
+ */
+export function encodeCacheStatus(entries: CacheStatusEntry[]): string {
+  return encodeList(entries.map(fromEntry));
+}
+
+/**
+ * appendCacheStatus appends the entry of the cache to the `Cache-Status` field.
+ * A cache adds its entry after the entries of the caches closer to the origin,
+ * and it doesn't change their parameters, even the ones this module doesn't know.
+ *
+ * @param field the value of the field in the response from the next hop, or null or undefined if it has no `Cache-Status` field
+ * @param entry the entry of the cache
+ * @returns the new field value
+ * @throws SfvParseError if the current field is not a valid List
+ */
+export function appendCacheStatus(
+  field: string | null | undefined,
+  entry: CacheStatusEntry,
+): string {
+  return appendMember(field, encodeCacheStatus([entry]));
+}
+
+// toEntry converts the member of the list into the entry.
+function toEntry(member: Item | InnerList, path: string): CacheStatusEntry {
+  const [cache, params] = identifiedItem(member, path, "cache identifier");
+  const entry: CacheStatusEntry = { cache };
+  const has = (key: string) => params.get(key) !== undefined;
+  let fwd: string | undefined;
+  try {
+    entry.hit = has("hit") ? params.getBooleanOrThrow("hit") : undefined;
+    fwd = has("fwd") ? params.getTokenOrThrow("fwd") : undefined;
+    entry.fwdStatus = has("fwd-status")
+      ? params.getIntegerOrThrow("fwd-status")
+      : undefined;
+    entry.ttl = has("ttl") ? params.getIntegerOrThrow("ttl") : undefined;
+    entry.stored = has("stored")
+      ? params.getBooleanOrThrow("stored")
+      : undefined;
+    entry.collapsed = has("collapsed")
+      ? params.getBooleanOrThrow("collapsed")
+      : undefined;
+    entry.key = has("key") ? params.getStringOrThrow("key") : undefined;
+  } catch (e) {
+    if (e instanceof TypeError) {
+      throw new SchemaError(path, e.message);
+    }
+    throw e;
+  }
+  if (fwd !== undefined) {
+    if (!isForwardReason(fwd)) {
+      throw new SchemaError(`${path};fwd`, `unknown forward reason: ${fwd}`);
+    }
+    entry.fwd = fwd;
+  }
+  const detail = params.get("detail");
+  if (detail !== undefined) {
+    if (typeof detail !== "string" && !(detail instanceof Token)) {
+      throw new SchemaError(
+        `${path};detail`,
+        "the detail must be a Token or a String",
+      );
+    }
+    entry.detail = detail;
+  }
+
+  const extensions = [...params].filter(([key]) => !KNOWN_PARAMETERS.has(key));
+  if (extensions.length > 0) {
+    entry.extensions = new Parameters(extensions);
+  }
+
+  return omitUndefined(entry);
+}
+
+// fromEntry converts the entry into the member of the list.
+function fromEntry(entry: CacheStatusEntry): Item {
+  if (entry.fwd !== undefined && !isForwardReason(entry.fwd)) {
+    throw new TypeError(`unknown forward reason: ${entry.fwd}`);
+  }
+  const params = new Parameters();
+  const set = (key: string, value: Item["value"] | undefined) => {
+    if (value !== undefined) {
+      params.set(key, value);
+    }
+  };
+  set("hit", entry.hit);
+  set("fwd", entry.fwd === undefined ? undefined : new Token(entry.fwd));
+  set(
+    "fwd-status",
+    entry.fwdStatus === undefined ? undefined : new Integer(entry.fwdStatus),
+  );
+  set("ttl", entry.ttl === undefined ? undefined : new Integer(entry.ttl));
+  set("stored", entry.stored);
+  set("collapsed", entry.collapsed);
+  set("key", entry.key);
+  set("detail", entry.detail);
+  for (const [key, value] of entry.extensions ?? []) {
+    if (KNOWN_PARAMETERS.has(key)) {
+      throw new TypeError(`extension parameter ${key} is defined in RFC 9211`);
+    }
+    params.set(key, value);
+  }
+  return new Item(entry.cache, params);
+}
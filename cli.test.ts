@@ -0,0 +1,136 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { type CliIO, main } from "./cli.ts";
+
+// run runs the command with the stdin, and returns the exit code and the outputs.
+async function run(args: string[], stdin = "") {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const io: CliIO = {
+    readStdin: () => Promise.resolve(stdin),
+    stdout: (line) => stdout.push(line),
+    stderr: (line) => stderr.push(line),
+  };
+  const code = await main(args, io);
+  return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+}
+
+Deno.test("cli: parse", async () => {
+  assertEquals(await run(["parse", "--type", "dict", "a=1, b=?0"]), {
+    code: 0,
+    stdout: '[["a",[1,[]]],["b",[false,[]]]]',
+    stderr: "",
+  });
+  assertEquals(
+    (await run(["parse", "-t", "list", "a", "b;x"])).stdout,
+    '[[{"__type":"token","value":"a"},[]],[{"__type":"token","value":"b"},[["x",true]]]]',
+  );
+  assertEquals(
+    (await run(["parse", "--type=item", "--", "-1"])).stdout,
+    "[-1,[]]",
+  );
+});
+
+Deno.test("cli: stdin", async () => {
+  // each line is a field line.
+  assertEquals(
+    (await run(["canonicalize", "-t", "list"], "a,  b\r\nc\n")).stdout,
+    "a, b, c",
+  );
+  assertEquals((await run(["canonicalize", "-t", "list"], "")).stdout, "");
+});
+
+Deno.test("cli: validate", async () => {
+  assertEquals(await run(["validate", "-t", "item", "?1"]), {
+    code: 0,
+    stdout: "valid",
+    stderr: "",
+  });
+  assertEquals(await run(["validate", "-t", "dictionary", "a=1, b=?2"]), {
+    code: 1,
+    stdout: "",
+    stderr: [
+      "a=1, b=?2",
+      '        ^ unexpected character "2" at 8: expected "0" or "1"',
+    ].join("\n"),
+  });
+});
+
+Deno.test("cli: dates", async () => {
+  // the dates out of the range of Date are accepted.
+  const date = "@999999999999999";
+  assertEquals(await run(["validate", "-t", "item", date]), {
+    code: 0,
+    stdout: "valid",
+    stderr: "",
+  });
+  assertEquals(
+    (await run(["parse", "-t", "item", date])).stdout,
+    '[{"__type":"date","value":999999999999999},[]]',
+  );
+  assertEquals(
+    (await run(["canonicalize", "-t", "list", `${date}, @-999999999999999`]))
+      .stdout,
+    "@999999999999999, @-999999999999999",
+  );
+});
+
+Deno.test("cli: version", async () => {
+  assertEquals(
+    await run(["validate", "-t", "item", "--version", "rfc8941", "@1"]),
+    {
+      code: 1,
+      stdout: "",
+      stderr: "@1\n^ date requires RFC 9651 at 0",
+    },
+  );
+  assertEquals(
+    (await run(["validate", "-t", "item", "--version=rfc9651", "@1"])).code,
+    0,
+  );
+  const date = '[{"__type": "date", "value": 1}, []]';
+  const encoded = await run([
+    "encode",
+    "-t",
+    "item",
+    "--version=rfc8941",
+    date,
+  ]);
+  assertEquals(encoded.code, 1);
+  assertStringIncludes(encoded.stderr, "sfv: ");
+});
+
+Deno.test("cli: encode", async () => {
+  const dict = '[["a", [1.5, [["x", true]]]]]';
+  assertEquals((await run(["encode", "-t", "dict"], dict)).stdout, "a=1.5;x");
+  const token = '[{"__type": "token", "value": "a"}, []]';
+  assertEquals((await run(["encode", "-t", "item", token])).stdout, "a");
+  const invalid = await run(["encode", "-t", "item", "[1,"]);
+  assertEquals(invalid.code, 1);
+  assertStringIncludes(invalid.stderr, "sfv: invalid JSON");
+  const unencodable = await run(["encode", "-t", "item", '["\\n", []]']);
+  assertEquals(unencodable.code, 1);
+  assertStringIncludes(unencodable.stderr, "sfv: ");
+});
+
+Deno.test("cli: usage", async () => {
+  const help = await run(["--help"]);
+  assertEquals(help.code, 0);
+  assertStringIncludes(help.stdout, "Usage: sfv");
+
+  for (
+    const [args, message] of [
+      [[], "sfv: no command is given"],
+      [["parse"], "sfv: --type is required"],
+      [["parse", "-t"], "sfv: --type requires a value"],
+      [["parse", "-t", "map"], "sfv: unknown type: map"],
+      [["lint", "-t", "list"], "sfv: unknown command: lint"],
+      [["parse", "-x"], "sfv: unknown option: -x"],
+      [["parse", "--version"], "sfv: --version requires a value"],
+      [["parse", "--version=rfc0"], "sfv: unknown version: rfc0"],
+    ] as const
+  ) {
+    const result = await run([...args]);
+    assertEquals(result.code, 2, message);
+    assertEquals(result.stderr.split("\n")[0], message);
+  }
+});
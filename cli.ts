@@ -0,0 +1,288 @@
+/**
+ * The `sfv` command checks and converts Structured Field Values.
+ *
+ * ```sh
+ * $ deno run jsr:@shogo82148/sfv/cli parse --type dict 'a=1, b=?0'
+ * [["a",[1,[]]],["b",[false,[]]]]
+ * $ echo 'a=1,  b=?1' | deno run jsr:@shogo82148/sfv/cli canonicalize -t dict
+ * a=1, b
+ * ```
+ *
+ * The field value is read from the arguments, or from stdin if no arguments are given.
+ * Each argument or line of stdin is a field line, and they are combined into one field.
+ *
+ * @module
+ */
+
+import {
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  type Dictionary,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  type EncodeOptions,
+  type Item,
+  type List,
+  SfvParseError,
+  type SfvVersion,
+  type StrictDecodeOptions,
+} from "./mod.ts";
+import { fromTestJSON, toTestJSON } from "./json.ts";
+
+const USAGE = `Usage: sfv <command> --type <list|dict|item> [field-line...]
+
+Commands:
+  parse         print the field value as JSON in the format of the structured-field-tests
+  validate      check the field value, and report the position of the error
+  canonicalize  print the canonical serialization of the field value
+  encode        read JSON in the format of the structured-field-tests, and print the serialization
+
+Options:
+  -t, --type    the top-level type of the field value: list, dict (or dictionary) or item
+  --version     the version of the specification: rfc9651 (default) or rfc8941
+  -h, --help    print this message
+
+The field lines are read from the arguments, or from stdin if no arguments are given.
+Put -- before the field lines that start with "-".
+For encode, the JSON is read from the arguments or stdin.`;
+
+/**
+ * CliIO is the input and output of the command.
+ */
+export interface CliIO {
+  /**
+   * readStdin reads the whole stdin.
+   */
+  readStdin(): Promise<string>;
+
+  /**
+   * stdout writes a line to stdout.
+   */
+  stdout(line: string): void;
+
+  /**
+   * stderr writes a line to stderr.
+   */
+  stderr(line: string): void;
+}
+
+type FieldType = "list" | "dictionary" | "item";
+
+const DEFAULT_IO: CliIO = {
+  readStdin: () => new Response(Deno.stdin.readable).text(),
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+};
+
+// UsageError is thrown when the arguments are invalid.
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * main runs the command.
+ *
+ * @param args the command-line arguments
+ * @param io the input and output. The default is the standard input and output.
+ * @returns the exit code: 0 on success, 1 if the input is invalid, and 2 if the arguments are invalid
+ */
+export async function main(
+  args: string[],
+  io: CliIO = DEFAULT_IO,
+): Promise<number> {
+  let command: string | undefined;
+  let type: FieldType | undefined;
+  let version: SfvVersion | undefined;
+  const rest: string[] = [];
+  try {
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === "-h" || arg === "--help") {
+        io.stdout(USAGE);
+        return 0;
+      } else if (arg === "-t" || arg === "--type") {
+        type = parseType(args[++i]);
+      } else if (arg.startsWith("--type=")) {
+        type = parseType(arg.slice("--type=".length));
+      } else if (arg === "--version") {
+        version = parseVersion(args[++i]);
+      } else if (arg.startsWith("--version=")) {
+        version = parseVersion(arg.slice("--version=".length));
+      } else if (arg === "--") {
+        rest.push(...args.slice(i + 1));
+        break;
+      } else if (arg.startsWith("-") && arg.length > 1) {
+        throw new UsageError(`unknown option: ${arg}`);
+      } else if (command === undefined) {
+        command = arg;
+      } else {
+        rest.push(arg);
+      }
+    }
+    if (command === undefined) {
+      throw new UsageError("no command is given");
+    }
+    if (!["parse", "validate", "canonicalize", "encode"].includes(command)) {
+      throw new UsageError(`unknown command: ${command}`);
+    }
+    if (type === undefined) {
+      throw new UsageError("--type is required");
+    }
+  } catch (e) {
+    if (e instanceof UsageError) {
+      io.stderr(`sfv: ${e.message}`);
+      io.stderr(USAGE);
+      return 2;
+    }
+    throw e;
+  }
+
+  const input = rest.length > 0 ? rest : splitLines(await io.readStdin());
+  // Dates are decoded into SfDate,
+  // so that the dates out of the range of Date are accepted as RFC 9651 allows.
+  const options: StrictDecodeOptions = { dates: "sfdate", version };
+  if (command === "encode") {
+    return encode(input.join("\n"), type, options, io);
+  }
+
+  try {
+    switch (command) {
+      case "parse":
+        io.stdout(JSON.stringify(toTestJSON(decode(input, type, options))));
+        break;
+      case "validate":
+        decode(input, type, options);
+        io.stdout("valid");
+        break;
+      case "canonicalize":
+        io.stdout(canonicalize(input, type, options));
+        break;
+    }
+  } catch (e) {
+    if (e instanceof SfvParseError) {
+      io.stderr(e.format());
+      return 1;
+    }
+    throw e;
+  }
+  return 0;
+}
+
+// parseType parses the value of --type.
+function parseType(type: string | undefined): FieldType {
+  switch (type) {
+    case "list":
+      return "list";
+    case "dict":
+    case "dictionary":
+      return "dictionary";
+    case "item":
+      return "item";
+    case undefined:
+      throw new UsageError("--type requires a value");
+    default:
+      throw new UsageError(`unknown type: ${type}`);
+  }
+}
+
+// parseVersion parses the value of --version.
+function parseVersion(version: string | undefined): SfvVersion {
+  switch (version) {
+    case "rfc8941":
+    case "rfc9651":
+      return version;
+    case undefined:
+      throw new UsageError("--version requires a value");
+    default:
+      throw new UsageError(`unknown version: ${version}`);
+  }
+}
+
+// splitLines splits stdin into the field lines.
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === "") {
+    // ignore the newline at the end of input.
+    lines.pop();
+  }
+  return lines;
+}
+
+// decode decodes the field lines.
+function decode(
+  input: string[],
+  type: FieldType,
+  options: StrictDecodeOptions,
+): List | Dictionary | Item {
+  switch (type) {
+    case "list":
+      return decodeList(...input, options);
+    case "dictionary":
+      return decodeDictionary(...input, options);
+    case "item":
+      return decodeItem(...input, options);
+  }
+}
+
+// canonicalize decodes the field lines and serializes them again.
+function canonicalize(
+  input: string[],
+  type: FieldType,
+  options: StrictDecodeOptions,
+): string {
+  switch (type) {
+    case "list":
+      return encodeList(decodeList(...input, options), options);
+    case "dictionary":
+      return encodeDictionary(decodeDictionary(...input, options), options);
+    case "item":
+      return encodeItem(decodeItem(...input, options), options);
+  }
+}
+
+// encode serializes the JSON in the format of the structured-field-tests.
+function encode(
+  text: string,
+  type: FieldType,
+  options: EncodeOptions,
+  io: CliIO,
+): number {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    io.stderr(`sfv: invalid JSON: ${e instanceof Error ? e.message : e}`);
+    return 1;
+  }
+  try {
+    switch (type) {
+      case "list":
+        io.stdout(encodeList(fromTestJSON(json, "list"), options));
+        break;
+      case "dictionary":
+        io.stdout(
+          encodeDictionary(fromTestJSON(json, "dictionary"), options),
+        );
+        break;
+      case "item":
+        io.stdout(encodeItem(fromTestJSON(json, "item"), options));
+        break;
+    }
+  } catch (e) {
+    if (e instanceof TypeError || e instanceof RangeError) {
+      io.stderr(`sfv: ${e.message}`);
+      return 1;
+    }
+    throw e;
+  }
+  return 0;
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
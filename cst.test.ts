@@ -0,0 +1,239 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  encodeDictionary,
+  encodeList,
+  Integer,
+  SfDate,
+  SfvLimitError,
+  SfvParseError,
+} from "./mod.ts";
+import { toTestJSON } from "./json.ts";
+import { parseWithSpans, type SyntaxNode, toValue } from "./cst.ts";
+import testDataExamples from "./structured-field-tests/examples.json" with {
+  type: "json",
+};
+import testDataList from "./structured-field-tests/list.json" with {
+  type: "json",
+};
+import testDataParamList from "./structured-field-tests/param-list.json" with {
+  type: "json",
+};
+import testDataListList from "./structured-field-tests/listlist.json" with {
+  type: "json",
+};
+import testDataDictionary from "./structured-field-tests/dictionary.json" with {
+  type: "json",
+};
+import testDataParamDict from "./structured-field-tests/param-dict.json" with {
+  type: "json",
+};
+import testDataString from "./structured-field-tests/string.json" with {
+  type: "json",
+};
+import testDataDisplayString from "./structured-field-tests/display-string.json" with {
+  type: "json",
+};
+
+interface TestData {
+  name: string;
+  raw: string[];
+  header_type: string;
+  must_fail?: boolean;
+}
+
+// assertSpan checks that the span of the node points to its text.
+function assertSpan(lines: string[], node: SyntaxNode) {
+  const { line, start, endLine, end } = node.span;
+  let text = "";
+  for (let i = line; i <= endLine; i++) {
+    const from = i === line ? start : 0;
+    const to = i === endLine ? end : lines[i].length;
+    text += (i === line ? "" : ",") + lines[i].slice(from, to);
+  }
+  assertEquals(text, node.text);
+}
+
+Deno.test("parseWithSpans: dictionary", () => {
+  const input = 'a=1.50,  b=?1;x , c;y="f", d=(1  2);z';
+  const tree = parseWithSpans("dictionary", input);
+  assertEquals(tree.text, input);
+  assertEquals(tree.members.map((m) => m.text), [
+    "a=1.50",
+    "b=?1;x",
+    'c;y="f"',
+    "d=(1  2);z",
+  ]);
+
+  const [a, b, c, d] = tree.members;
+  assertEquals(a.key.span, { line: 0, start: 0, endLine: 0, end: 1 });
+  assertEquals(a.value.text, "1.50");
+  assertEquals(b.key.span, { line: 0, start: 9, endLine: 0, end: 10 });
+  assertEquals(b.value.kind, "item");
+  if (b.value.kind === "item") {
+    assertEquals(b.value.bareItem?.text, "?1");
+    assertEquals(b.value.parameters[0].text, ";x");
+    assertEquals(b.value.parameters[0].value, undefined);
+  }
+  if (c.value.kind === "item") {
+    assertEquals(c.value.bareItem, undefined);
+    assertEquals(c.value.parameters[0].value?.text, '"f"');
+  }
+  if (d.value.kind === "inner-list") {
+    assertEquals(d.value.items.map((item) => item.span.start), [30, 33]);
+  }
+
+  for (const member of tree.members) {
+    assertSpan([input], member);
+    assertSpan([input], member.key);
+    assertSpan([input], member.value);
+  }
+  assertEquals(
+    encodeDictionary(toValue(tree)),
+    'a=1.5, b;x, c;y="f", d=(1 2);z',
+  );
+});
+
+Deno.test("parseWithSpans: multiple field lines", () => {
+  const lines = ['a, "b', 'c", d;x', " e"];
+  const tree = parseWithSpans("list", ...lines);
+  assertEquals(tree.members.map((m) => m.text), ["a", '"b,c"', "d;x", "e"]);
+  assertEquals(tree.members[1].span, {
+    line: 0,
+    start: 3,
+    endLine: 1,
+    end: 2,
+  });
+  assertEquals(tree.members[3].span, {
+    line: 2,
+    start: 1,
+    endLine: 2,
+    end: 2,
+  });
+  assertEquals(tree.span, { line: 0, start: 0, endLine: 2, end: 2 });
+  for (const member of tree.members) {
+    assertSpan(lines, member);
+  }
+  assertEquals(encodeList(toValue(tree)), 'a, "b,c", d;x, e');
+});
+
+Deno.test("parseWithSpans: item", () => {
+  const tree = parseWithSpans("item", "  abc;q=0.50  ");
+  assertEquals(tree.text, "abc;q=0.50");
+  assertEquals(tree.span, { line: 0, start: 2, endLine: 0, end: 12 });
+  assertEquals(tree.parameters[0].key.name, "q");
+  assertEquals(tree.parameters[0].value?.text, "0.50");
+  assertEquals(toValue(tree).toString(), "abc;q=0.5");
+});
+
+Deno.test("parseWithSpans: duplicated keys", () => {
+  const tree = parseWithSpans("dictionary", "a=1, a=2");
+  assertEquals(tree.members.length, 2);
+  assertEquals(encodeDictionary(toValue(tree)), "a=2");
+});
+
+Deno.test("parseWithSpans: duplicated parameters", () => {
+  const tree = parseWithSpans("item", "a;x=1;x=?0");
+  assertEquals(tree.parameters.map((p) => p.value?.value), [
+    new Integer(1),
+    false,
+  ]);
+  assertEquals(tree.parameters[1].span, {
+    line: 0,
+    start: 5,
+    endLine: 0,
+    end: 10,
+  });
+  assertEquals(toValue(tree).toString(), "a;x=?0");
+});
+
+Deno.test("parseWithSpans: invalid input", () => {
+  assertThrows(
+    () => parseWithSpans("list", "a, (b"),
+    SfvParseError,
+    "unexpected end of input at 5",
+  );
+});
+
+Deno.test("parseWithSpans: options", () => {
+  const tree = parseWithSpans("list", "@999999999999999,  a", {
+    dates: "sfdate",
+  });
+  assertEquals(encodeList(toValue(tree)), "@999999999999999, a");
+  assertEquals(
+    parseWithSpans("item", "@-999999999999999", { dates: "sfdate" }).bareItem
+      ?.value,
+    new SfDate(-999999999999999),
+  );
+  assertThrows(
+    () => parseWithSpans("list", "@999999999999999"),
+    SfvParseError,
+    "date is out of the range of Date",
+  );
+  assertThrows(
+    () => parseWithSpans("item", "@1", { version: "rfc8941" }),
+    SfvParseError,
+    "date requires RFC 9651",
+  );
+  assertThrows(
+    () =>
+      parseWithSpans("dictionary", 'a="abc"', {
+        limits: { maxStringLength: 2 },
+      }),
+    SfvLimitError,
+  );
+});
+
+Deno.test("parseWithSpans: structured-field-tests", () => {
+  const suites: TestData[][] = [
+    testDataExamples,
+    testDataList,
+    testDataParamList,
+    testDataListList,
+    testDataDictionary,
+    testDataParamDict,
+    testDataString,
+    testDataDisplayString,
+  ];
+  for (const suite of suites) {
+    for (const data of suite) {
+      if (data.must_fail) {
+        continue;
+      }
+      const raw = data.raw;
+      switch (data.header_type) {
+        case "item":
+          assertEquals(
+            toTestJSON(toValue(parseWithSpans("item", ...raw))),
+            toTestJSON(decodeItem(...raw)),
+            data.name,
+          );
+          break;
+        case "list": {
+          const tree = parseWithSpans("list", ...raw);
+          assertEquals(tree.text, raw.join(","), data.name);
+          tree.members.forEach((member) => assertSpan(raw, member));
+          assertEquals(
+            toTestJSON(toValue(tree)),
+            toTestJSON(decodeList(...raw)),
+            data.name,
+          );
+          break;
+        }
+        case "dictionary": {
+          const tree = parseWithSpans("dictionary", ...raw);
+          assertEquals(tree.text, raw.join(","), data.name);
+          tree.members.forEach((member) => assertSpan(raw, member));
+          assertEquals(
+            toTestJSON(toValue(tree)),
+            toTestJSON(decodeDictionary(...raw)),
+            data.name,
+          );
+          break;
+        }
+      }
+    }
+  }
+});
@@ -0,0 +1,453 @@
+/**
+ * Lossless concrete syntax trees of Structured Field Values with source spans.
+ *
+ * ```typescript
+ * import { parseWithSpans, toValue } from "@shogo82148/sfv/cst";
+ *
+ * const tree = parseWithSpans("dictionary", "a=1.50,  b=?1;x");
+ * const b = tree.members[1];
+ * b.key.name; // "b"
+ * b.key.span; // { line: 0, start: 9, endLine: 0, end: 10 }
+ * b.value.text; // "?1;x"
+ * tree.members[0].value.text; // "1.50"
+ * toValue(tree).toString(); // "a=1.5, b;x"
+ * ```
+ *
+ * The field lines are parsed as if they were joined with ",".
+ * The text of a node is the original text of the node,
+ * so non-canonical forms such as `1.50` and `?1` in dictionaries are preserved.
+ *
+ * @module
+ */
+
+import {
+  type BareItem,
+  decodeDictionary,
+  decodeItem,
+  type DecodeItemOptions,
+  decodeList,
+  Dictionary,
+  InnerList,
+  Item,
+  type List,
+  Parameters,
+  type StrictDecodeOptions,
+} from "./mod.ts";
+import { splitDecodeArgs } from "./decode_args.ts";
+import { type DecodeTrace, type TraceKind, withTrace } from "./decode_trace.ts";
+
+/**
+ * Span is the range of a node in the field lines.
+ * The offsets are counted in UTF-16 code units, as the index of strings.
+ */
+export interface Span {
+  /**
+   * line is the index of the field line where the node starts.
+   */
+  line: number;
+
+  /**
+   * start is the position in the field line where the node starts.
+   */
+  start: number;
+
+  /**
+   * endLine is the index of the field line where the node ends.
+   * It differs from line only if the node continues to the next field lines.
+   */
+  endLine: number;
+
+  /**
+   * end is the position in the field line just after the node.
+   */
+  end: number;
+}
+
+/**
+ * SyntaxNode is the common properties of the nodes.
+ */
+export interface SyntaxNode {
+  /**
+   * span is the range of the node.
+   */
+  span: Span;
+
+  /**
+   * text is the original text of the node.
+   * If the node continues to the next field lines, they are joined with ",".
+   */
+  text: string;
+}
+
+/**
+ * BareItemNode is a bare item.
+ */
+export interface BareItemNode extends SyntaxNode {
+  kind: "bare-item";
+
+  /**
+   * value is the decoded value.
+   */
+  value: BareItem;
+}
+
+/**
+ * KeyNode is a key of a dictionary member or a parameter.
+ */
+export interface KeyNode extends SyntaxNode {
+  kind: "key";
+
+  /**
+   * name is the key.
+   */
+  name: string;
+}
+
+/**
+ * ParameterNode is a parameter, from ";" to the end of the value.
+ */
+export interface ParameterNode extends SyntaxNode {
+  kind: "parameter";
+
+  /**
+   * key is the key of the parameter.
+   */
+  key: KeyNode;
+
+  /**
+   * value is the value of the parameter.
+   * It is undefined if the value is omitted, i.e. the value is implicitly true.
+   */
+  value: BareItemNode | undefined;
+}
+
+/**
+ * ItemNode is an item.
+ */
+export interface ItemNode extends SyntaxNode {
+  kind: "item";
+
+  /**
+   * bareItem is the bare item.
+   * It is undefined if the item is a dictionary member that omits the value,
+   * i.e. the value is implicitly true.
+   */
+  bareItem: BareItemNode | undefined;
+
+  /**
+   * parameters is the parameters in the order of appearance, including duplicated keys.
+   */
+  parameters: ParameterNode[];
+}
+
+/**
+ * InnerListNode is an inner list, from "(" to the end of the parameters.
+ */
+export interface InnerListNode extends SyntaxNode {
+  kind: "inner-list";
+
+  /**
+   * items is the items of the inner list.
+   */
+  items: ItemNode[];
+
+  /**
+   * parameters is the parameters in the order of appearance, including duplicated keys.
+   */
+  parameters: ParameterNode[];
+}
+
+/**
+ * DictionaryMemberNode is a member of a dictionary.
+ */
+export interface DictionaryMemberNode extends SyntaxNode {
+  kind: "dictionary-member";
+
+  /**
+   * key is the key of the member.
+   */
+  key: KeyNode;
+
+  /**
+   * value is the value of the member.
+   * If the value is omitted, it is an ItemNode without bareItem.
+   */
+  value: ItemNode | InnerListNode;
+}
+
+/**
+ * ListNode is a list. Its span covers the whole input.
+ */
+export interface ListNode extends SyntaxNode {
+  kind: "list";
+
+  /**
+   * members is the members of the list.
+   */
+  members: (ItemNode | InnerListNode)[];
+}
+
+/**
+ * DictionaryNode is a dictionary. Its span covers the whole input.
+ */
+export interface DictionaryNode extends SyntaxNode {
+  kind: "dictionary";
+
+  /**
+   * members is the members in the order of appearance, including duplicated keys.
+   */
+  members: DictionaryMemberNode[];
+}
+
+/**
+ * ParseWithSpansArgs is the arguments of parseWithSpans after the type:
+ * the field lines, optionally followed by the options of the decoders.
+ */
+export type ParseWithSpansArgs =
+  | string[]
+  | [...input: string[], options: DecodeItemOptions];
+
+/**
+ * parseWithSpans parses the field lines into a concrete syntax tree.
+ * It throws SfvParseError if the input is not valid, as the decoders do.
+ * The span of the top-level ItemNode excludes the surrounding spaces.
+ *
+ * The options are the same as decodeItem, so the values in the tree are the ones that the decoders return.
+ *
+ * @param type the top-level type of the field
+ * @param args SFV-encoded field lines, and the options of the decoders
+ * @returns the concrete syntax tree
+ */
+export function parseWithSpans(
+  type: "list",
+  ...args: ParseWithSpansArgs
+): ListNode;
+export function parseWithSpans(
+  type: "dictionary",
+  ...args: ParseWithSpansArgs
+): DictionaryNode;
+export function parseWithSpans(
+  type: "item",
+  ...args: ParseWithSpansArgs
+): ItemNode;
+export function parseWithSpans(
+  type: "list" | "dictionary" | "item",
+  ...args: ParseWithSpansArgs
+): ListNode | DictionaryNode | ItemNode;
+export function parseWithSpans(
+  type: "list" | "dictionary" | "item",
+  ...args: ParseWithSpansArgs
+): ListNode | DictionaryNode | ItemNode {
+  const [input, options] = splitDecodeArgs(args);
+
+  // the decoders report the syntax while they validate the input,
+  // and the builder turns it into the tree.
+  const builder = new TreeBuilder(input);
+  const strict: StrictDecodeOptions = { ...options, mode: "strict" };
+  switch (type) {
+    case "list":
+      decodeList(...input, withTrace(strict, builder));
+      return {
+        kind: "list",
+        ...builder.root(),
+        members: builder.children(isMember),
+      };
+    case "dictionary":
+      decodeDictionary(...input, withTrace(strict, builder));
+      return {
+        kind: "dictionary",
+        ...builder.root(),
+        members: builder.children(isKind("dictionary-member")),
+      };
+    case "item":
+      decodeItem(...input, withTrace(options, builder));
+      return builder.children(isKind("item"))[0];
+  }
+  throw new TypeError(`unsupported type: ${type}`);
+}
+
+/**
+ * toValue converts the syntax tree into the value that the decoders return.
+ *
+ * @param node the syntax tree
+ * @returns the decoded value
+ */
+export function toValue(node: ItemNode): Item;
+export function toValue(node: InnerListNode): InnerList;
+export function toValue(node: ListNode): List;
+export function toValue(node: DictionaryNode): Dictionary;
+export function toValue(
+  node: ItemNode | InnerListNode | ListNode | DictionaryNode,
+): Item | InnerList | List | Dictionary;
+export function toValue(
+  node: ItemNode | InnerListNode | ListNode | DictionaryNode,
+): Item | InnerList | List | Dictionary {
+  switch (node.kind) {
+    case "item":
+      return itemToValue(node);
+    case "inner-list":
+      return innerListToValue(node);
+    case "list":
+      return node.members.map(memberToValue);
+    case "dictionary": {
+      const dict = new Dictionary();
+      for (const member of node.members) {
+        dict.set(member.key.name, memberToValue(member.value));
+      }
+      return dict;
+    }
+  }
+  throw new TypeError("unsupported node");
+}
+
+function itemToValue(node: ItemNode): Item {
+  return new Item(
+    node.bareItem?.value ?? true,
+    parametersToValue(node.parameters),
+  );
+}
+
+function innerListToValue(node: InnerListNode): InnerList {
+  return new InnerList(
+    node.items.map(itemToValue),
+    parametersToValue(node.parameters),
+  );
+}
+
+function memberToValue(node: ItemNode | InnerListNode): Item | InnerList {
+  return node.kind === "item" ? itemToValue(node) : innerListToValue(node);
+}
+
+function parametersToValue(nodes: ParameterNode[]): Parameters {
+  const params = new Parameters();
+  for (const node of nodes) {
+    params.set(node.key.name, node.value?.value ?? true);
+  }
+  return params;
+}
+
+// Node is the nodes that the builder creates from the trace.
+type Node =
+  | BareItemNode
+  | KeyNode
+  | ParameterNode
+  | ItemNode
+  | InnerListNode
+  | DictionaryMemberNode;
+
+// isKind returns the type guard of the nodes of the kind.
+function isKind<K extends Node["kind"]>(
+  kind: K,
+): (node: Node) => node is Extract<Node, { kind: K }> {
+  return (node): node is Extract<Node, { kind: K }> => node.kind === kind;
+}
+
+// isMember reports whether the node is a member of a list.
+function isMember(node: Node): node is ItemNode | InnerListNode {
+  return node.kind === "item" || node.kind === "inner-list";
+}
+
+// Frame is the syntax that the decoder is parsing, and its children parsed so far.
+interface Frame {
+  kind: TraceKind;
+  line: number;
+  pos: number;
+  children: Node[];
+}
+
+// TreeBuilder builds the nodes from the syntax that the decoder reports.
+class TreeBuilder implements DecodeTrace {
+  private readonly lines: string[];
+  // the bottom of the stack holds the top-level nodes.
+  private readonly stack: Frame[] = [];
+  private readonly top: Node[] = [];
+
+  constructor(lines: string[]) {
+    this.lines = lines.length === 0 ? [""] : lines;
+  }
+
+  open(kind: TraceKind, line: number, pos: number): void {
+    this.stack.push({ kind, line, pos, children: [] });
+  }
+
+  close(line: number, pos: number, value?: BareItem): void {
+    const frame = this.stack.pop();
+    if (frame === undefined) {
+      throw new TypeError("no syntax to close");
+    }
+    const node = this.node(frame, line, pos, value);
+    const parent = this.stack[this.stack.length - 1];
+    (parent?.children ?? this.top).push(node);
+  }
+
+  // children returns the top-level nodes that match the type guard.
+  children<T extends Node>(guard: (node: Node) => node is T): T[] {
+    return this.top.filter(guard);
+  }
+
+  // root creates the properties of the node that spans the whole input.
+  root(): SyntaxNode {
+    const endLine = this.lines.length - 1;
+    return this.syntax(0, 0, endLine, this.lines[endLine].length);
+  }
+
+  // node creates the node of the frame that ends at the position.
+  node(frame: Frame, line: number, pos: number, value?: BareItem): Node {
+    const syntax = this.syntax(frame.line, frame.pos, line, pos);
+    const children = frame.children;
+    const parameters = children.filter(isKind("parameter"));
+    switch (frame.kind) {
+      case "bare-item":
+        if (value === undefined) {
+          throw new TypeError("bare item without value");
+        }
+        return { kind: "bare-item", ...syntax, value };
+      case "key":
+        return { kind: "key", ...syntax, name: syntax.text };
+      case "parameter":
+        return {
+          kind: "parameter",
+          ...syntax,
+          key: children.filter(isKind("key"))[0],
+          value: children.filter(isKind("bare-item")).at(0),
+        };
+      case "item":
+        return {
+          kind: "item",
+          ...syntax,
+          bareItem: children.filter(isKind("bare-item")).at(0),
+          parameters,
+        };
+      case "inner-list":
+        return {
+          kind: "inner-list",
+          ...syntax,
+          items: children.filter(isKind("item")),
+          parameters,
+        };
+      case "dictionary-member":
+        return {
+          kind: "dictionary-member",
+          ...syntax,
+          key: children.filter(isKind("key"))[0],
+          value: children.filter(isMember)[0],
+        };
+    }
+  }
+
+  // syntax creates the span and the text of the range.
+  syntax(
+    line: number,
+    start: number,
+    endLine: number,
+    end: number,
+  ): SyntaxNode {
+    let text = "";
+    for (let i = line; i <= endLine; i++) {
+      const from = i === line ? start : 0;
+      const to = i === endLine ? end : this.lines[i].length;
+      text += (i === line ? "" : ",") + this.lines[i].slice(from, to);
+    }
+    return { span: { line, start, endLine, end }, text };
+  }
+}
@@ -0,0 +1,14 @@
+// splitDecodeArgs splits the arguments of the decode functions into the field lines and the options.
+// The options are the last argument, and they are optional.
+export function splitDecodeArgs<T extends object>(
+  args: readonly (string | T)[],
+): [string[], Partial<T>] {
+  const input = args.filter((arg) => typeof arg === "string");
+  const last = args[args.length - 1];
+  return [input, isOptions(last) ? last : {}];
+}
+
+// isOptions reports whether the argument is the options.
+function isOptions<T extends object>(arg: string | T | undefined): arg is T {
+  return typeof arg === "object";
+}
@@ -0,0 +1,40 @@
+import type { BareItem } from "./mod.ts";
+
+// TraceKind is the kind of the syntax that the decoder reports to the trace.
+export type TraceKind =
+  | "bare-item"
+  | "key"
+  | "parameter"
+  | "item"
+  | "inner-list"
+  | "dictionary-member";
+
+// DecodeTrace receives the syntax that the decoder parses, in the order of appearance.
+// The positions are the index of the field line and the offset in it.
+export interface DecodeTrace {
+  // open is called when the decoder starts to parse the syntax at the position.
+  open(kind: TraceKind, line: number, pos: number): void;
+
+  // close is called when the decoder finishes the syntax that is opened last.
+  // value is the decoded value if the syntax is a bare item.
+  close(line: number, pos: number, value?: BareItem): void;
+}
+
+// the traces are kept out of the options,
+// so that they are not a part of the public options of the decoders.
+const traces: WeakMap<object, DecodeTrace> = new WeakMap();
+
+// withTrace returns a copy of the options that makes the decoder report to the trace.
+export function withTrace<T extends object>(
+  options: T,
+  trace: DecodeTrace,
+): T {
+  const copy = { ...options };
+  traces.set(copy, trace);
+  return copy;
+}
+
+// traceOf returns the trace that the decoder reports to, if any.
+export function traceOf(options: object): DecodeTrace | undefined {
+  return traces.get(options);
+}
@@ -0,0 +1,130 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  Decimal,
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  DisplayString,
+  InnerList,
+  Integer,
+  Item,
+  Parameters,
+  SfDate,
+  Token,
+} from "./mod.ts";
+import { equals, hash } from "./equal.ts";
+
+Deno.test("equals: bare items", () => {
+  assertEquals(equals(new Integer(1), new Integer(1)), true);
+  assertEquals(equals(new Integer(1), new Decimal(1)), false);
+  assertEquals(equals(new Decimal(0.1), new Decimal(0.1004)), true);
+  assertEquals(equals(new Decimal(0.1), new Decimal(0.101)), false);
+  assertEquals(equals("foo", "foo"), true);
+  assertEquals(equals("foo", new Token("foo")), false);
+  assertEquals(equals(new Token("foo"), new Token("foo")), true);
+  assertEquals(
+    equals(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3])),
+    true,
+  );
+  assertEquals(
+    equals(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2])),
+    false,
+  );
+  assertEquals(equals(true, true), true);
+  assertEquals(equals(true, false), false);
+  assertEquals(equals(new Date(1000), new Date(1999)), true);
+  assertEquals(equals(new Date(1000), new Date(2000)), false);
+  assertEquals(equals(new Date(1999), new SfDate(1)), true);
+  assertEquals(equals(new SfDate(1), new SfDate(2)), false);
+  // @-0 and @0 are the same seconds.
+  const negativeZero = decodeItem("@-0", { dates: "sfdate" });
+  const zero = decodeItem("@0", { dates: "sfdate" });
+  assertEquals(equals(negativeZero, zero), true);
+  assertEquals(hash(negativeZero), hash(zero));
+  assertEquals(
+    equals(new DisplayString("füü"), new DisplayString("füü")),
+    true,
+  );
+  assertEquals(equals(new DisplayString("foo"), "foo"), false);
+});
+
+Deno.test("equals: items", () => {
+  assertEquals(equals(decodeItem("a;x=1"), decodeItem("a; x=1")), true);
+  assertEquals(equals(decodeItem("a;x=1"), decodeItem("a;x=2")), false);
+  assertEquals(equals(decodeItem("a;x;y"), decodeItem("a;y;x")), false);
+  assertEquals(
+    equals(decodeItem("a;x;y"), decodeItem("a;y;x"), { ignoreOrder: true }),
+    true,
+  );
+  assertEquals(
+    equals(decodeItem("a;x"), decodeItem("a"), { ignoreParameters: true }),
+    true,
+  );
+  assertEquals(equals(decodeItem("a"), new Token("a")), false);
+});
+
+Deno.test("equals: lists", () => {
+  assertEquals(equals(decodeList("a, (b c);x"), decodeList("a,(b c);x")), true);
+  assertEquals(equals(decodeList("a, b"), decodeList("b, a")), false);
+  assertEquals(
+    equals(decodeList("a, b"), decodeList("b, a"), { ignoreOrder: true }),
+    false,
+  );
+  assertEquals(equals(decodeList("(a b)"), decodeList("(a)")), false);
+  assertEquals(equals(new InnerList([new Item(true)]), decodeList()), false);
+});
+
+Deno.test("equals: dictionaries", () => {
+  const a = decodeDictionary("a=1, b=2");
+  const b = decodeDictionary("b=2,a=1");
+  assertEquals(equals(a, b), false);
+  assertEquals(equals(a, b, { ignoreOrder: true }), true);
+  assertEquals(
+    equals(a, decodeDictionary("a=1"), { ignoreOrder: true }),
+    false,
+  );
+  assertEquals(
+    equals(a, decodeDictionary("a=1, c=2"), { ignoreOrder: true }),
+    false,
+  );
+});
+
+Deno.test("equals: parameters", () => {
+  const a = new Parameters();
+  a.set("a", new Integer(1));
+  const b = new Parameters([["a", new Integer(1)]]);
+  assertEquals(equals(a, b), true);
+  assertEquals(equals(a, new Parameters()), false);
+});
+
+Deno.test("hash", () => {
+  const a = decodeDictionary("a=1;x, b=(1 2), c=:AQID:, d=@1");
+  const b = decodeDictionary("b=(1 2), a=1;x, c=:AQID:, d=@1");
+  assertEquals(hash(a) === hash(b), false);
+  assertEquals(hash(a, { ignoreOrder: true }), hash(b, { ignoreOrder: true }));
+  assertEquals(hash(decodeItem("1")) === hash(decodeItem("1.0")), false);
+  assertEquals(hash(decodeItem("a;x")) === hash(decodeItem("a")), false);
+  assertEquals(
+    hash(decodeItem("a;x"), { ignoreParameters: true }),
+    hash(decodeItem("a"), { ignoreParameters: true }),
+  );
+  assertEquals(hash(new Date(1000)), hash(new Date(1999)));
+  assertEquals(hash(new Date(1000)), hash(new SfDate(1)));
+
+  // the hash codes are stable.
+  assertEquals(hash(decodeList("a, b")), hash(decodeList("a, b")));
+
+  // deduplicate values by hash and equals.
+  const values = decodeList("a, b, a, (a), a;x");
+  const seen = new Map<number, typeof values>();
+  const unique = values.filter((value) => {
+    const bucket = seen.get(hash(value)) ?? [];
+    if (bucket.some((other) => equals(value, other))) {
+      return false;
+    }
+    bucket.push(value);
+    seen.set(hash(value), bucket);
+    return true;
+  });
+  assertEquals(unique.length, 4);
+});
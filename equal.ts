@@ -0,0 +1,300 @@
+/**
+ * Structural equality and hashing of Structured Field Values.
+ *
+ * ```typescript
+ * import { decodeDictionary } from "@shogo82148/sfv";
+ * import { equals, hash } from "@shogo82148/sfv/equal";
+ *
+ * const a = decodeDictionary("a=1, b=2");
+ * const b = decodeDictionary("b=2,a=1");
+ * equals(a, b); // false: dictionaries are ordered
+ * equals(a, b, { ignoreOrder: true }); // true
+ * hash(a, { ignoreOrder: true }) === hash(b, { ignoreOrder: true }); // true
+ * ```
+ *
+ * Bare items are equal if they have the same type and the same value:
+ *
+ * - Integers and Decimals are never equal to each other, even if they have the same value.
+ * - Decimals are compared after rounding to three decimal places, as they are serialized.
+ *   e.g. `new Decimal(0.1)` and `new Decimal(0.1004)` are equal.
+ * - Byte Sequences are compared byte by byte.
+ * - Dates are compared in seconds, as they are serialized.
+ *   e.g. `new Date(1000)` and `new Date(1999)` are equal.
+ *   `Date` and `SfDate` are equal if they have the same seconds.
+ *
+ * @module
+ */
+
+import {
+  type BareItem,
+  Decimal,
+  Dictionary,
+  DisplayString,
+  InnerList,
+  Integer,
+  Item,
+  type List,
+  Parameters,
+  SfDate,
+  Token,
+} from "./mod.ts";
+
+/**
+ * Value is a value that can be compared.
+ */
+export type Value =
+  | BareItem
+  | Item
+  | InnerList
+  | List
+  | Dictionary
+  | Parameters;
+
+/**
+ * EqualsOptions is the options for equals and hash.
+ */
+export interface EqualsOptions {
+  /**
+   * ignoreOrder ignores the order of the keys of Dictionaries and Parameters.
+   * The order of the members of Lists and Inner Lists is always significant.
+   */
+  ignoreOrder?: boolean;
+
+  /**
+   * ignoreParameters ignores the parameters of Items and Inner Lists.
+   */
+  ignoreParameters?: boolean;
+}
+
+/**
+ * equals reports whether a and b are structurally equal.
+ *
+ * @param a the value to compare
+ * @param b the value to compare
+ * @param options the options of the comparison
+ * @returns true if a and b are equal
+ */
+export function equals(
+  a: Value,
+  b: Value,
+  options: EqualsOptions = {},
+): boolean {
+  if (a instanceof Item) {
+    return b instanceof Item &&
+      bareItemEquals(a.value, b.value) &&
+      (options.ignoreParameters === true ||
+        parametersEquals(a.parameters, b.parameters, options));
+  }
+  if (a instanceof InnerList) {
+    return b instanceof InnerList &&
+      listEquals(a.items, b.items, options) &&
+      (options.ignoreParameters === true ||
+        parametersEquals(a.parameters, b.parameters, options));
+  }
+  if (Array.isArray(a)) {
+    return Array.isArray(b) && listEquals(a, b, options);
+  }
+  if (a instanceof Dictionary) {
+    return b instanceof Dictionary &&
+      mapEquals(a, a.size, b, b.size, options, (x, y) => equals(x, y, options));
+  }
+  if (a instanceof Parameters) {
+    return b instanceof Parameters && parametersEquals(a, b, options);
+  }
+  if (
+    Array.isArray(b) || b instanceof Item || b instanceof InnerList ||
+    b instanceof Dictionary || b instanceof Parameters
+  ) {
+    return false;
+  }
+  return bareItemEquals(a, b);
+}
+
+function listEquals(
+  a: (Item | InnerList)[],
+  b: (Item | InnerList)[],
+  options: EqualsOptions,
+): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (!equals(a[i], b[i], options)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function parametersEquals(
+  a: Parameters,
+  b: Parameters,
+  options: EqualsOptions,
+): boolean {
+  return mapEquals(a, a.size, b, b.size, options, bareItemEquals);
+}
+
+function mapEquals<T>(
+  a: Iterable<[string, T]>,
+  aSize: number,
+  b: Iterable<[string, T]>,
+  bSize: number,
+  options: EqualsOptions,
+  eq: (x: T, y: T) => boolean,
+): boolean {
+  if (aSize !== bSize) {
+    return false;
+  }
+  if (options.ignoreOrder) {
+    const map = new Map(b);
+    for (const [key, value] of a) {
+      const other = map.get(key);
+      if (other === undefined || !eq(value, other)) {
+        return false;
+      }
+    }
+    return true;
+  }
+  const iter = b[Symbol.iterator]();
+  for (const [key, value] of a) {
+    const next = iter.next();
+    if (next.done) {
+      return false;
+    }
+    const [otherKey, otherValue] = next.value;
+    if (key !== otherKey || !eq(value, otherValue)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function bareItemEquals(a: BareItem, b: BareItem): boolean {
+  if (a instanceof Integer) {
+    return b instanceof Integer && a.valueOf() === b.valueOf();
+  }
+  if (a instanceof Decimal) {
+    return b instanceof Decimal && a.valueOf() === b.valueOf();
+  }
+  if (a instanceof Token) {
+    return b instanceof Token && a.valueOf() === b.valueOf();
+  }
+  if (a instanceof DisplayString) {
+    return b instanceof DisplayString && a.valueOf() === b.valueOf();
+  }
+  if (a instanceof Uint8Array) {
+    if (!(b instanceof Uint8Array) || a.length !== b.length) {
+      return false;
+    }
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) {
+        return false;
+      }
+    }
+    return true;
+  }
+  if (a instanceof Date || a instanceof SfDate) {
+    return (b instanceof Date || b instanceof SfDate) &&
+      dateSeconds(a) === dateSeconds(b);
+  }
+  // strings and booleans
+  return a === b;
+}
+
+function dateSeconds(date: Date | SfDate): number {
+  if (date instanceof SfDate) {
+    return date.valueOf();
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * hash returns a 32-bit hash code of the value.
+ * If equals(a, b, options) is true, hash(a, options) and hash(b, options) are the same.
+ * The hash codes are stable across processes and platforms.
+ *
+ * @param value the value to hash
+ * @param options the options of the comparison
+ * @returns the hash code
+ */
+export function hash(value: Value, options: EqualsOptions = {}): number {
+  // FNV-1a
+  const key = hashKey(value, options);
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// hashKey returns a string that identifies the value.
+// The values that are equal have the same key.
+function hashKey(value: Value, options: EqualsOptions): string {
+  if (value instanceof Item) {
+    return "I(" + bareItemKey(value.value) +
+      parametersKey(value.parameters, options) + ")";
+  }
+  if (value instanceof InnerList) {
+    return "L(" + value.items.map((item) => hashKey(item, options)).join("") +
+      parametersKey(value.parameters, options) + ")";
+  }
+  if (Array.isArray(value)) {
+    return "l(" + value.map((member) => hashKey(member, options)).join("") +
+      ")";
+  }
+  if (value instanceof Dictionary) {
+    const entries = [...value].map(([key, member]) =>
+      `${key}=${hashKey(member, options)}`
+    );
+    if (options.ignoreOrder) {
+      entries.sort();
+    }
+    return "D(" + entries.join(",") + ")";
+  }
+  if (value instanceof Parameters) {
+    return parametersKey(value, { ...options, ignoreParameters: false });
+  }
+  return bareItemKey(value);
+}
+
+function parametersKey(params: Parameters, options: EqualsOptions): string {
+  if (options.ignoreParameters) {
+    return "";
+  }
+  const entries = [...params].map(([key, value]) =>
+    `${key}=${bareItemKey(value)}`
+  );
+  if (options.ignoreOrder) {
+    entries.sort();
+  }
+  return "P(" + entries.join(";") + ")";
+}
+
+function bareItemKey(value: BareItem): string {
+  if (value instanceof Integer) {
+    return `i${value.valueOf()}`;
+  }
+  if (value instanceof Decimal) {
+    return `d${value.valueOf()}`;
+  }
+  if (typeof value === "string") {
+    return `s${JSON.stringify(value)}`;
+  }
+  if (value instanceof Token) {
+    return `t${JSON.stringify(value.valueOf())}`;
+  }
+  if (value instanceof Uint8Array) {
+    return `b${[...value].join(".")};`;
+  }
+  if (typeof value === "boolean") {
+    return value ? "?1" : "?0";
+  }
+  if (value instanceof Date || value instanceof SfDate) {
+    return `@${dateSeconds(value)}`;
+  }
+  if (value instanceof DisplayString) {
+    return `%${JSON.stringify(value.valueOf())}`;
+  }
+  throw new TypeError("unsupported value type");
+}
@@ -0,0 +1,142 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { Dictionary, Integer, Item, SfvParseError, Token } from "./mod.ts";
+import { StructuredHeaders } from "./headers.ts";
+
+Deno.test("StructuredHeaders: Headers", () => {
+  const headers = new Headers({
+    "Example-Dict": "a=1,   b=2",
+    "Example-List": "foo, bar",
+    "Example-Item": "?1",
+    "Content-Type": "text/plain",
+  });
+  const sh = new StructuredHeaders(headers, {
+    "example-dict": "dictionary",
+    "Example-List": "list",
+    "Example-Item": "item",
+  });
+
+  const dict = sh.getDictionary("Example-Dict");
+  assertEquals(dict?.get("a"), new Item(new Integer(1)));
+  assertEquals(sh.getList("example-list"), [
+    new Item(new Token("foo")),
+    new Item(new Token("bar")),
+  ]);
+  assertEquals(sh.getItem("Example-Item"), new Item(true));
+
+  // unregistered fields remain raw strings.
+  assertEquals(sh.get("Content-Type"), "text/plain");
+
+  // the decoded values are cached.
+  assertEquals(sh.getDictionary("Example-Dict") === dict, true);
+
+  // unchanged fields are not rewritten.
+  sh.commit();
+  assertEquals(headers.get("Example-Dict"), "a=1,   b=2");
+
+  // mutations of the returned objects are written back by commit.
+  dict?.set("c", new Item(new Integer(3)));
+  sh.getList("Example-List")?.pop();
+  sh.getItem("Example-Item")?.parameters.set("x", new Token("y"));
+  assertEquals(headers.get("Example-Dict"), "a=1,   b=2");
+  sh.commit();
+  assertEquals(headers.get("Example-Dict"), "a=1, b=2, c=3");
+  assertEquals(headers.get("Example-List"), "foo");
+  assertEquals(headers.get("Example-Item"), "?1;x=y");
+});
+
+Deno.test("StructuredHeaders: set and delete", () => {
+  const headers = new Headers({ "Example-List": "foo", "X-Raw": "raw" });
+  const sh = new StructuredHeaders(headers, {
+    "Example-List": "list",
+    "Example-Dict": "dictionary",
+  });
+
+  assertEquals(sh.has("Example-Dict"), false);
+  sh.set("Example-Dict", new Dictionary([["a", new Item(false)]]));
+  sh.delete("Example-List");
+  sh.set("X-Raw", "changed");
+  assertEquals(sh.has("Example-List"), false);
+  assertEquals(headers.get("Example-List"), "foo");
+
+  sh.commit();
+  assertEquals(headers.get("Example-Dict"), "a=?0");
+  assertEquals(headers.get("Example-List"), null);
+  assertEquals(headers.get("X-Raw"), "changed");
+
+  // empty lists are represented by absence of the field.
+  sh.set("Example-List", []);
+  sh.commit();
+  assertEquals(headers.has("Example-List"), false);
+});
+
+Deno.test("StructuredHeaders: type mismatch", () => {
+  const sh = new StructuredHeaders(new Headers(), { "Example-List": "list" });
+  assertThrows(
+    () => sh.set("Example-List", new Item(true)),
+    TypeError,
+    "Example-List must be a list",
+  );
+  assertThrows(
+    () => sh.set("X-Raw", new Item(true)),
+    TypeError,
+    "X-Raw is not a registered field",
+  );
+  assertThrows(
+    () => sh.getDictionary("Example-List"),
+    TypeError,
+    "Example-List is registered as a list",
+  );
+});
+
+Deno.test("StructuredHeaders: invalid field", () => {
+  const sh = new StructuredHeaders(new Headers({ "Example-Item": "?2" }), {
+    "Example-Item": "item",
+  });
+  assertThrows(() => sh.getItem("Example-Item"), SfvParseError);
+});
+
+Deno.test("StructuredHeaders: overwrite and delete invalid fields", () => {
+  const headers = new Headers({ "Example-Item": "?2", "Example-List": "a," });
+  const sh = new StructuredHeaders(headers, {
+    "Example-Item": "item",
+    "Example-List": "list",
+  });
+  assertEquals(sh.has("Example-Item"), true);
+  assertEquals(sh.has("Example-List"), true);
+
+  sh.set("Example-Item", new Item(true));
+  sh.delete("Example-List");
+  assertEquals(sh.has("Example-List"), false);
+  assertEquals(sh.getItem("Example-Item"), new Item(true));
+  sh.commit();
+  assertEquals(headers.get("Example-Item"), "?1");
+  assertEquals(headers.has("Example-List"), false);
+});
+
+Deno.test("StructuredHeaders: options", () => {
+  const headers = new Headers({ "Example-Item": "@0", "Example-List": "a" });
+  const sh = new StructuredHeaders(
+    headers,
+    { "Example-Item": "item", "Example-List": "list" },
+    { version: "rfc8941" },
+  );
+  assertThrows(
+    () => sh.getItem("Example-Item"),
+    SfvParseError,
+    "date requires RFC 9651",
+  );
+  sh.getList("Example-List")?.push(new Item(new Date(0)));
+  assertThrows(() => sh.commit(), TypeError);
+});
+
+Deno.test("StructuredHeaders: plain record", () => {
+  const headers: Record<string, string> = { "Example-Dict": "a=1" };
+  const sh = new StructuredHeaders(
+    headers,
+    new Map([["example-dict", "dictionary"]]),
+  );
+  sh.getDictionary("example-dict")?.set("b", new Item(new Integer(2)));
+  sh.set("Example-Item", "new");
+  sh.commit();
+  assertEquals(headers, { "Example-Dict": "a=1, b=2", "example-item": "new" });
+});
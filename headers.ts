@@ -0,0 +1,345 @@
+/**
+ * A container of Structured Fields over the Fetch `Headers` object.
+ *
+ * ```typescript
+ * import { StructuredHeaders } from "@shogo82148/sfv/headers";
+ * import { Integer, Item } from "@shogo82148/sfv";
+ *
+ * const headers = new Headers({ "Example-Dict": "a=1, b=2" });
+ * const sh = new StructuredHeaders(headers, { "Example-Dict": "dictionary" });
+ * sh.getDictionary("Example-Dict")?.set("c", new Item(new Integer(3)));
+ * sh.commit();
+ * headers.get("Example-Dict"); // "a=1, b=2, c=3"
+ * ```
+ *
+ * @module
+ */
+
+import {
+  decodeDictionary,
+  decodeItem,
+  type DecodeItemOptions,
+  decodeList,
+  Dictionary,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  type EncodeOptions,
+  Item,
+  type List,
+} from "./mod.ts";
+import type { StructuredType } from "./retrofit.ts";
+
+/**
+ * FieldRegistry maps field names to their top-level types.
+ * The field names are case-insensitive.
+ */
+export type FieldRegistry =
+  | Readonly<Record<string, StructuredType>>
+  | ReadonlyMap<string, StructuredType>;
+
+/**
+ * FieldValue is the value of a field in StructuredHeaders.
+ * The registered fields are decoded into List, Dictionary or Item,
+ * and the others are raw strings.
+ */
+export type FieldValue = List | Dictionary | Item | string;
+
+/**
+ * StructuredHeadersOptions is the options for StructuredHeaders.
+ * The fields are encoded according to the version, too.
+ */
+export type StructuredHeadersOptions = DecodeItemOptions;
+
+interface Entry {
+  // value is the current value. undefined means the field is absent.
+  value: FieldValue | undefined;
+
+  // serialized is the serialization of the value when it was synchronized with the headers.
+  serialized: string | undefined;
+}
+
+/**
+ * StructuredHeaders wraps a `Headers` object or a plain record,
+ * and decodes the registered fields as Structured Fields.
+ *
+ * The fields are decoded lazily on the first access, and the results are cached.
+ * The changes to the decoded values, including mutations of the returned objects,
+ * are written back to the underlying headers by commit().
+ */
+export class StructuredHeaders {
+  private readonly headers: Headers | Record<string, string>;
+  private readonly registry: Map<string, StructuredType> = new Map();
+  private readonly entries: Map<string, Entry> = new Map();
+  private readonly options: StructuredHeadersOptions;
+
+  /**
+   * Create a new StructuredHeaders.
+   *
+   * @param headers the underlying headers
+   * @param registry the top-level types of the fields
+   * @param options the options of decoding and encoding the fields
+   */
+  constructor(
+    headers: Headers | Record<string, string>,
+    registry: FieldRegistry = {},
+    options: StructuredHeadersOptions = {},
+  ) {
+    this.headers = headers;
+    this.options = options;
+    const iter = registry instanceof Map
+      ? registry.entries()
+      : Object.entries(registry);
+    for (const [name, type] of iter) {
+      this.registry.set(name.toLowerCase(), type);
+    }
+  }
+
+  /**
+   * typeOf returns the registered type of the field.
+   *
+   * @param name the field name
+   * @returns the top-level type, or undefined if the field is not registered
+   */
+  typeOf(name: string): StructuredType | undefined {
+    return this.registry.get(name.toLowerCase());
+  }
+
+  /**
+   * has returns whether the field exists.
+   * It doesn't decode the field, so it never throws SfvParseError.
+   *
+   * @param name the field name
+   * @returns true if the field exists
+   */
+  has(name: string): boolean {
+    const entry = this.entries.get(name.toLowerCase());
+    if (entry !== undefined) {
+      return entry.value !== undefined;
+    }
+    return this.getHeader(name.toLowerCase()) !== undefined;
+  }
+
+  /**
+   * get returns the value of the field.
+   * The registered fields are decoded, and the others are returned as raw strings.
+   * It throws SfvParseError if the registered field is not valid.
+   *
+   * @param name the field name
+   * @returns the value of the field, or undefined if the field is absent
+   */
+  get(name: string): FieldValue | undefined {
+    return this.entry(name).value;
+  }
+
+  /**
+   * getList returns the value of the field registered as a List.
+   *
+   * @param name the field name
+   * @returns the decoded List, or undefined if the field is absent
+   */
+  getList(name: string): List | undefined {
+    this.expectType(name, "list");
+    return this.get(name) as List | undefined;
+  }
+
+  /**
+   * getDictionary returns the value of the field registered as a Dictionary.
+   *
+   * @param name the field name
+   * @returns the decoded Dictionary, or undefined if the field is absent
+   */
+  getDictionary(name: string): Dictionary | undefined {
+    this.expectType(name, "dictionary");
+    return this.get(name) as Dictionary | undefined;
+  }
+
+  /**
+   * getItem returns the value of the field registered as an Item.
+   *
+   * @param name the field name
+   * @returns the decoded Item, or undefined if the field is absent
+   */
+  getItem(name: string): Item | undefined {
+    this.expectType(name, "item");
+    return this.get(name) as Item | undefined;
+  }
+
+  /**
+   * set sets the value of the field.
+   * The value must match the registered type.
+   * The current value is not decoded, so malformed fields can be overwritten.
+   * The change is written back to the headers by commit().
+   *
+   * @param name the field name
+   * @param value the value of the field
+   */
+  set(name: string, value: FieldValue): void {
+    const type = this.typeOf(name);
+    if (type === undefined) {
+      if (typeof value !== "string") {
+        throw new TypeError(`${name} is not a registered field`);
+      }
+    } else if (typeName(value) !== type) {
+      throw new TypeError(`${name} must be a ${type}`);
+    }
+    this.rawEntry(name).value = value;
+  }
+
+  /**
+   * delete deletes the field.
+   * The change is written back to the headers by commit().
+   *
+   * @param name the field name
+   */
+  delete(name: string): void {
+    this.rawEntry(name).value = undefined;
+  }
+
+  /**
+   * commit writes the changed fields back to the underlying headers.
+   * The registered fields are written in their canonical serializations.
+   */
+  commit(): void {
+    for (const [name, entry] of this.entries) {
+      const serialized = entry.value === undefined
+        ? undefined
+        : serialize(entry.value, this.options);
+      if (serialized === entry.serialized) {
+        continue;
+      }
+      if (
+        serialized === undefined ||
+        (serialized === "" && typeof entry.value !== "string")
+      ) {
+        // empty Lists and Dictionaries are represented by absence of the field.
+        this.deleteHeader(name);
+      } else {
+        this.setHeader(name, serialized);
+      }
+      entry.serialized = serialized;
+    }
+  }
+
+  private expectType(name: string, type: StructuredType): void {
+    const registered = this.typeOf(name);
+    if (registered !== type) {
+      throw new TypeError(
+        registered === undefined
+          ? `${name} is not a registered field`
+          : `${name} is registered as a ${registered}`,
+      );
+    }
+  }
+
+  private entry(name: string): Entry {
+    const key = name.toLowerCase();
+    let entry = this.entries.get(key);
+    if (entry !== undefined) {
+      return entry;
+    }
+
+    const raw = this.getHeader(key);
+    let value: FieldValue | undefined = undefined;
+    if (raw !== undefined) {
+      switch (this.registry.get(key)) {
+        case "list":
+          value = decodeList(raw, { ...this.options, mode: "strict" });
+          break;
+        case "dictionary":
+          value = decodeDictionary(raw, { ...this.options, mode: "strict" });
+          break;
+        case "item":
+          value = decodeItem(raw, this.options);
+          break;
+        default:
+          value = raw;
+      }
+    }
+    entry = {
+      value,
+      serialized: value === undefined
+        ? undefined
+        : serialize(value, this.options),
+    };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  // rawEntry returns the entry without decoding the field,
+  // so that malformed fields can be overwritten or deleted.
+  private rawEntry(name: string): Entry {
+    const key = name.toLowerCase();
+    let entry = this.entries.get(key);
+    if (entry === undefined) {
+      const raw = this.getHeader(key);
+      entry = { value: undefined, serialized: raw };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private getHeader(name: string): string | undefined {
+    if (this.headers instanceof Headers) {
+      return this.headers.get(name) ?? undefined;
+    }
+    const key = this.findKey(name);
+    return key === undefined ? undefined : this.headers[key];
+  }
+
+  private setHeader(name: string, value: string): void {
+    if (this.headers instanceof Headers) {
+      this.headers.set(name, value);
+      return;
+    }
+    this.headers[this.findKey(name) ?? name] = value;
+  }
+
+  private deleteHeader(name: string): void {
+    if (this.headers instanceof Headers) {
+      this.headers.delete(name);
+      return;
+    }
+    const key = this.findKey(name);
+    if (key !== undefined) {
+      delete this.headers[key];
+    }
+  }
+
+  // findKey finds the key of the plain record case-insensitively.
+  private findKey(name: string): string | undefined {
+    const headers = this.headers as Record<string, string>;
+    for (const key of Object.keys(headers)) {
+      if (key.toLowerCase() === name) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+}
+
+function typeName(value: FieldValue): StructuredType | "string" {
+  if (Array.isArray(value)) {
+    return "list";
+  }
+  if (value instanceof Dictionary) {
+    return "dictionary";
+  }
+  if (value instanceof Item) {
+    return "item";
+  }
+  return "string";
+}
+
+function serialize(value: FieldValue, options: EncodeOptions): string {
+  if (Array.isArray(value)) {
+    return encodeList(value, options);
+  }
+  if (value instanceof Dictionary) {
+    return encodeDictionary(value, options);
+  }
+  if (value instanceof Item) {
+    return encodeItem(value, options);
+  }
+  return value;
+}
@@ -0,0 +1,146 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  Decimal,
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  DisplayString,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  InnerList,
+  Item,
+  Parameters,
+  SfDate,
+  Token,
+} from "./mod.ts";
+import { fromTestJSON, toTestJSON } from "./json.ts";
+
+Deno.test("toTestJSON: item", () => {
+  assertEquals(toTestJSON(decodeItem("a;q=0.5;x")), [
+    { __type: "token", value: "a" },
+    [["q", 0.5], ["x", true]],
+  ]);
+  assertEquals(toTestJSON(decodeItem(":AQID:")), [
+    { __type: "binary", value: "AEBAG===" },
+    [],
+  ]);
+  assertEquals(toTestJSON(decodeItem("@1659578233")), [
+    { __type: "date", value: 1659578233 },
+    [],
+  ]);
+  assertEquals(toTestJSON(new Item(new DisplayString("füü"))), [
+    { __type: "displaystring", value: "füü" },
+    [],
+  ]);
+});
+
+Deno.test("toTestJSON: list", () => {
+  assertEquals(toTestJSON(decodeList('"foo", (1 2);a')), [
+    ["foo", []],
+    [[[1, []], [2, []]], [["a", true]]],
+  ]);
+});
+
+Deno.test("toTestJSON: dictionary", () => {
+  assertEquals(toTestJSON(decodeDictionary("a=?0, b, c=(x)")), [
+    ["a", [false, []]],
+    ["b", [true, []]],
+    ["c", [[[{ __type: "token", value: "x" }, []]], []]],
+  ]);
+});
+
+Deno.test("toTestJSON: inner list and parameters", () => {
+  assertEquals(
+    toTestJSON(new InnerList([new Item(new Token("a"))])),
+    [[[{ __type: "token", value: "a" }, []]], []],
+  );
+  assertEquals(toTestJSON(new Parameters([["a", "b"]])), [
+    ["a", "b"],
+  ]);
+});
+
+Deno.test("fromTestJSON: round trip", () => {
+  const list = decodeList(
+    'a;q=0.5, "str", :AQIDBAU=:, ?0, @1659578233, (1 2.5);x',
+  );
+  const decoded = fromTestJSON(toTestJSON(list), "list");
+  assertEquals(decoded, list);
+  assertEquals(encodeList(decoded), encodeList(list));
+
+  const dict = decodeDictionary("a=1, b;x=?0, c=(:AA==: :AAE=:)");
+  assertEquals(
+    encodeDictionary(fromTestJSON(toTestJSON(dict), "dictionary")),
+    "a=1, b;x=?0, c=(:AA==: :AAE=:)",
+  );
+});
+
+Deno.test("fromTestJSON: binary", () => {
+  for (let n = 0; n < 10; n++) {
+    const bytes = new Uint8Array(n).map((_, i) => i * 37 + 11);
+    const json = toTestJSON(new Item(bytes));
+    assertEquals(fromTestJSON(json, "item").value, bytes);
+  }
+});
+
+Deno.test("fromTestJSON: date", () => {
+  const json = [{ __type: "date", value: 1659578233 }, []];
+  assertEquals(fromTestJSON(json, "item").value, new Date(1659578233000));
+
+  // the dates out of the range of Date are decoded into SfDate.
+  const large = decodeItem("@999999999999999", { dates: "sfdate" });
+  const decoded = fromTestJSON(toTestJSON(large), "item");
+  assertEquals(decoded.value, new SfDate(999999999999999));
+  assertEquals(encodeItem(decoded), "@999999999999999");
+});
+
+Deno.test("fromTestJSON: roundDecimals", () => {
+  assertEquals(
+    fromTestJSON([0.0015, []], "item", { roundDecimals: true }).value,
+    new Decimal(0.002),
+  );
+  assertThrows(
+    () => fromTestJSON([1e13 + 0.5, []], "item", { roundDecimals: true }),
+    TypeError,
+    "invalid bare item",
+  );
+});
+
+Deno.test("fromTestJSON: invalid", () => {
+  assertThrows(() => fromTestJSON({}, "list"), TypeError, "invalid list");
+  assertThrows(
+    () => fromTestJSON([{ __type: "unknown", value: 1 }, []], "item"),
+    TypeError,
+    "invalid bare item",
+  );
+  assertThrows(
+    () => fromTestJSON([{ __type: "date", value: 1.5 }, []], "item"),
+    TypeError,
+    "invalid bare item",
+  );
+  assertThrows(
+    () => fromTestJSON([0.0001, []], "item"),
+    TypeError,
+    "invalid bare item: 0.0001 has more than three fractional digits",
+  );
+  assertThrows(
+    () => fromTestJSON([1e16, []], "item"),
+    TypeError,
+    "invalid bare item: value must be between",
+  );
+  assertThrows(
+    () => fromTestJSON([1e12 + 0.5, []], "item"),
+    TypeError,
+    "invalid bare item: value must be between",
+  );
+  assertThrows(
+    () => fromTestJSON([{ __type: "date", value: 1e16 }, []], "item"),
+    TypeError,
+    "invalid bare item",
+  );
+  assertThrows(
+    () => fromTestJSON([[1, 2, 3]], "parameters"),
+    TypeError,
+    "invalid parameters",
+  );
+});
@@ -0,0 +1,435 @@
+/**
+ * Conversion between Structured Field Values and the JSON representation
+ * used by [the structured-field-tests](https://github.com/httpwg/structured-field-tests).
+ *
+ * ```typescript
+ * import { decodeList } from "@shogo82148/sfv";
+ * import { fromTestJSON, toTestJSON } from "@shogo82148/sfv/json";
+ *
+ * const json = toTestJSON(decodeList("a;q=0.5, (1 2)"));
+ * // [[{ __type: "token", value: "a" }, [["q", 0.5]]], [[[1, []], [2, []]], []]]
+ * fromTestJSON(json, "list");
+ * ```
+ *
+ * Note that JSON can't distinguish Integers from Decimals that have no fractional part.
+ * Integral numbers are always converted into Integers.
+ *
+ * @module
+ */
+
+import {
+  type BareItem,
+  Decimal,
+  Dictionary,
+  DisplayString,
+  InnerList,
+  Integer,
+  Item,
+  type List,
+  Parameters,
+  SfDate,
+  Token,
+} from "./mod.ts";
+
+/**
+ * JSONBareItem is the JSON representation of a bare item.
+ */
+export type JSONBareItem =
+  | number
+  | string
+  | boolean
+  | { __type: "token"; value: string }
+  | { __type: "binary"; value: string }
+  | { __type: "date"; value: number }
+  | { __type: "displaystring"; value: string };
+
+/**
+ * JSONParameters is the JSON representation of parameters.
+ */
+export type JSONParameters = [string, JSONBareItem][];
+
+/**
+ * JSONItem is the JSON representation of an item.
+ */
+export type JSONItem = [JSONBareItem, JSONParameters];
+
+/**
+ * JSONInnerList is the JSON representation of an inner list.
+ */
+export type JSONInnerList = [JSONItem[], JSONParameters];
+
+/**
+ * JSONList is the JSON representation of a list.
+ */
+export type JSONList = (JSONItem | JSONInnerList)[];
+
+/**
+ * JSONDictionary is the JSON representation of a dictionary.
+ */
+export type JSONDictionary = [string, JSONItem | JSONInnerList][];
+
+/**
+ * toTestJSON converts the value into the JSON representation.
+ *
+ * @param value the value to convert
+ * @returns the JSON representation
+ */
+export function toTestJSON(value: Item): JSONItem;
+export function toTestJSON(value: InnerList): JSONInnerList;
+export function toTestJSON(value: List): JSONList;
+export function toTestJSON(value: Dictionary): JSONDictionary;
+export function toTestJSON(value: Parameters): JSONParameters;
+export function toTestJSON(
+  value: Item | InnerList | List | Dictionary | Parameters,
+): JSONItem | JSONInnerList | JSONList | JSONDictionary | JSONParameters;
+export function toTestJSON(
+  value: Item | InnerList | List | Dictionary | Parameters,
+): JSONItem | JSONInnerList | JSONList | JSONDictionary | JSONParameters {
+  if (value instanceof Item) {
+    return itemToJSON(value);
+  }
+  if (value instanceof InnerList) {
+    return innerListToJSON(value);
+  }
+  if (value instanceof Dictionary) {
+    const result: JSONDictionary = [];
+    for (const [key, member] of value) {
+      result.push([key, memberToJSON(member)]);
+    }
+    return result;
+  }
+  if (value instanceof Parameters) {
+    return parametersToJSON(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(memberToJSON);
+  }
+  throw new TypeError("unsupported value type");
+}
+
+function itemToJSON(item: Item): JSONItem {
+  return [bareItemToJSON(item.value), parametersToJSON(item.parameters)];
+}
+
+function innerListToJSON(list: InnerList): JSONInnerList {
+  return [list.items.map(itemToJSON), parametersToJSON(list.parameters)];
+}
+
+function memberToJSON(member: Item | InnerList): JSONItem | JSONInnerList {
+  if (member instanceof Item) {
+    return itemToJSON(member);
+  }
+  if (member instanceof InnerList) {
+    return innerListToJSON(member);
+  }
+  throw new TypeError("unsupported value type");
+}
+
+function parametersToJSON(params: Parameters): JSONParameters {
+  const result: JSONParameters = [];
+  for (const [key, value] of params) {
+    result.push([key, bareItemToJSON(value)]);
+  }
+  return result;
+}
+
+function bareItemToJSON(value: BareItem): JSONBareItem {
+  if (typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+  if (value instanceof Integer || value instanceof Decimal) {
+    return value.valueOf();
+  }
+  if (value instanceof Token) {
+    return { __type: "token", value: value.valueOf() };
+  }
+  if (value instanceof Uint8Array) {
+    return { __type: "binary", value: base32encode(value) };
+  }
+  if (value instanceof Date) {
+    return { __type: "date", value: Math.floor(value.getTime() / 1000) };
+  }
+  if (value instanceof SfDate) {
+    return { __type: "date", value: value.valueOf() };
+  }
+  if (value instanceof DisplayString) {
+    return { __type: "displaystring", value: value.valueOf() };
+  }
+  throw new TypeError("unsupported value type");
+}
+
+/**
+ * TestJSONType is the type of the value that fromTestJSON creates.
+ */
+export type TestJSONType =
+  | "item"
+  | "inner-list"
+  | "list"
+  | "dictionary"
+  | "parameters";
+
+/**
+ * FromTestJSONOptions is the options for fromTestJSON.
+ */
+export interface FromTestJSONOptions {
+  /**
+   * roundDecimals rounds the numbers that have more than three fractional digits
+   * to the nearest Decimal, as the serialization of RFC 8941 Section 4.1.5 does.
+   * By default, fromTestJSON throws TypeError for them, so that the conversion is lossless.
+   */
+  roundDecimals?: boolean;
+}
+
+/**
+ * fromTestJSON converts the JSON representation into the value.
+ * It throws TypeError if the JSON representation is not valid.
+ *
+ * @param json the JSON representation
+ * @param type the type of the value
+ * @param options the options of the conversion
+ * @returns the converted value
+ */
+export function fromTestJSON(
+  json: unknown,
+  type: "item",
+  options?: FromTestJSONOptions,
+): Item;
+export function fromTestJSON(
+  json: unknown,
+  type: "inner-list",
+  options?: FromTestJSONOptions,
+): InnerList;
+export function fromTestJSON(
+  json: unknown,
+  type: "list",
+  options?: FromTestJSONOptions,
+): List;
+export function fromTestJSON(
+  json: unknown,
+  type: "dictionary",
+  options?: FromTestJSONOptions,
+): Dictionary;
+export function fromTestJSON(
+  json: unknown,
+  type: "parameters",
+  options?: FromTestJSONOptions,
+): Parameters;
+export function fromTestJSON(
+  json: unknown,
+  type: TestJSONType,
+  options?: FromTestJSONOptions,
+): Item | InnerList | List | Dictionary | Parameters;
+export function fromTestJSON(
+  json: unknown,
+  type: TestJSONType,
+  options: FromTestJSONOptions = {},
+): Item | InnerList | List | Dictionary | Parameters {
+  switch (type) {
+    case "item":
+      return itemFromJSON(json, options);
+    case "inner-list":
+      return innerListFromJSON(json, options);
+    case "list":
+      return expectArray(json, "list").map((member) =>
+        memberFromJSON(member, options)
+      );
+    case "dictionary": {
+      const dict = new Dictionary();
+      for (const entry of expectArray(json, "dictionary")) {
+        const [key, value] = expectPair(entry, "dictionary");
+        if (typeof key !== "string") {
+          throw new TypeError("invalid dictionary: key must be a string");
+        }
+        dict.set(key, memberFromJSON(value, options));
+      }
+      return dict;
+    }
+    case "parameters":
+      return parametersFromJSON(json, options);
+  }
+  throw new TypeError(`unsupported type: ${type}`);
+}
+
+function expectArray(json: unknown, name: string): unknown[] {
+  if (!Array.isArray(json)) {
+    throw new TypeError(`invalid ${name}: must be an array`);
+  }
+  return json;
+}
+
+function expectPair(json: unknown, name: string): [unknown, unknown] {
+  const array = expectArray(json, name);
+  if (array.length !== 2) {
+    throw new TypeError(`invalid ${name}: must be a pair`);
+  }
+  return [array[0], array[1]];
+}
+
+function itemFromJSON(json: unknown, options: FromTestJSONOptions): Item {
+  const [value, params] = expectPair(json, "item");
+  return new Item(
+    bareItemFromJSON(value, options),
+    parametersFromJSON(params, options),
+  );
+}
+
+function innerListFromJSON(
+  json: unknown,
+  options: FromTestJSONOptions,
+): InnerList {
+  const [items, params] = expectPair(json, "inner list");
+  return new InnerList(
+    expectArray(items, "inner list").map((item) => itemFromJSON(item, options)),
+    parametersFromJSON(params, options),
+  );
+}
+
+function memberFromJSON(
+  json: unknown,
+  options: FromTestJSONOptions,
+): Item | InnerList {
+  // the first element of an inner list is an array of items,
+  // and the first element of an item is a bare item that is never an array.
+  const [first] = expectPair(json, "list member");
+  if (Array.isArray(first)) {
+    return innerListFromJSON(json, options);
+  }
+  return itemFromJSON(json, options);
+}
+
+function parametersFromJSON(
+  json: unknown,
+  options: FromTestJSONOptions,
+): Parameters {
+  const params = new Parameters();
+  for (const entry of expectArray(json, "parameters")) {
+    const [key, value] = expectPair(entry, "parameters");
+    if (typeof key !== "string") {
+      throw new TypeError("invalid parameters: key must be a string");
+    }
+    params.set(key, bareItemFromJSON(value, options));
+  }
+  return params;
+}
+
+function bareItemFromJSON(
+  json: unknown,
+  options: FromTestJSONOptions,
+): BareItem {
+  switch (typeof json) {
+    case "number":
+      return numberFromJSON(json, options);
+    case "string":
+      return json;
+    case "boolean":
+      return json;
+    case "object": {
+      if (json === null) {
+        break;
+      }
+      const { __type, value } = json as { __type?: unknown; value?: unknown };
+      switch (__type) {
+        case "token":
+          if (typeof value === "string") {
+            return new Token(value);
+          }
+          break;
+        case "binary":
+          if (typeof value === "string") {
+            return base32decode(value);
+          }
+          break;
+        case "date":
+          if (typeof value === "number" && Number.isInteger(value)) {
+            // the dates out of the range of Date are kept in SfDate.
+            const date = convertBareItem(() => new SfDate(value));
+            return date.isDateCompatible() ? date.toDate() : date;
+          }
+          break;
+        case "displaystring":
+          if (typeof value === "string") {
+            return new DisplayString(value);
+          }
+          break;
+      }
+      break;
+    }
+  }
+  throw new TypeError("invalid bare item");
+}
+
+// numberFromJSON converts the number into an Integer or a Decimal.
+// The Decimals that have more than three fractional digits are rejected
+// unless roundDecimals is set, because they would be rounded.
+function numberFromJSON(
+  json: number,
+  options: FromTestJSONOptions,
+): Integer | Decimal {
+  if (Number.isInteger(json)) {
+    return convertBareItem(() => new Integer(json));
+  }
+  const decimal = convertBareItem(() => new Decimal(json));
+  if (decimal.valueOf() !== json && !options.roundDecimals) {
+    throw new TypeError(
+      `invalid bare item: ${json} has more than three fractional digits`,
+    );
+  }
+  return decimal;
+}
+
+// convertBareItem calls the constructor of the bare item,
+// and converts its errors, e.g. RangeError, into TypeError.
+function convertBareItem<T extends BareItem>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (e) {
+    if (e instanceof Error) {
+      throw new TypeError(`invalid bare item: ${e.message}`);
+    }
+    throw e;
+  }
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// base32encode is minimum implementation for encoding base32.
+function base32encode(data: Uint8Array): string {
+  let dst = "";
+  let bits = 0;
+  let buffer = 0;
+  for (const byte of data) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      dst += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+  if (bits > 0) {
+    dst += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+  while (dst.length % 8 !== 0) {
+    dst += "=";
+  }
+  return dst;
+}
+
+// base32decode is minimum implementation for decoding base32.
+function base32decode(data: string): Uint8Array {
+  const dst: number[] = [];
+  let bits = 0;
+  let buffer = 0;
+  for (const ch of data.replace(/=+$/, "")) {
+    const v = BASE32_ALPHABET.indexOf(ch);
+    if (v < 0) {
+      throw new TypeError("invalid base32 string");
+    }
+    buffer = ((buffer << 5) | v) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      dst.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(dst);
+}
@@ -0,0 +1,50 @@
+import {
+  decodeList,
+  InnerList,
+  type Item,
+  type Parameters,
+  Token,
+} from "./mod.ts";
+import { SchemaError } from "./schema.ts";
+
+// appendMember appends the encoded member to the List field.
+// The field is null or undefined if it is absent, and then the member becomes the whole field.
+// The existing members are not re-encoded, so their unknown parameters are kept as they are.
+export function appendMember(
+  field: string | null | undefined,
+  member: string,
+): string {
+  if (field === null || field === undefined || decodeList(field).length === 0) {
+    return member;
+  }
+  return `${field}, ${member}`;
+}
+
+// identifiedItem checks that the member of the List is an Item identified by a Token or a String,
+// and returns the identifier and the parameters.
+// name is the name of the identifier in the error message.
+export function identifiedItem(
+  member: Item | InnerList,
+  path: string,
+  name: string,
+): [Token | string, Parameters] {
+  if (member instanceof InnerList) {
+    throw new SchemaError(path, "expected an item, got an inner list");
+  }
+  const id = member.value;
+  if (typeof id !== "string" && !(id instanceof Token)) {
+    throw new SchemaError(path, `the ${name} must be a Token or a String`);
+  }
+  return [id, member.parameters];
+}
+
+// omitUndefined deletes the properties whose values are undefined,
+// so that the missing parameters don't appear as keys.
+export function omitUndefined<T extends object>(value: T): T {
+  for (const [key, property] of Object.entries(value)) {
+    if (property === undefined) {
+      Reflect.deleteProperty(value, key);
+    }
+  }
+  return value;
+}
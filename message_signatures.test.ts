@@ -0,0 +1,344 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "jsr:@std/assert";
+import { decodeItem } from "./mod.ts";
+import {
+  createSignatureBase,
+  createSignatureParams,
+  type HttpRequest,
+  parseSignatureInput,
+  SignatureError,
+  signMessage,
+  verifyMessage,
+  webCryptoSigner,
+  webCryptoVerifier,
+} from "./message_signatures.ts";
+
+// the test request in RFC 9421 Appendix B.2.
+const REQUEST: HttpRequest = {
+  method: "POST",
+  url: "https://example.com/foo?param=Value&Pet=dog",
+  headers: {
+    "Host": "example.com",
+    "Date": "Tue, 20 Apr 2021 02:07:55 GMT",
+    "Content-Type": "application/json",
+    "Content-Digest":
+      "sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:",
+    "Content-Length": "18",
+  },
+};
+
+// base64 decodes the Byte Sequence without the colons.
+function base64(value: string): Uint8Array {
+  return decodeItem(`:${value}:`).value as Uint8Array;
+}
+
+Deno.test("message signatures: parse signature input", () => {
+  const [input] = parseSignatureInput(
+    'sig-b22=("@authority" "content-digest" "@query-param";name="Pet");created=1618884473;keyid="test-key-rsa-pss";tag="header-example"',
+  );
+  assertEquals(input.label, "sig-b22");
+  assertEquals(input.created, 1618884473);
+  assertEquals(input.keyid, "test-key-rsa-pss");
+  assertEquals(input.tag, "header-example");
+  assertEquals(input.expires, undefined);
+  assertEquals(input.components.length, 3);
+
+  assertThrows(
+    () => parseSignatureInput("sig=:AA==:"),
+    SignatureError,
+    "signature input sig must be an inner list",
+  );
+  assertThrows(
+    () => parseSignatureInput('sig=();created="now"'),
+    SignatureError,
+    'signature input sig: parameter "created" is a String, not an Integer',
+  );
+  assertThrows(
+    () => parseSignatureInput("sig=(method)"),
+    SignatureError,
+    "component identifier method must be a String",
+  );
+  assertThrows(
+    () => parseSignatureInput("sig=("),
+    SignatureError,
+    "field signature-input is invalid",
+  );
+});
+
+Deno.test("message signatures: signature base", () => {
+  const params = createSignatureParams(
+    ["@authority", "content-digest", decodeItem('"@query-param";name="Pet"')],
+    { created: 1618884473, keyid: "test-key-rsa-pss", tag: "header-example" },
+  );
+  assertEquals(
+    createSignatureBase(REQUEST, params),
+    [
+      '"@authority": example.com',
+      '"content-digest": sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:',
+      '"@query-param";name="Pet": dog',
+      '"@signature-params": ("@authority" "content-digest" "@query-param";name="Pet");created=1618884473;keyid="test-key-rsa-pss";tag="header-example"',
+    ].join("\n"),
+  );
+
+  // the order of the received parameters is kept.
+  const [input] = parseSignatureInput(
+    'sig=("@method" "@path" "@query");keyid="k";created=1',
+  );
+  assertEquals(
+    createSignatureBase(REQUEST, input.signatureParams),
+    [
+      '"@method": POST',
+      '"@path": /foo',
+      '"@query": ?param=Value&Pet=dog',
+      '"@signature-params": ("@method" "@path" "@query");keyid="k";created=1',
+    ].join("\n"),
+  );
+});
+
+Deno.test("message signatures: derived components", () => {
+  const request: HttpRequest = {
+    method: "GET",
+    url:
+      "https://WWW.Example.com:443/path?var=this%20is%20a%20big%0Amultiline%20value&bar=with+plus+whitespace&fa%C3%A7ade%22%3A%20=something&bar=2",
+    headers: {},
+  };
+  const base = (...components: string[]) =>
+    createSignatureBase(
+      request,
+      createSignatureParams(components.map((c) => decodeItem(c))),
+    ).split("\n").slice(0, -1);
+  assertEquals(base('"@target-uri"'), [
+    '"@target-uri": https://www.example.com/path?var=this%20is%20a%20big%0Amultiline%20value&bar=with+plus+whitespace&fa%C3%A7ade%22%3A%20=something&bar=2',
+  ]);
+  assertEquals(base('"@authority"', '"@scheme"'), [
+    '"@authority": www.example.com',
+    '"@scheme": https',
+  ]);
+  assertEquals(base('"@query-param";name="var"'), [
+    '"@query-param";name="var": this%20is%20a%20big%0Amultiline%20value',
+  ]);
+  assertEquals(base('"@query-param";name="bar"'), [
+    '"@query-param";name="bar": with%20plus%20whitespace',
+    '"@query-param";name="bar": 2',
+  ]);
+  assertEquals(base('"@query-param";name="fa%C3%A7ade%22%3A%20"'), [
+    '"@query-param";name="fa%C3%A7ade%22%3A%20": something',
+  ]);
+  assertEquals(
+    base('"@request-target"'),
+    [
+      '"@request-target": /path?var=this%20is%20a%20big%0Amultiline%20value&bar=with+plus+whitespace&fa%C3%A7ade%22%3A%20=something&bar=2',
+    ],
+  );
+
+  // the fragment is not a part of the target URI.
+  const fragment = createSignatureBase(
+    new Request("https://example.com/foo?a=1#frag"),
+    createSignatureParams(["@target-uri", "@request-target"]),
+  ).split("\n").slice(0, -1);
+  assertEquals(fragment, [
+    '"@target-uri": https://example.com/foo?a=1',
+    '"@request-target": /foo?a=1',
+  ]);
+
+  assertThrows(
+    () => base('"@query-param";name="absent"'),
+    SignatureError,
+    "query parameter absent is missing",
+  );
+  assertThrows(() => base('"@status"'), SignatureError, "requires a response");
+  assertThrows(
+    () => base('"@method";sf'),
+    SignatureError,
+    "the sf parameter is not allowed for @method",
+  );
+  assertThrows(
+    () => base('"@unknown"'),
+    SignatureError,
+    "unknown derived component: @unknown",
+  );
+  assertThrows(
+    () => base('"@method"', '"@method"'),
+    SignatureError,
+    'component "@method" is duplicated',
+  );
+});
+
+Deno.test("message signatures: fields", () => {
+  const response = {
+    status: 200,
+    headers: {
+      "Example-Dict": "  a=1,    b=2;x=1;y=2,   c=(a   b   c)",
+      "Example-Header": ["value, with, lots", "of, commas"],
+    },
+  };
+  const request: HttpRequest = {
+    method: "GET",
+    url: "https://example.com/",
+    headers: { "Example-Dict": "a=1" },
+  };
+  const base = (...components: string[]) =>
+    createSignatureBase(
+      response,
+      createSignatureParams(components.map((c) => decodeItem(c))),
+      { request, fieldTypes: { "Example-Dict": "dictionary" } },
+    ).split("\n").slice(0, -1);
+  assertEquals(base('"example-dict"'), [
+    '"example-dict": a=1,    b=2;x=1;y=2,   c=(a   b   c)',
+  ]);
+  assertEquals(base('"example-dict";sf'), [
+    '"example-dict";sf: a=1, b=2;x=1;y=2, c=(a b c)',
+  ]);
+  assertEquals(base('"example-dict";key="b"', '"example-dict";key="c"'), [
+    '"example-dict";key="b": 2;x=1;y=2',
+    '"example-dict";key="c": (a b c)',
+  ]);
+  assertEquals(base('"example-header"'), [
+    '"example-header": value, with, lots, of, commas',
+  ]);
+  assertEquals(base('"example-header";bs'), [
+    '"example-header";bs: :dmFsdWUsIHdpdGgsIGxvdHM=:, :b2YsIGNvbW1hcw==:',
+  ]);
+  assertEquals(base('"@status"', '"@method";req', '"example-dict";req'), [
+    '"@status": 200',
+    '"@method";req: GET',
+    '"example-dict";req: a=1',
+  ]);
+
+  assertThrows(
+    () => base('"x-absent"'),
+    SignatureError,
+    "field x-absent is missing",
+  );
+  assertThrows(
+    () => base('"example-dict";key="d"'),
+    SignatureError,
+    "member d of field example-dict is missing",
+  );
+  assertThrows(
+    () => base('"example-header";sf'),
+    SignatureError,
+    "the type of field example-header is unknown",
+  );
+  assertThrows(
+    () => base('"example-dict";sf;bs'),
+    SignatureError,
+    "can't be used with sf or key",
+  );
+  assertThrows(
+    () => base('"Example-Dict"'),
+    SignatureError,
+    "field name Example-Dict must be lowercase",
+  );
+  assertThrows(
+    () => base('"example-dict";foo'),
+    SignatureError,
+    "unknown parameter foo of component example-dict",
+  );
+});
+
+Deno.test("message signatures: HMAC-SHA256 test vector", async () => {
+  // RFC 9421 Appendix B.2.5.
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new Uint8Array(base64(
+      "uzvJfB4u3N0Jy4T7NZ75MDVcr8zSTInedJtkgcu46YW4XByzNJjxBdtjUkdJPBtbmHhIDi6pcl8jsasjlTMtDQ==",
+    )),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+  const signed = await signMessage(REQUEST, {
+    label: "sig-b25",
+    components: ["date", "@authority", "content-type"],
+    params: { created: 1618884473, keyid: "test-shared-secret" },
+    signer: webCryptoSigner(key, "hmac-sha256"),
+  });
+  assertEquals(signed, {
+    signatureInput:
+      'sig-b25=("date" "@authority" "content-type");created=1618884473;keyid="test-shared-secret"',
+    signature: "sig-b25=:pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=:",
+  });
+
+  const message = {
+    ...REQUEST,
+    headers: {
+      ...REQUEST.headers,
+      "Signature-Input": signed.signatureInput,
+      "Signature": signed.signature,
+    },
+  };
+  const verified = await verifyMessage(message, {
+    verifier: webCryptoVerifier(key, "hmac-sha256"),
+  });
+  assertEquals(verified.map((input) => input.keyid), ["test-shared-secret"]);
+});
+
+Deno.test("message signatures: sign and verify", async () => {
+  const key = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign", "verify"],
+  ) as CryptoKeyPair;
+  const request = new Request("https://example.com/foo", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+  });
+  const signed = await signMessage(request, {
+    label: "sig1",
+    components: ["@method", "@target-uri", "content-type"],
+    params: { created: 100, expires: 200, alg: "ecdsa-p256-sha256" },
+    signer: webCryptoSigner(key.privateKey, "ecdsa-p256-sha256"),
+  });
+  request.headers.append("Signature-Input", 'other=("@method");keyid="x"');
+  request.headers.append("Signature-Input", signed.signatureInput);
+  request.headers.append("Signature", "other=:AA==:");
+  request.headers.append("Signature", signed.signature);
+
+  const verifier = webCryptoVerifier(key.publicKey, "ecdsa-p256-sha256");
+  const [input] = await verifyMessage(request, {
+    verifier,
+    label: "sig1",
+    now: 150,
+  });
+  assertEquals(input.alg, "ecdsa-p256-sha256");
+
+  await assertRejects(
+    () => verifyMessage(request, { verifier, label: "sig1", now: 201 }),
+    SignatureError,
+    "signature sig1 has expired",
+  );
+  await assertRejects(
+    () => verifyMessage(request, { verifier, label: "sig2", now: 150 }),
+    SignatureError,
+    "signature input sig2 is missing",
+  );
+  await assertRejects(
+    () => verifyMessage(request, { verifier, now: 150 }),
+    SignatureError,
+    "signature other is invalid",
+  );
+  await assertRejects(
+    () =>
+      verifyMessage(request, {
+        verifier: webCryptoVerifier(key.publicKey, "ed25519"),
+        label: "sig1",
+        now: 150,
+      }),
+    SignatureError,
+    "signature sig1 uses ecdsa-p256-sha256, not ed25519",
+  );
+
+  // the signature doesn't match the modified message.
+  request.headers.set("Content-Type", "text/plain");
+  await assertRejects(
+    () => verifyMessage(request, { verifier, label: "sig1", now: 150 }),
+    SignatureError,
+    "signature sig1 is invalid",
+  );
+  assert(request.headers.has("Signature"));
+});
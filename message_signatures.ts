@@ -0,0 +1,826 @@
+/**
+ * HTTP Message Signatures defined in RFC 9421.
+ *
+ * ```typescript
+ * import {
+ *   signMessage,
+ *   verifyMessage,
+ *   webCryptoSigner,
+ *   webCryptoVerifier,
+ * } from "@shogo82148/sfv/message-signatures";
+ *
+ * const key = await crypto.subtle.generateKey({ name: "Ed25519" }, false, [
+ *   "sign",
+ *   "verify",
+ * ]) as CryptoKeyPair;
+ *
+ * const request = new Request("https://example.com/foo?bar=baz", {
+ *   method: "POST",
+ *   headers: { "Content-Type": "application/json" },
+ * });
+ * const { signatureInput, signature } = await signMessage(request, {
+ *   label: "sig1",
+ *   components: ["@method", "@authority", "@path", "content-type"],
+ *   params: { created: 1618884473, keyid: "test-key-ed25519" },
+ *   signer: webCryptoSigner(key.privateKey, "ed25519"),
+ * });
+ * request.headers.append("Signature-Input", signatureInput);
+ * request.headers.append("Signature", signature);
+ *
+ * await verifyMessage(request, {
+ *   verifier: webCryptoVerifier(key.publicKey, "ed25519"),
+ * });
+ * ```
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9421.html | RFC 9421}
+ * @module
+ */
+
+import {
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  Dictionary,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  InnerList,
+  Integer,
+  Item,
+  Parameters,
+} from "./mod.ts";
+import type { FieldRegistry } from "./headers.ts";
+import { compatibleFields } from "./retrofit.ts";
+import { omitUndefined } from "./list_member.ts";
+
+/**
+ * SignatureError is thrown when a signature can't be created or verified.
+ */
+export class SignatureError extends Error {
+  /**
+   * Create a new SignatureError.
+   *
+   * @param message the reason of the error
+   * @param options the cause of the error
+   */
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "SignatureError";
+  }
+}
+
+/**
+ * HttpHeaders is the header fields of a message.
+ * The arrays in the record are the field lines, which are required by the `bs` parameter.
+ */
+export type HttpHeaders =
+  | Headers
+  | Readonly<Record<string, string | readonly string[]>>;
+
+/**
+ * HttpRequest is an HTTP request.
+ * The Fetch `Request` satisfies it.
+ */
+export interface HttpRequest {
+  /**
+   * method is the method of the request.
+   */
+  method: string;
+
+  /**
+   * url is the target URI of the request.
+   */
+  url: string;
+
+  /**
+   * headers is the header fields of the request.
+   */
+  headers: HttpHeaders;
+}
+
+/**
+ * HttpResponse is an HTTP response.
+ * The Fetch `Response` satisfies it.
+ */
+export interface HttpResponse {
+  /**
+   * status is the status code of the response.
+   */
+  status: number;
+
+  /**
+   * headers is the header fields of the response.
+   */
+  headers: HttpHeaders;
+}
+
+/**
+ * HttpMessage is an HTTP request or response.
+ */
+export type HttpMessage = HttpRequest | HttpResponse;
+
+/**
+ * SignatureParameters is the metadata of a signature.
+ */
+export interface SignatureParameters {
+  /**
+   * created is the creation time of the signature in seconds since the Unix epoch.
+   */
+  created?: number;
+
+  /**
+   * expires is the expiration time of the signature in seconds since the Unix epoch.
+   */
+  expires?: number;
+
+  /**
+   * nonce is a random unique value for the signature.
+   */
+  nonce?: string;
+
+  /**
+   * alg is the algorithm of the signature.
+   */
+  alg?: string;
+
+  /**
+   * keyid is the identifier of the key.
+   */
+  keyid?: string;
+
+  /**
+   * tag is the application-specific tag of the signature.
+   */
+  tag?: string;
+}
+
+/**
+ * SignatureInput is a member of the `Signature-Input` field.
+ */
+export interface SignatureInput extends SignatureParameters {
+  /**
+   * label is the key of the member.
+   */
+  label: string;
+
+  /**
+   * components is the covered component identifiers.
+   */
+  components: Item[];
+
+  /**
+   * signatureParams is the member as received.
+   * The signature base is created from it, to keep the order of the parameters.
+   */
+  signatureParams: InnerList;
+}
+
+/**
+ * SignatureBaseOptions is the options for creating a signature base.
+ */
+export interface SignatureBaseOptions {
+  /**
+   * request is the request that the response is for.
+   * It is required by the `req` parameter.
+   */
+  request?: HttpRequest;
+
+  /**
+   * fieldTypes is the top-level types of the fields,
+   * which are required by the `sf` parameter.
+   * The compatible fields of the retrofit module are known without it.
+   */
+  fieldTypes?: FieldRegistry;
+}
+
+/**
+ * Signer signs the signature base.
+ *
+ * @param base the signature base encoded in UTF-8
+ * @returns the signature
+ */
+export type Signer = (base: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * Verifier verifies the signature.
+ *
+ * @param base the signature base encoded in UTF-8
+ * @param signature the signature
+ * @param input the metadata of the signature, e.g. to look up the key by keyid
+ * @returns whether the signature is valid
+ */
+export type Verifier = (
+  base: Uint8Array,
+  signature: Uint8Array,
+  input: SignatureInput,
+) => Promise<boolean>;
+
+// the parameters of component identifiers.
+const COMPONENT_PARAMETERS: ReadonlySet<string> = new Set([
+  "sf",
+  "key",
+  "bs",
+  "req",
+  "tr",
+  "name",
+]);
+
+/**
+ * parseSignatureInput parses the `Signature-Input` field.
+ *
+ * @param input the field lines of the field
+ * @returns the members in order
+ * @throws SignatureError if the field is invalid
+ */
+export function parseSignatureInput(...input: string[]): SignatureInput[] {
+  const dict = decodeField("signature-input", () => decodeDictionary(...input));
+  return [...dict].map(([label, member]) => toSignatureInput(label, member));
+}
+
+// toSignatureInput converts the member of the Signature-Input field.
+function toSignatureInput(
+  label: string,
+  member: Item | InnerList,
+): SignatureInput {
+  if (!(member instanceof InnerList)) {
+    throw new SignatureError(`signature input ${label} must be an inner list`);
+  }
+  for (const component of member.items) {
+    if (typeof component.value !== "string") {
+      throw new SignatureError(
+        `component identifier ${encodeItem(component)} must be a String`,
+      );
+    }
+  }
+
+  const params = member.parameters;
+  const has = (key: string) => params.get(key) !== undefined;
+  let input: SignatureInput;
+  try {
+    input = {
+      label,
+      components: member.items,
+      signatureParams: member,
+      created: has("created") ? params.getIntegerOrThrow("created") : undefined,
+      expires: has("expires") ? params.getIntegerOrThrow("expires") : undefined,
+      nonce: has("nonce") ? params.getStringOrThrow("nonce") : undefined,
+      alg: has("alg") ? params.getStringOrThrow("alg") : undefined,
+      keyid: has("keyid") ? params.getStringOrThrow("keyid") : undefined,
+      tag: has("tag") ? params.getStringOrThrow("tag") : undefined,
+    };
+  } catch (e) {
+    if (e instanceof TypeError) {
+      throw new SignatureError(`signature input ${label}: ${e.message}`);
+    }
+    throw e;
+  }
+
+  return omitUndefined(input);
+}
+
+/**
+ * createSignatureParams creates the value of the `@signature-params` component,
+ * which is also the member of the `Signature-Input` field.
+ *
+ * @param components the covered components. Strings are converted into the identifiers without parameters.
+ * @param params the metadata of the signature
+ * @returns the signature parameters
+ */
+export function createSignatureParams(
+  components: readonly (string | Item)[],
+  params: SignatureParameters = {},
+): InnerList {
+  const items = components.map((component) =>
+    typeof component === "string" ? new Item(component) : component
+  );
+  const parameters = new Parameters();
+  const set = (key: string, value: Item["value"] | undefined) => {
+    if (value !== undefined) {
+      parameters.set(key, value);
+    }
+  };
+  const integer = (value: number | undefined) =>
+    value === undefined ? undefined : new Integer(value);
+  set("created", integer(params.created));
+  set("expires", integer(params.expires));
+  set("nonce", params.nonce);
+  set("alg", params.alg);
+  set("keyid", params.keyid);
+  set("tag", params.tag);
+  return new InnerList(items, parameters);
+}
+
+/**
+ * createSignatureBase creates the signature base of the message.
+ *
+ * @param message the message to sign or verify
+ * @param signatureParams the signature parameters
+ * @param options the options
+ * @returns the signature base
+ * @throws SignatureError if a covered component is missing or invalid
+ */
+export function createSignatureBase(
+  message: HttpMessage,
+  signatureParams: InnerList,
+  options: SignatureBaseOptions = {},
+): string {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+  for (const component of signatureParams.items) {
+    const identifier = encodeItem(component);
+    if (seen.has(identifier)) {
+      throw new SignatureError(`component ${identifier} is duplicated`);
+    }
+    seen.add(identifier);
+    for (const value of componentValues(message, component, options)) {
+      lines.push(`${identifier}: ${value}`);
+    }
+  }
+  lines.push(`"@signature-params": ${encodeList([signatureParams])}`);
+  return lines.join("\n");
+}
+
+// componentValues returns the values of the component.
+// @query-param may have multiple values.
+function componentValues(
+  message: HttpMessage,
+  component: Item,
+  options: SignatureBaseOptions,
+): string[] {
+  const name = component.value;
+  if (typeof name !== "string") {
+    throw new SignatureError(
+      `component identifier ${encodeItem(component)} must be a String`,
+    );
+  }
+  const params = component.parameters;
+  for (const [key] of params) {
+    if (!COMPONENT_PARAMETERS.has(key)) {
+      throw new SignatureError(`unknown parameter ${key} of component ${name}`);
+    }
+  }
+  if (flag(params, "tr")) {
+    throw new SignatureError("trailer fields are not supported");
+  }
+
+  let target = message;
+  if (flag(params, "req")) {
+    if (!isResponse(message)) {
+      throw new SignatureError(
+        `the req parameter of ${name} requires a response`,
+      );
+    }
+    if (options.request === undefined) {
+      throw new SignatureError(`the request is required for ${name};req`);
+    }
+    target = options.request;
+  }
+
+  if (name.startsWith("@")) {
+    return derivedComponentValues(target, name, params);
+  }
+  return [fieldValue(target.headers, name, params, options)];
+}
+
+// derivedComponentValues returns the values of the derived component.
+function derivedComponentValues(
+  message: HttpMessage,
+  name: string,
+  params: Parameters,
+): string[] {
+  for (const key of ["sf", "key", "bs"]) {
+    if (params.get(key) !== undefined) {
+      throw new SignatureError(
+        `the ${key} parameter is not allowed for ${name}`,
+      );
+    }
+  }
+  if (name !== "@query-param" && params.get("name") !== undefined) {
+    throw new SignatureError(`the name parameter is not allowed for ${name}`);
+  }
+
+  if (name === "@status") {
+    if (!isResponse(message)) {
+      throw new SignatureError("@status requires a response");
+    }
+    return [String(message.status)];
+  }
+  if (isResponse(message)) {
+    throw new SignatureError(`${name} requires a request`);
+  }
+
+  const url = new URL(message.url);
+  // the target URI never includes the fragment.
+  url.hash = "";
+  switch (name) {
+    case "@method":
+      return [message.method];
+    case "@target-uri":
+      return [url.href];
+    case "@authority":
+      return [url.host];
+    case "@scheme":
+      return [url.protocol.slice(0, -1)];
+    case "@request-target":
+      return [url.pathname + url.search];
+    case "@path":
+      return [url.pathname];
+    case "@query":
+      return [url.search === "" ? "?" : url.search];
+    case "@query-param": {
+      const paramName = params.get("name");
+      if (typeof paramName !== "string") {
+        throw new SignatureError("@query-param requires the name parameter");
+      }
+      const values: string[] = [];
+      for (const [key, value] of new URLSearchParams(url.search)) {
+        if (formEncode(key) === paramName) {
+          values.push(formEncode(value));
+        }
+      }
+      if (values.length === 0) {
+        throw new SignatureError(`query parameter ${paramName} is missing`);
+      }
+      return values;
+    }
+    default:
+      throw new SignatureError(`unknown derived component: ${name}`);
+  }
+}
+
+// fieldValue returns the value of the HTTP field component.
+function fieldValue(
+  headers: HttpHeaders,
+  name: string,
+  params: Parameters,
+  options: SignatureBaseOptions,
+): string {
+  if (name !== name.toLowerCase()) {
+    throw new SignatureError(`field name ${name} must be lowercase`);
+  }
+  if (params.get("name") !== undefined) {
+    throw new SignatureError(`the name parameter is not allowed for ${name}`);
+  }
+  const lines = fieldLines(headers, name)?.map((line) =>
+    line.replace(/^[ \t]+|[ \t]+$/g, "")
+  );
+  if (lines === undefined) {
+    throw new SignatureError(`field ${name} is missing`);
+  }
+
+  const sf = flag(params, "sf");
+  const bs = flag(params, "bs");
+  const key = params.get("key");
+  if (key !== undefined && typeof key !== "string") {
+    throw new SignatureError(`the key parameter of ${name} must be a String`);
+  }
+  if (bs && (sf || key !== undefined)) {
+    throw new SignatureError(
+      `the bs parameter of ${name} can't be used with sf or key`,
+    );
+  }
+
+  if (key !== undefined) {
+    const dict = decodeField(name, () => decodeDictionary(...lines));
+    const member = dict.get(key);
+    if (member === undefined) {
+      throw new SignatureError(`member ${key} of field ${name} is missing`);
+    }
+    return encodeList([member]);
+  }
+  if (sf) {
+    const type = lookupType(options.fieldTypes, name) ??
+      compatibleFields.get(name);
+    switch (type) {
+      case "list":
+        return encodeList(decodeField(name, () => decodeList(...lines)));
+      case "dictionary":
+        return encodeDictionary(
+          decodeField(name, () => decodeDictionary(...lines)),
+        );
+      case "item":
+        return encodeItem(decodeField(name, () => decodeItem(...lines)));
+      default:
+        throw new SignatureError(`the type of field ${name} is unknown`);
+    }
+  }
+  if (bs) {
+    const encoder = new TextEncoder();
+    return lines.map((line) => encodeItem(new Item(encoder.encode(line))))
+      .join(", ");
+  }
+  return lines.join(", ");
+}
+
+// fieldLines returns the field lines, or undefined if the field is absent.
+function fieldLines(
+  headers: HttpHeaders,
+  name: string,
+): string[] | undefined {
+  if (headers instanceof Headers) {
+    const value = headers.get(name);
+    return value === null ? undefined : [value];
+  }
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) {
+      return typeof value === "string" ? [value] : [...value];
+    }
+  }
+  return undefined;
+}
+
+// lookupType returns the type of the field in the registry.
+function lookupType(
+  registry: FieldRegistry | undefined,
+  name: string,
+): string | undefined {
+  if (registry === undefined) {
+    return undefined;
+  }
+  const entries = registry instanceof Map
+    ? registry.entries()
+    : Object.entries(registry);
+  for (const [key, type] of entries) {
+    if (key.toLowerCase() === name) {
+      return type;
+    }
+  }
+  return undefined;
+}
+
+// decodeField runs the decoder, and converts the parse error into SignatureError.
+function decodeField<T>(name: string, decode: () => T): T {
+  try {
+    return decode();
+  } catch (e) {
+    if (e instanceof SyntaxError) {
+      throw new SignatureError(`field ${name} is invalid: ${e.message}`, {
+        cause: e,
+      });
+    }
+    throw e;
+  }
+}
+
+// flag returns the value of the boolean parameter of the component identifier.
+function flag(params: Parameters, key: string): boolean {
+  const value = params.get(key);
+  if (value !== undefined && typeof value !== "boolean") {
+    throw new SignatureError(`the ${key} parameter must be a Boolean`);
+  }
+  return value === true;
+}
+
+// isResponse reports whether the message is a response.
+function isResponse(message: HttpMessage): message is HttpResponse {
+  return !("method" in message);
+}
+
+// formEncode percent-encodes the string with the application/x-www-form-urlencoded percent-encode set,
+// except that the spaces are encoded into "%20".
+function formEncode(str: string): string {
+  let encoded = "";
+  for (const byte of new TextEncoder().encode(str)) {
+    const ch = String.fromCharCode(byte);
+    if (/[A-Za-z0-9*\-._]/.test(ch)) {
+      encoded += ch;
+    } else {
+      encoded += "%" + byte.toString(16).toUpperCase().padStart(2, "0");
+    }
+  }
+  return encoded;
+}
+
+/**
+ * SignOptions is the options for signMessage.
+ */
+export interface SignOptions extends SignatureBaseOptions {
+  /**
+   * label is the key of the signature in the fields.
+   */
+  label: string;
+
+  /**
+   * components is the covered components.
+   * Strings are converted into the identifiers without parameters.
+   */
+  components: readonly (string | Item)[];
+
+  /**
+   * params is the metadata of the signature.
+   */
+  params?: SignatureParameters;
+
+  /**
+   * signer signs the signature base.
+   */
+  signer: Signer;
+}
+
+/**
+ * SignedFields is the members of the signature fields.
+ * Append them to the `Signature-Input` and `Signature` fields of the message.
+ */
+export interface SignedFields {
+  /**
+   * signatureInput is the member of the `Signature-Input` field.
+   */
+  signatureInput: string;
+
+  /**
+   * signature is the member of the `Signature` field.
+   */
+  signature: string;
+}
+
+/**
+ * signMessage signs the message.
+ *
+ * @param message the message to sign
+ * @param options the options
+ * @returns the members of the signature fields
+ * @throws SignatureError if a covered component is missing or invalid
+ */
+export async function signMessage(
+  message: HttpMessage,
+  options: SignOptions,
+): Promise<SignedFields> {
+  const signatureParams = createSignatureParams(
+    options.components,
+    options.params,
+  );
+  const base = createSignatureBase(message, signatureParams, options);
+  const signature = await options.signer(new TextEncoder().encode(base));
+  return {
+    signatureInput: encodeDictionary(
+      new Dictionary([[options.label, signatureParams]]),
+    ),
+    signature: encodeDictionary(
+      new Dictionary([[options.label, new Item(signature)]]),
+    ),
+  };
+}
+
+/**
+ * VerifyOptions is the options for verifyMessage.
+ */
+export interface VerifyOptions extends SignatureBaseOptions {
+  /**
+   * verifier verifies the signature.
+   */
+  verifier: Verifier;
+
+  /**
+   * label is the key of the signature to verify.
+   * The default is all the signatures in the message.
+   */
+  label?: string;
+
+  /**
+   * now is the current time in seconds since the Unix epoch, to check the expiration.
+   * The default is the system clock.
+   */
+  now?: number;
+}
+
+/**
+ * verifyMessage verifies the signatures of the message.
+ *
+ * @param message the message to verify
+ * @param options the options
+ * @returns the metadata of the verified signatures
+ * @throws SignatureError if the signatures are missing, expired or invalid
+ */
+export async function verifyMessage(
+  message: HttpMessage,
+  options: VerifyOptions,
+): Promise<SignatureInput[]> {
+  const inputLines = fieldLines(message.headers, "signature-input");
+  if (inputLines === undefined) {
+    throw new SignatureError("field signature-input is missing");
+  }
+  const signatureLines = fieldLines(message.headers, "signature");
+  if (signatureLines === undefined) {
+    throw new SignatureError("field signature is missing");
+  }
+  const inputs = parseSignatureInput(...inputLines).filter((input) =>
+    options.label === undefined || input.label === options.label
+  );
+  if (inputs.length === 0) {
+    throw new SignatureError(
+      options.label === undefined
+        ? "no signature input"
+        : `signature input ${options.label} is missing`,
+    );
+  }
+  const signatures = decodeField(
+    "signature",
+    () => decodeDictionary(...signatureLines),
+  );
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const encoder = new TextEncoder();
+  for (const input of inputs) {
+    const member = signatures.get(input.label);
+    if (!(member instanceof Item) || !(member.value instanceof Uint8Array)) {
+      throw new SignatureError(
+        `signature ${input.label} must be a Byte Sequence`,
+      );
+    }
+    if (input.expires !== undefined && input.expires < now) {
+      throw new SignatureError(`signature ${input.label} has expired`);
+    }
+    const base = createSignatureBase(message, input.signatureParams, options);
+    const valid = await options.verifier(
+      encoder.encode(base),
+      member.value,
+      input,
+    );
+    if (!valid) {
+      throw new SignatureError(`signature ${input.label} is invalid`);
+    }
+  }
+  return inputs;
+}
+
+/**
+ * SignatureAlgorithm is the algorithm registered in RFC 9421.
+ */
+export type SignatureAlgorithm =
+  | "rsa-pss-sha512"
+  | "rsa-v1_5-sha256"
+  | "hmac-sha256"
+  | "ecdsa-p256-sha256"
+  | "ecdsa-p384-sha384"
+  | "ed25519";
+
+// the parameters of WebCrypto for the algorithms.
+// The hash algorithms of RSA and HMAC are bound to the keys.
+const ALGORITHMS: Record<
+  SignatureAlgorithm,
+  AlgorithmIdentifier | RsaPssParams | EcdsaParams
+> = {
+  "rsa-pss-sha512": { name: "RSA-PSS", saltLength: 64 },
+  "rsa-v1_5-sha256": { name: "RSASSA-PKCS1-v1_5" },
+  "hmac-sha256": { name: "HMAC" },
+  "ecdsa-p256-sha256": { name: "ECDSA", hash: "SHA-256" },
+  "ecdsa-p384-sha384": { name: "ECDSA", hash: "SHA-384" },
+  "ed25519": { name: "Ed25519" },
+};
+
+// algorithmParams returns the parameters of WebCrypto for the algorithm.
+function algorithmParams(
+  alg: SignatureAlgorithm,
+): AlgorithmIdentifier | RsaPssParams | EcdsaParams {
+  if (!Object.hasOwn(ALGORITHMS, alg)) {
+    throw new TypeError(`unknown algorithm: ${alg}`);
+  }
+  return ALGORITHMS[alg];
+}
+
+/**
+ * webCryptoSigner returns the signer that uses WebCrypto.
+ *
+ * @param key the private key, or the shared secret of HMAC
+ * @param alg the algorithm
+ * @returns the signer
+ */
+export function webCryptoSigner(
+  key: CryptoKey,
+  alg: SignatureAlgorithm,
+): Signer {
+  const params = algorithmParams(alg);
+  return async (base) => {
+    // copy the input, because WebCrypto doesn't accept shared buffers.
+    const data = new Uint8Array(base);
+    return new Uint8Array(await crypto.subtle.sign(params, key, data));
+  };
+}
+
+/**
+ * webCryptoVerifier returns the verifier that uses WebCrypto.
+ * If the signature declares the alg parameter, it must match the algorithm.
+ *
+ * @param key the public key, or the shared secret of HMAC
+ * @param alg the algorithm
+ * @returns the verifier
+ */
+export function webCryptoVerifier(
+  key: CryptoKey,
+  alg: SignatureAlgorithm,
+): Verifier {
+  const params = algorithmParams(alg);
+  return async (base, signature, input) => {
+    if (input.alg !== undefined && input.alg !== alg) {
+      throw new SignatureError(
+        `signature ${input.label} uses ${input.alg}, not ${alg}`,
+      );
+    }
+    return await crypto.subtle.verify(
+      params,
+      key,
+      new Uint8Array(signature),
+      new Uint8Array(base),
+    );
+  };
+}
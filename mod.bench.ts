@@ -0,0 +1,120 @@
+import { decodeDictionary, decodeItem, decodeList } from "./mod.ts";
+import testDataExamples from "./structured-field-tests/examples.json" with {
+  type: "json",
+};
+import testDataList from "./structured-field-tests/list.json" with {
+  type: "json",
+};
+import testDataParamList from "./structured-field-tests/param-list.json" with {
+  type: "json",
+};
+import testDataListList from "./structured-field-tests/listlist.json" with {
+  type: "json",
+};
+import testDataParamListList from "./structured-field-tests/param-listlist.json" with {
+  type: "json",
+};
+import testDataDictionary from "./structured-field-tests/dictionary.json" with {
+  type: "json",
+};
+import testDataParamDict from "./structured-field-tests/param-dict.json" with {
+  type: "json",
+};
+import testDataNumber from "./structured-field-tests/number.json" with {
+  type: "json",
+};
+import testDataNumberGenerated from "./structured-field-tests/number-generated.json" with {
+  type: "json",
+};
+import testDataString from "./structured-field-tests/string.json" with {
+  type: "json",
+};
+import testDataStringGenerated from "./structured-field-tests/string-generated.json" with {
+  type: "json",
+};
+import testDataToken from "./structured-field-tests/token.json" with {
+  type: "json",
+};
+import testDataTokenGenerated from "./structured-field-tests/token-generated.json" with {
+  type: "json",
+};
+import testDataBinary from "./structured-field-tests/binary.json" with {
+  type: "json",
+};
+import testDataBoolean from "./structured-field-tests/boolean.json" with {
+  type: "json",
+};
+import testDataLargeGenerated from "./structured-field-tests/large-generated.json" with {
+  type: "json",
+};
+import testDataDate from "./structured-field-tests/date.json" with {
+  type: "json",
+};
+import testDisplayString from "./structured-field-tests/display-string.json" with {
+  type: "json",
+};
+
+interface TestData {
+  name: string;
+  raw: string[];
+  header_type: string;
+}
+
+const suites: Record<string, TestData[]> = {
+  "examples": testDataExamples,
+  "list": testDataList,
+  "param-list": testDataParamList,
+  "listlist": testDataListList,
+  "param-listlist": testDataParamListList,
+  "dictionary": testDataDictionary,
+  "param-dict": testDataParamDict,
+  "number": testDataNumber,
+  "number-generated": testDataNumberGenerated,
+  "string": testDataString,
+  "string-generated": testDataStringGenerated,
+  "token": testDataToken,
+  "token-generated": testDataTokenGenerated,
+  "binary": testDataBinary,
+  "boolean": testDataBoolean,
+  "large-generated": testDataLargeGenerated,
+  "date": testDataDate,
+  "display-string": testDisplayString,
+};
+
+function decode(data: TestData) {
+  try {
+    switch (data.header_type) {
+      case "item":
+        decodeItem(...data.raw);
+        break;
+      case "list":
+        decodeList(...data.raw);
+        break;
+      case "dictionary":
+        decodeDictionary(...data.raw);
+        break;
+    }
+  } catch {
+    // must_fail tests are also benchmarked.
+  }
+}
+
+for (const [name, suite] of Object.entries(suites)) {
+  Deno.bench(name, () => {
+    for (const data of suite) {
+      decode(data);
+    }
+  });
+}
+
+Deno.bench("decodeDictionary: typical", { group: "typical" }, () => {
+  decodeDictionary(
+    'sig1=("@method" "@authority" "@path" "content-digest");created=1618884473;keyid="test-key-rsa-pss", u=1, i',
+  );
+});
+
+Deno.bench("decodeList: typical", { group: "typical" }, () => {
+  decodeList(
+    'text/html;q=1.0, application/xhtml+xml, application/xml;q=0.9, */*;q=0.8, "foo", :cHJldGVuZCB0aGlzIGlzIGJpbmFyeSBjb250ZW50Lg==:',
+  );
+});
@@ -1,15 +1,26 @@
 import { assertEquals, assertThrows } from "jsr:@std/assert";
 import {
   Decimal,
+  decodeDictionary,
+  decodeItem,
+  decodeList,
   Dictionary,
   DisplayString,
+  dump,
   encodeDictionary,
+  encodeDictionaryLines,
+  encodeItem,
   encodeList,
+  encodeListLines,
   InnerList,
   Integer,
   Item,
   type List,
   Parameters,
+  requiredVersion,
+  SfDate,
+  SfvLimitError,
+  SfvParseError,
   Token,
 } from "./mod.ts";
 
@@ -221,6 +232,96 @@ Deno.test("decimal: out of range", () => {
   );
 });
 
+Deno.test("integer: bigint", () => {
+  const i = new Integer(-999999999999999n);
+  assertEquals(i.valueOf(), -999999999999999);
+  assertEquals(i.toBigInt(), -999999999999999n);
+  assertThrows(
+    () => new Integer(1000000000000000n),
+    RangeError,
+    "value must be between -999999999999999 and 999999999999999",
+  );
+});
+
+Deno.test("integer: parse", () => {
+  assertEquals(Integer.parse("-123").valueOf(), -123);
+  assertThrows(() => Integer.parse("1.0"), TypeError, "invalid integer string");
+  assertThrows(() => Integer.parse("1000000000000000"), RangeError);
+});
+
+Deno.test("integer: arithmetic", () => {
+  const a = new Integer(999999999);
+  const b = new Integer(1000000);
+  assertEquals(a.add(b).valueOf(), 1000999999);
+  assertEquals(a.subtract(b).valueOf(), 998999999);
+  assertEquals(a.multiply(b).valueOf(), 999999999000000);
+  assertThrows(() => a.multiply(a), RangeError);
+  assertEquals(a.compare(b), 1);
+  assertEquals(b.compare(a), -1);
+  assertEquals(a.equals(new Integer(999999999)), true);
+  assertEquals(
+    [new Integer(3), new Integer(-1), new Integer(2)].sort(Integer.compare)
+      .map(Number),
+    [-1, 2, 3],
+  );
+});
+
+Deno.test("decimal: exact", () => {
+  const d = decodeItem("999999999999.999").value as Decimal;
+  assertEquals(d.thousandths, 999999999999999n);
+  assertEquals(d.toString(), "999999999999.999");
+  assertEquals((decodeItem("-0.001").value as Decimal).thousandths, -1n);
+  assertEquals((decodeItem("-0.0").value as Decimal).valueOf(), 0);
+});
+
+Deno.test("decimal: parse", () => {
+  assertEquals(Decimal.parse("12.345").thousandths, 12345n);
+  assertEquals(Decimal.parse("-12.3").thousandths, -12300n);
+  assertEquals(Decimal.parse("7").toString(), "7.0");
+  assertEquals(Decimal.parse("0.100").toString(), "0.1");
+  assertThrows(() => Decimal.parse("1e3"), TypeError, "invalid decimal string");
+  assertThrows(
+    () => Decimal.parse("0.0001"),
+    RangeError,
+    "value must have at most three decimal places",
+  );
+  assertThrows(() => Decimal.parse("1000000000000"), RangeError);
+});
+
+Deno.test("decimal: fromThousandths", () => {
+  assertEquals(Decimal.fromThousandths(1500).toString(), "1.5");
+  assertEquals(Decimal.fromThousandths(-5n).toString(), "-0.005");
+  assertThrows(() => Decimal.fromThousandths(0.5), TypeError);
+  assertThrows(() => Decimal.fromThousandths(10n ** 15n), RangeError);
+});
+
+Deno.test("decimal: arithmetic", () => {
+  const a = Decimal.parse("0.1");
+  const b = Decimal.parse("0.2");
+  assertEquals(a.add(b).toString(), "0.3");
+  assertEquals(a.add(b).equals(Decimal.parse("0.3")), true);
+  assertEquals(a.subtract(b).toString(), "-0.1");
+  assertEquals(
+    Decimal.parse("1.005").multiply(Decimal.parse("0.5")).toString(),
+    "0.502",
+  );
+  assertEquals(
+    Decimal.parse("1.015").multiply(Decimal.parse("0.5")).toString(),
+    "0.508",
+  );
+  assertEquals(
+    Decimal.parse("-1.005").multiply(Decimal.parse("0.5")).toString(),
+    "-0.502",
+  );
+  assertThrows(
+    () => Decimal.parse("999999999999.999").add(Decimal.parse("0.001")),
+    RangeError,
+  );
+  assertEquals(a.compare(b), -1);
+  assertEquals(Decimal.compare(b, a), 1);
+  assertEquals(a.compare(Decimal.parse("0.100")), 0);
+});
+
 Deno.test("token", () => {
   const token = new Token("foo");
   assertEquals(token.toString(), "foo");
@@ -235,7 +336,125 @@ Deno.test("byte sequences", () => {
 Deno.test("date", () => {
   const date = new Date(999);
   const item = new Item(date);
-  assertEquals(item.toString(), "@0");
+  assertEquals(item.toString({ allowSubsecond: true }), "@0");
+});
+
+Deno.test("date: invalid", () => {
+  assertThrows(
+    () => new Item(new Date(NaN)).toString(),
+    TypeError,
+    "invalid date",
+  );
+});
+
+Deno.test("date: out of the range of Date", () => {
+  const err = assertThrows(
+    () => decodeItem("@999999999999999"),
+    SfvParseError,
+    'date is out of the range of Date; use dates: "sfdate" to decode it',
+  );
+  assertEquals(err.offset, 0);
+
+  const item = decodeItem("@999999999999999", { dates: "sfdate" });
+  assertEquals(item.value, new SfDate(999999999999999));
+  assertEquals(item.toString(), "@999999999999999");
+
+  // dates in the range of Date are decoded into Date by default
+  assertEquals(decodeItem("@-62135596800").value, new Date(-62135596800000));
+});
+
+Deno.test("SfDate", () => {
+  const date = new SfDate(1659578233);
+  assertEquals(date.toString(), "@1659578233");
+  assertEquals(date.valueOf(), 1659578233);
+  assertEquals(date.toDate(), new Date(1659578233000));
+  assertEquals(date.toEpochNanoseconds(), 1659578233000000000n);
+  assertEquals(new SfDate(-1n).valueOf(), -1);
+  assertEquals(new Item(new SfDate(1)).toString(), "@1");
+
+  assertThrows(
+    () => new SfDate(1.5),
+    RangeError,
+    "value must be a whole number of seconds",
+  );
+  assertThrows(() => new SfDate(SfDate.MAX_VALUE + 1), RangeError);
+  assertThrows(() => new SfDate(SfDate.MIN_VALUE - 1), RangeError);
+
+  const far = new SfDate(SfDate.MAX_VALUE);
+  assertEquals(far.isDateCompatible(), false);
+  assertThrows(() => far.toDate(), RangeError);
+});
+
+Deno.test("encode: sub-second dates", () => {
+  assertEquals(encodeItem(new Item(new Date(2000))), "@2");
+  assertThrows(
+    () => encodeItem(new Item(new Date(1500))),
+    RangeError,
+    "date has sub-second precision",
+  );
+  assertThrows(
+    () => encodeList([new Item(true, new Parameters([["d", new Date(1)]]))]),
+    RangeError,
+    "date has sub-second precision",
+  );
+  assertEquals(
+    encodeItem(new Item(new Date(1500)), { allowSubsecond: true }),
+    "@1",
+  );
+  assertEquals(
+    encodeDictionary(new Dictionary([["d", new Item(new Date(-1500))]]), {
+      allowSubsecond: true,
+    }),
+    "d=@-2",
+  );
+
+  // toString rejects them in the same way.
+  assertThrows(
+    () => new Item(new Date(1500)).toString(),
+    RangeError,
+    "date has sub-second precision",
+  );
+  assertThrows(
+    () => new Parameters([["a", new Date(1500)]]).toString(),
+    RangeError,
+    "date has sub-second precision",
+  );
+  assertEquals(
+    new Item(new Date(1500)).toString({ allowSubsecond: true }),
+    "@1",
+  );
+  assertEquals(
+    new Parameters([["a", new Date(1500)]]).toString({ allowSubsecond: true }),
+    ";a=@1",
+  );
+});
+
+Deno.test("SfDate: fromDate", () => {
+  assertEquals(SfDate.fromDate(new Date(2000)), new SfDate(2));
+  assertThrows(
+    () => SfDate.fromDate(new Date(2500)),
+    RangeError,
+    "date has sub-second precision",
+  );
+  assertEquals(
+    SfDate.fromDate(new Date(-2500), { allowSubsecond: true }),
+    new SfDate(-3),
+  );
+  assertThrows(() => SfDate.fromDate(new Date(NaN)), TypeError, "invalid date");
+});
+
+Deno.test("SfDate: fromInstant", () => {
+  const instant = { epochNanoseconds: 1659578233000000000n };
+  assertEquals(SfDate.fromInstant(instant), new SfDate(1659578233));
+  assertThrows(
+    () => SfDate.fromInstant({ epochNanoseconds: 1n }),
+    RangeError,
+    "instant has sub-second precision",
+  );
+  assertEquals(
+    SfDate.fromInstant({ epochNanoseconds: -1n }, { allowSubsecond: true }),
+    new SfDate(-1),
+  );
 });
 
 Deno.test("display string", () => {
@@ -243,3 +462,568 @@ Deno.test("display string", () => {
   assertEquals(displayString.toString(), '%"foo"');
   assertEquals(displayString.valueOf(), "foo");
 });
+
+Deno.test("display string: encoding", () => {
+  const params = new Parameters([["a", new DisplayString("füü")]]);
+  const item = new Item(new DisplayString('%"\n'), params);
+  assertEquals(encodeItem(item), '%"%25%22%0a";a=%"f%c3%bc%c3%bc"');
+  assertEquals(
+    encodeItem(decodeItem(encodeItem(item))),
+    encodeItem(item),
+  );
+  assertThrows(
+    () => new DisplayString("\ud800").toString(),
+    TypeError,
+    "display string contains lone surrogates",
+  );
+});
+
+Deno.test("parse error: unexpected character", () => {
+  const err = assertThrows(
+    () => decodeDictionary("a=1, b=?2"),
+    SfvParseError,
+    'unexpected character "2" at 8: expected "0" or "1"',
+  );
+  assertEquals(err.line, 0);
+  assertEquals(err.offset, 8);
+  assertEquals(err.character, "2");
+  assertEquals(err.expected, ['"0"', '"1"']);
+  assertEquals(err.format(), "a=1, b=?2\n        ^ " + err.message);
+});
+
+Deno.test("parse error: uppercase keys", () => {
+  // RFC 8941 Section 3.1.2 allows only lowercase letters in keys.
+  assertThrows(
+    () => decodeDictionary("A=1"),
+    SfvParseError,
+    'unexpected character "A" at 0: expected key',
+  );
+  assertThrows(
+    () => decodeDictionary("aB=1"),
+    SfvParseError,
+    'unexpected character "B" at 1',
+  );
+  assertThrows(
+    () => decodeItem("a;B=1"),
+    SfvParseError,
+    'unexpected character "B" at 2: expected key',
+  );
+});
+
+Deno.test("parse error: unexpected end of input", () => {
+  const err = assertThrows(
+    () => decodeList("a, "),
+    SfvParseError,
+    "unexpected end of input at 3: expected item or inner list",
+  );
+  assertEquals(err.character, undefined);
+});
+
+Deno.test("parse error: multiple field lines", () => {
+  const err = assertThrows(
+    () => decodeList("a, b", "c, (d", "e"),
+    SfvParseError,
+    'unexpected character "," at 5 in field line 1',
+  );
+  assertEquals(err.line, 1);
+  assertEquals(err.offset, 5);
+  assertEquals(err.format(), "c, (d\n     ^ " + err.message);
+});
+
+Deno.test("parse error: number is too long", () => {
+  const err = assertThrows(
+    () => decodeItem("1234567890123456"),
+    SfvParseError,
+    "number is too long at 15",
+  );
+  assertEquals(err.expected, []);
+});
+
+Deno.test("parse error: truncated percent-encoding", () => {
+  const err = assertThrows(
+    () => decodeItem('%"%a'),
+    SfvParseError,
+    "unexpected end of input at 4: expected lowercase hex digit",
+  );
+  assertEquals(err.character, undefined);
+});
+
+Deno.test("parse error: string across field lines", () => {
+  assertEquals(decodeItem('"a', 'b"').value, "a,b");
+  const err = assertThrows(
+    () => decodeList('"a', "b\t"),
+    SfvParseError,
+    'unexpected character "\\t" at 1 in field line 1',
+  );
+  assertEquals(err.line, 1);
+});
+
+Deno.test("parse error: offsets in UTF-16 code units", () => {
+  // the emoji is a surrogate pair, so it is two code units and one character.
+  const { diagnostics } = decodeList("\u{1F600}, a b", { mode: "tolerant" });
+  const err = diagnostics[1].error;
+  assertEquals(err.message, 'unexpected character "b" at 6: expected ","');
+  assertEquals(err.input[0].slice(err.offset), "b");
+  assertEquals(err.format(), "\u{1F600}, a b\n     ^ " + err.message);
+});
+
+Deno.test("parse error: tabs are kept in the caret line", () => {
+  const err = assertThrows(
+    () => decodeList("a,\t!"),
+    SfvParseError,
+  );
+  assertEquals(err.format(), "a,\t!\n  \t^ " + err.message);
+});
+
+Deno.test("parse error: is a SyntaxError", () => {
+  assertThrows(() => decodeItem("?2"), SyntaxError);
+});
+
+Deno.test("tolerant mode: list", () => {
+  const { value, diagnostics } = decodeList('a, b c, "x,y" ?, d', {
+    mode: "tolerant",
+  });
+  assertEquals(encodeList(value), "a, d");
+  assertEquals(diagnostics.length, 2);
+  assertEquals(diagnostics[0].line, 0);
+  assertEquals(diagnostics[0].offset, 3);
+  assertEquals(diagnostics[0].skipped, "b c");
+  assertEquals(diagnostics[0].error.offset, 5);
+  assertEquals(diagnostics[1].offset, 8);
+  assertEquals(diagnostics[1].skipped, '"x,y" ?');
+});
+
+Deno.test("tolerant mode: dictionary", () => {
+  const { value, diagnostics } = decodeDictionary(
+    "a=1, B=2",
+    "c=(1 2, d=?1;x",
+    { mode: "tolerant" },
+  );
+  assertEquals(encodeDictionary(value), "a=1, d;x");
+  assertEquals(
+    diagnostics.map((d) => [d.line, d.offset, d.skipped]),
+    [[0, 5, "B=2"], [1, 0, "c=(1 2"]],
+  );
+});
+
+Deno.test("tolerant mode: inner lists", () => {
+  // a malformed inner list is skipped as a whole.
+  const { value, diagnostics } = decodeList("a, (b ?2, c), d", {
+    mode: "tolerant",
+  });
+  assertEquals(encodeList(value), "a, d");
+  assertEquals(
+    diagnostics.map((d) => [d.offset, d.skipped]),
+    [[3, "(b ?2, c)"]],
+  );
+
+  // an unclosed inner list ends at the end of the field line.
+  const result = decodeList("a, (b c", "d", { mode: "tolerant" });
+  assertEquals(encodeList(result.value), "a, d");
+  assertEquals(result.diagnostics.map((d) => d.skipped), ["(b c"]);
+
+  // an inner list that isn't closed in the line ends at its first ",".
+  const unclosed = decodeList('a, (b ", c" ?2, d', { mode: "tolerant" });
+  assertEquals(encodeList(unclosed.value), "a, d");
+  assertEquals(unclosed.diagnostics.map((d) => d.skipped), ['(b ", c" ?2']);
+
+  // strings continue to the next field line.
+  const multiline = decodeList('a, ("b', 'c" ?2), d', { mode: "tolerant" });
+  assertEquals(encodeList(multiline.value), "a, d");
+  assertEquals(multiline.diagnostics.map((d) => d.skipped), ['("b,c" ?2)']);
+});
+
+Deno.test("tolerant mode: trailing comma", () => {
+  const { value, diagnostics } = decodeList("a, b,", { mode: "tolerant" });
+  assertEquals(encodeList(value), "a, b");
+  assertEquals(diagnostics.length, 1);
+  assertEquals(diagnostics[0].skipped, "");
+  assertEquals(
+    diagnostics[0].error.message,
+    "unexpected end of input at 5: expected item or inner list",
+  );
+});
+
+Deno.test("tolerant mode: strict by default", () => {
+  assertThrows(() => decodeList("a, b c"), SfvParseError);
+  assertThrows(
+    () => decodeDictionary("a=1, B=2", { mode: "strict" }),
+    SfvParseError,
+  );
+});
+
+Deno.test("limits: input length", () => {
+  const err = assertThrows(
+    () => decodeList("a, b", "c, d", { limits: { maxInputLength: 6 } }),
+    SfvLimitError,
+    "input is too long (maxInputLength: 6) at 1 in field line 1",
+  );
+  assertEquals(err.limit, "maxInputLength");
+  assertEquals(err.character, ",");
+});
+
+Deno.test("limits: members", () => {
+  const limits = { maxMembers: 2 };
+  assertEquals(decodeList("a, b", { limits }).length, 2);
+  assertThrows(
+    () => decodeList("a, b, c", { limits }),
+    SfvLimitError,
+    "too many list members (maxMembers: 2) at 6",
+  );
+  assertThrows(
+    () => decodeDictionary("a, b, c", { limits }),
+    SfvLimitError,
+    "too many dictionary members (maxMembers: 2) at 6",
+  );
+});
+
+Deno.test("limits: parameters and inner lists", () => {
+  const limits = { maxParameters: 1, maxInnerListLength: 2 };
+  assertEquals(decodeItem("a;x", { limits }).parameters.size, 1);
+  assertThrows(
+    () => decodeItem("a;x;y", { limits }),
+    SfvLimitError,
+    "too many parameters (maxParameters: 1) at 3",
+  );
+  assertThrows(
+    () => decodeList("(1 2 3)", { limits }),
+    SfvLimitError,
+    "too many inner list items (maxInnerListLength: 2) at 5",
+  );
+});
+
+Deno.test("limits: strings, tokens and byte sequences", () => {
+  const limits = { maxStringLength: 3, maxTokenLength: 3, maxBinaryLength: 3 };
+  assertEquals(decodeItem('"a\\\\b"', { limits }).value, "a\\b");
+  assertThrows(
+    () => decodeItem('"abcd"', { limits }),
+    SfvLimitError,
+    "string is too long (maxStringLength: 3) at 4",
+  );
+  assertThrows(
+    () => decodeItem('%"ab%c3%a9"', { limits }),
+    SfvLimitError,
+    "display string is too long (maxStringLength: 3) at 7",
+  );
+  assertThrows(
+    () => decodeItem("abcd", { limits }),
+    SfvLimitError,
+    "token is too long (maxTokenLength: 3) at 3",
+  );
+  assertEquals(
+    decodeItem(":AQID:", { limits }).value,
+    new Uint8Array([1, 2, 3]),
+  );
+  assertThrows(
+    () => decodeItem(":AQIDBA==:", { limits }),
+    SfvLimitError,
+    "byte sequence is too long (maxBinaryLength: 3) at 1",
+  );
+  // the encoded length is checked before decoding.
+  assertThrows(
+    () => decodeItem(`:${"A".repeat(8)}:`, { limits }),
+    SfvLimitError,
+    "byte sequence is too long (maxBinaryLength: 3) at 1",
+  );
+});
+
+Deno.test("limits: undefined limits are the defaults", () => {
+  const input = Array.from({ length: 5000 }, (_, i) => `k${i}`).join(", ");
+  assertThrows(
+    () => decodeDictionary(input, { limits: { maxMembers: undefined } }),
+    SfvLimitError,
+    "too many dictionary members (maxMembers: 4096)",
+  );
+  assertEquals(
+    decodeItem(":AQID:", { limits: { maxBinaryLength: undefined } }).value,
+    new Uint8Array([1, 2, 3]),
+  );
+});
+
+Deno.test("limits: enforced in the tolerant mode", () => {
+  assertThrows(
+    () =>
+      decodeList("a, b, c", { mode: "tolerant", limits: { maxMembers: 2 } }),
+    SfvLimitError,
+  );
+});
+
+Deno.test("limits: disabled by Infinity", () => {
+  const input = Array.from({ length: 5000 }, (_, i) => `k${i}`).join(", ");
+  assertThrows(() => decodeDictionary(input), SfvLimitError);
+  const dict = decodeDictionary(input, {
+    limits: { maxMembers: Infinity },
+  });
+  assertEquals(dict.size, 5000);
+});
+
+Deno.test("limits: invalid limits", () => {
+  assertThrows(
+    () => decodeList("a", { limits: { maxMembers: NaN } }),
+    RangeError,
+    "maxMembers must be a non-negative integer or Infinity: NaN",
+  );
+  assertThrows(
+    () => decodeItem("a", { limits: { maxTokenLength: -1 } }),
+    RangeError,
+    "maxTokenLength must be a non-negative integer or Infinity: -1",
+  );
+  assertThrows(
+    () => decodeDictionary("a", { limits: { maxInputLength: 1.5 } }),
+    RangeError,
+    "maxInputLength must be a non-negative integer or Infinity: 1.5",
+  );
+  assertThrows(
+    () => decodeList("a", { limits: { maxMembers: -Infinity } }),
+    RangeError,
+  );
+  assertEquals(decodeList("", { limits: { maxMembers: 0 } }), []);
+});
+
+Deno.test("encodeListLines", () => {
+  const list = decodeList('a, "bcd", (1 2);x, e');
+  const lines = encodeListLines(list, { maxLineLength: 10 });
+  assertEquals(lines, ['a, "bcd"', "(1 2);x, e"]);
+  assertEquals(encodeList(decodeList(...lines)), encodeList(list));
+  assertEquals(encodeListLines([], { maxLineLength: 10 }), []);
+  assertThrows(
+    () => encodeListLines(list, { maxLineLength: 5 }),
+    RangeError,
+    "member 2 is 7 characters long, exceeding maxLineLength 5",
+  );
+});
+
+Deno.test("encodeDictionaryLines", () => {
+  const dict = decodeDictionary("a=1, b, c;x=2, d=(1 2)");
+  const lines = encodeDictionaryLines(dict, { maxLineLength: 8 });
+  assertEquals(lines, ["a=1, b", "c;x=2", "d=(1 2)"]);
+  assertEquals(
+    encodeDictionary(decodeDictionary(...lines)),
+    encodeDictionary(dict),
+  );
+  assertThrows(
+    () => encodeDictionaryLines(dict, { maxLineLength: 6 }),
+    RangeError,
+    'member "d" is 7 characters long, exceeding maxLineLength 6',
+  );
+});
+
+Deno.test("version: decoding", () => {
+  const err = assertThrows(
+    () => decodeList("a, @1659578233", { version: "rfc8941" }),
+    SfvParseError,
+    "date requires RFC 9651 at 3",
+  );
+  assertEquals(err.character, "@");
+  assertThrows(
+    () => decodeItem('a;x=%"f"', { version: "rfc8941" }),
+    SfvParseError,
+    "display string requires RFC 9651 at 4",
+  );
+
+  const { value, diagnostics } = decodeDictionary("a=1, b=@0, c=3", {
+    version: "rfc8941",
+    mode: "tolerant",
+  });
+  assertEquals(encodeDictionary(value), "a=1, c=3");
+  assertEquals(diagnostics[0].skipped, "b=@0");
+
+  assertEquals(
+    decodeItem("@0", { version: "rfc9651" }).value,
+    new Date(0),
+  );
+});
+
+Deno.test("version: encoding", () => {
+  const list = decodeList('a, (b %"c")');
+  assertEquals(encodeList(list), 'a, (b %"c")');
+  assertThrows(
+    () => encodeList(list, { version: "rfc8941" }),
+    TypeError,
+    "display string requires RFC 9651",
+  );
+  assertThrows(
+    () => encodeListLines(list, { maxLineLength: 10, version: "rfc8941" }),
+    TypeError,
+    "display string requires RFC 9651",
+  );
+  assertThrows(
+    () => encodeItem(decodeItem("a;t=@0"), { version: "rfc8941" }),
+    TypeError,
+    "date requires RFC 9651",
+  );
+  const dict = decodeDictionary("a=1, b=@0");
+  assertThrows(
+    () => encodeDictionary(dict, { version: "rfc8941" }),
+    TypeError,
+    "date requires RFC 9651",
+  );
+  assertThrows(
+    () =>
+      encodeDictionaryLines(dict, { maxLineLength: 10, version: "rfc8941" }),
+    TypeError,
+    "date requires RFC 9651",
+  );
+  assertEquals(
+    encodeDictionary(decodeDictionary("a=1, b"), { version: "rfc8941" }),
+    "a=1, b",
+  );
+
+  // toString checks the version in the same way.
+  assertThrows(
+    () => new Item(new Date(1000)).toString({ version: "rfc8941" }),
+    TypeError,
+    "date requires RFC 9651",
+  );
+  assertThrows(
+    () => list.map((member) => member.toString({ version: "rfc8941" })),
+    TypeError,
+    "display string requires RFC 9651",
+  );
+  assertThrows(
+    () =>
+      new Parameters([["t", new SfDate(0)]]).toString({ version: "rfc8941" }),
+    TypeError,
+    "date requires RFC 9651",
+  );
+  assertEquals(new Item(new Date(1000)).toString(), "@1");
+});
+
+Deno.test("requiredVersion", () => {
+  assertEquals(requiredVersion(decodeList("a, (b c);x=1")), "rfc8941");
+  assertEquals(requiredVersion(decodeList('a, (b %"c")')), "rfc9651");
+  assertEquals(requiredVersion(decodeDictionary("a;t=@0")), "rfc9651");
+  assertEquals(requiredVersion(decodeItem("a")), "rfc8941");
+  assertEquals(requiredVersion(new SfDate(0)), "rfc9651");
+  assertEquals(requiredVersion(new Parameters()), "rfc8941");
+});
+
+Deno.test("typed getters: Dictionary", () => {
+  const dict = decodeDictionary(
+    'u=5, i, s="x", t=tok, b=:AQID:, d=1.5, at=@0, ds=%"f", l=(1 2), far=@999999999999999',
+    { dates: "sfdate" },
+  );
+  assertEquals(dict.getInteger("u"), 5);
+  assertEquals(dict.getBoolean("i"), true);
+  assertEquals(dict.getString("s"), "x");
+  assertEquals(dict.getToken("t"), "tok");
+  assertEquals(dict.getBytes("b"), new Uint8Array([1, 2, 3]));
+  assertEquals(dict.getDecimal("d"), 1.5);
+  assertEquals(dict.getDate("at"), new Date(0));
+  assertEquals(dict.getDisplayString("ds"), "f");
+  assertEquals(dict.getInnerList("l")?.items.length, 2);
+
+  // missing keys and other types
+  assertEquals(dict.getInteger("missing"), undefined);
+  assertEquals(dict.getInteger("t"), undefined);
+  assertEquals(dict.getInteger("l"), undefined);
+  assertEquals(dict.getInteger("missing", { default: 3 }), 3);
+  assertEquals(dict.getInteger("t", { default: 3 }), 3);
+  assertEquals(dict.getDate("far"), undefined);
+
+  assertEquals(dict.getIntegerOrThrow("u"), 5);
+  assertEquals(dict.getIntegerOrThrow("missing", { default: 3 }), 3);
+  assertThrows(
+    () => dict.getIntegerOrThrow("missing"),
+    TypeError,
+    'member "missing" is missing',
+  );
+  assertThrows(
+    () => dict.getIntegerOrThrow("t", { default: 3 }),
+    TypeError,
+    'member "t" is a Token, not an Integer',
+  );
+  assertThrows(
+    () => dict.getTokenOrThrow("l"),
+    TypeError,
+    'member "l" is an Inner List, not a Token',
+  );
+  assertThrows(
+    () => dict.getInnerListOrThrow("u"),
+    TypeError,
+    'member "u" is an Integer, not an Inner List',
+  );
+  assertThrows(
+    () => dict.getDateOrThrow("far"),
+    TypeError,
+    'member "far" is a Date out of the range of Date, not a Date',
+  );
+});
+
+Deno.test("typed getters: Parameters", () => {
+  const params = decodeItem("a;q=0.5;x;n=1").parameters;
+  assertEquals(params.getDecimal("q"), 0.5);
+  assertEquals(params.getBoolean("x"), true);
+  assertEquals(params.getDecimal("n"), undefined);
+  assertEquals(params.getDecimal("n", { default: 1 }), 1);
+  assertEquals(params.getDecimalOrThrow("missing", { default: 1 }), 1);
+  assertThrows(
+    () => params.getDecimalOrThrow("n"),
+    TypeError,
+    'parameter "n" is an Integer, not a Decimal',
+  );
+});
+
+Deno.test("typed getters: Item", () => {
+  const item = decodeItem("tok;q=1");
+  assertEquals(item.getToken(), "tok");
+  assertEquals(item.getString(), undefined);
+  assertEquals(item.getString({ default: "" }), "");
+  assertEquals(item.getTokenOrThrow(), "tok");
+  assertThrows(
+    () => item.getStringOrThrow(),
+    TypeError,
+    "item is a Token, not a String",
+  );
+  assertEquals(item.parameters.getIntegerOrThrow("q"), 1);
+});
+
+Deno.test("inspect", () => {
+  const dict = decodeDictionary('a=1;q=0.5, b=(x "y");p, c=:AQID:, d=@0');
+  assertEquals(
+    Deno.inspect(dict),
+    'Dictionary { a: Item(Integer 1;q=Decimal 0.5), b: InnerList(Token x, String "y");p, c: Item(ByteSequence :AQID:), d: Item(Date @0) }',
+  );
+  assertEquals(
+    Deno.inspect(decodeList('a, %"f"')),
+    '[ Item(Token a), Item(DisplayString "f") ]',
+  );
+  assertEquals(Deno.inspect(new Integer(3)), "Integer 3");
+  assertEquals(Deno.inspect(new SfDate(5)), "SfDate @5");
+  assertEquals(Deno.inspect(new Parameters()), "Parameters {}");
+  assertEquals(Deno.inspect(new Item(new Date(NaN))), "Item(Date Invalid)");
+
+  // the same representation for Node.js
+  const custom = Symbol.for("nodejs.util.inspect.custom");
+  const item = decodeItem("a;x=?0");
+  assertEquals(
+    (item as unknown as Record<symbol, () => string>)[custom](),
+    "Item(Token a;x=Boolean ?0)",
+  );
+});
+
+Deno.test("dump", () => {
+  const dict = decodeDictionary("a=1;q=0.5, b=(x y);p");
+  assertEquals(
+    dump(dict),
+    [
+      "Dictionary (2 members)",
+      "  a: Item Integer 1",
+      "    ;q: Decimal 0.5",
+      "  b: InnerList (2 items)",
+      "    [0]: Item Token x",
+      "    [1]: Item Token y",
+      "    ;p: Boolean ?1",
+    ].join("\n"),
+  );
+  assertEquals(
+    dump(decodeList("a, ()")),
+    ["List (2 members)", "  [0]: Item Token a", "  [1]: InnerList (0 items)"]
+      .join("\n"),
+  );
+  assertEquals(
+    dump(decodeItem("a;x=1").parameters),
+    "Parameters (1 parameter)\n  ;x: Integer 1",
+  );
+  assertEquals(dump("a"), 'String "a"');
+});
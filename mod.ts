@@ -1,39 +1,116 @@
+import { splitDecodeArgs } from "./decode_args.ts";
+import { type DecodeTrace, traceOf } from "./decode_trace.ts";
+
 /**
  * InnerList is a list of items defined in RFC 8941 Section 3.1.
  */
 export type List = (Item | InnerList)[];
 
+/**
+ * SfvVersion is the version of the specification of Structured Field Values.
+ *
+ * - "rfc8941": RFC 8941, which doesn't have Dates and Display Strings.
+ * - "rfc9651": RFC 9651, which adds Dates and Display Strings.
+ */
+export type SfvVersion = "rfc8941" | "rfc9651";
+
+/**
+ * EncodeOptions is the options for the encode functions and the toString methods.
+ */
+export interface EncodeOptions {
+  /**
+   * version is the version of the specification that the output conforms to.
+   * The encode functions and the toString methods throw TypeError if the value requires a newer version.
+   *
+   * The default is "rfc9651".
+   */
+  version?: SfvVersion;
+
+  /**
+   * allowSubsecond allows Dates that have the sub-second precision, and floors them to seconds.
+   * By default, the encode functions and the toString methods throw RangeError for them.
+   */
+  allowSubsecond?: boolean;
+}
+
 /**
  * encodeList encodes a list according to RFC 8941 Section 4.1.1.
  *
  * @param list the list to encode
+ * @param options the options of encoding
  * @returns SFV-encoded string
  */
-export function encodeList(list: List): string {
+export function encodeList(list: List, options: EncodeOptions = {}): string {
   let output = "";
   for (let i = 0; i < list.length; i++) {
     if (i !== 0) {
       output += ", ";
     }
     const item = list[i];
-    output += item.toString();
+    output += item.toString(options);
   }
   return output;
 }
 
+/**
+ * EncodeLinesOptions is the options for encodeListLines and encodeDictionaryLines.
+ */
+export interface EncodeLinesOptions extends EncodeOptions {
+  /**
+   * maxLineLength is the maximum length of each field line.
+   */
+  maxLineLength: number;
+}
+
+/**
+ * encodeListLines encodes a list into multiple field lines.
+ * The list is split at the boundaries of the members,
+ * and decodeList(...lines) returns the same list.
+ * It throws RangeError if a member is longer than maxLineLength.
+ *
+ * @param list the list to encode
+ * @param options the options of the field lines
+ * @returns SFV-encoded field lines. It is empty if the list is empty.
+ */
+export function encodeListLines(
+  list: List,
+  options: EncodeLinesOptions,
+): string[] {
+  const members = list.map((item) => item.toString(options));
+  return splitLines(members, options.maxLineLength, (i) => `member ${i}`);
+}
+
 /**
  * decodeList decodes a list according to RFC 8941 Section 4.2.1.
+ * The options can be passed as the last argument.
  *
  * @param input SFV-encoded string
  * @returns decoded list
  */
-export function decodeList(...input: string[]): List {
-  const state = new DecodeState(...input);
+export function decodeList(...input: string[]): List;
+export function decodeList(
+  ...args: [...input: string[], options: TolerantDecodeOptions]
+): DecodeResult<List>;
+export function decodeList(
+  ...args: [...input: string[], options: StrictDecodeOptions]
+): List;
+export function decodeList(
+  ...args: [...input: string[], options: DecodeOptions]
+): List | DecodeResult<List>;
+export function decodeList(
+  ...args: (string | DecodeOptions)[]
+): List | DecodeResult<List> {
+  const [input, options] = splitDecodeArgs(args);
+  const diagnostics = options.mode === "tolerant" ? [] : undefined;
+  const state = new DecodeState(input, options);
   state.skipSPs();
-  const list = state.decodeList();
+  const list = state.decodeList(diagnostics);
   state.skipSPs();
   if (state.peek() !== END_OF_INPUT) {
-    throw new SyntaxError("unexpected input");
+    state.errUnexpectedCharacter("end of input");
+  }
+  if (diagnostics !== undefined) {
+    return { value: list, diagnostics };
   }
   return list;
 }
@@ -49,8 +126,14 @@ export type BareItem =
   | Uint8Array
   | boolean
   | Date
+  | SfDate
   | DisplayString;
 
+// the keys of the methods that customize the console output.
+// They are evaluated when the classes are defined, so they are declared before the classes.
+const INSPECT_DENO = Symbol.for("Deno.customInspect");
+const INSPECT_NODE = Symbol.for("nodejs.util.inspect.custom");
+
 /**
  * InnerList is a list of items defined in RFC 8941 Section 3.1.1
  */
@@ -72,17 +155,36 @@ export class InnerList {
   /**
    * toString serializes the inner list to a string.
    *
+   * @param options the options of encoding
    * @returns SFV-encoded string of the inner list
    */
-  toString(): string {
+  toString(options: EncodeOptions = {}): string {
     let output = "(";
     for (const item of this.items) {
-      output += item.toString() + " ";
+      output += item.toString(options) + " ";
     }
     output = output.trimEnd() + ")";
-    output += this.parameters.toString();
+    output += this.parameters.toString(options);
     return output;
   }
+
+  /**
+   * Deno.customInspect returns the representation of the inner list for Deno's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_DENO](): string {
+    return inspect(this);
+  }
+
+  /**
+   * nodejs.util.inspect.custom returns the representation of the inner list for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
+  }
 }
 
 /**
@@ -179,6 +281,267 @@ export class Dictionary {
     throw new RangeError("index out of range");
   }
 
+  /**
+   * getInteger returns the value corresponding to the key as a number.
+   * If the key is missing or the value isn't an Integer,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getInteger(key: string): number | undefined;
+  getInteger(key: string, options: GetOptions<number>): number;
+  getInteger(key: string, options?: GetOptions<number>): number | undefined {
+    return getMember(this, key, INTEGER_TYPE, options);
+  }
+
+  /**
+   * getIntegerOrThrow returns the value corresponding to the key as a number.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't an Integer, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getIntegerOrThrow(key: string, options?: GetOptions<number>): number {
+    return getMemberOrThrow(this, key, INTEGER_TYPE, options);
+  }
+
+  /**
+   * getDecimal returns the value corresponding to the key as a number.
+   * If the key is missing or the value isn't a Decimal,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDecimal(key: string): number | undefined;
+  getDecimal(key: string, options: GetOptions<number>): number;
+  getDecimal(key: string, options?: GetOptions<number>): number | undefined {
+    return getMember(this, key, DECIMAL_TYPE, options);
+  }
+
+  /**
+   * getDecimalOrThrow returns the value corresponding to the key as a number.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Decimal, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDecimalOrThrow(key: string, options?: GetOptions<number>): number {
+    return getMemberOrThrow(this, key, DECIMAL_TYPE, options);
+  }
+
+  /**
+   * getString returns the value corresponding to the key.
+   * If the key is missing or the value isn't a String,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getString(key: string): string | undefined;
+  getString(key: string, options: GetOptions<string>): string;
+  getString(key: string, options?: GetOptions<string>): string | undefined {
+    return getMember(this, key, STRING_TYPE, options);
+  }
+
+  /**
+   * getStringOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a String, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getStringOrThrow(key: string, options?: GetOptions<string>): string {
+    return getMemberOrThrow(this, key, STRING_TYPE, options);
+  }
+
+  /**
+   * getToken returns the value corresponding to the key as a string.
+   * If the key is missing or the value isn't a Token,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getToken(key: string): string | undefined;
+  getToken(key: string, options: GetOptions<string>): string;
+  getToken(key: string, options?: GetOptions<string>): string | undefined {
+    return getMember(this, key, TOKEN_TYPE, options);
+  }
+
+  /**
+   * getTokenOrThrow returns the value corresponding to the key as a string.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Token, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getTokenOrThrow(key: string, options?: GetOptions<string>): string {
+    return getMemberOrThrow(this, key, TOKEN_TYPE, options);
+  }
+
+  /**
+   * getBytes returns the value corresponding to the key.
+   * If the key is missing or the value isn't a Byte Sequence,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getBytes(key: string): Uint8Array | undefined;
+  getBytes(key: string, options: GetOptions<Uint8Array>): Uint8Array;
+  getBytes(
+    key: string,
+    options?: GetOptions<Uint8Array>,
+  ): Uint8Array | undefined {
+    return getMember(this, key, BYTES_TYPE, options);
+  }
+
+  /**
+   * getBytesOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Byte Sequence, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getBytesOrThrow(key: string, options?: GetOptions<Uint8Array>): Uint8Array {
+    return getMemberOrThrow(this, key, BYTES_TYPE, options);
+  }
+
+  /**
+   * getBoolean returns the value corresponding to the key.
+   * If the key is missing or the value isn't a Boolean,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getBoolean(key: string): boolean | undefined;
+  getBoolean(key: string, options: GetOptions<boolean>): boolean;
+  getBoolean(key: string, options?: GetOptions<boolean>): boolean | undefined {
+    return getMember(this, key, BOOLEAN_TYPE, options);
+  }
+
+  /**
+   * getBooleanOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Boolean, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getBooleanOrThrow(key: string, options?: GetOptions<boolean>): boolean {
+    return getMemberOrThrow(this, key, BOOLEAN_TYPE, options);
+  }
+
+  /**
+   * getDate returns the value corresponding to the key.
+   * If the key is missing or the value isn't a Date,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDate(key: string): Date | undefined;
+  getDate(key: string, options: GetOptions<Date>): Date;
+  getDate(key: string, options?: GetOptions<Date>): Date | undefined {
+    return getMember(this, key, DATE_TYPE, options);
+  }
+
+  /**
+   * getDateOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Date, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDateOrThrow(key: string, options?: GetOptions<Date>): Date {
+    return getMemberOrThrow(this, key, DATE_TYPE, options);
+  }
+
+  /**
+   * getDisplayString returns the value corresponding to the key as a string.
+   * If the key is missing or the value isn't a Display String,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDisplayString(key: string): string | undefined;
+  getDisplayString(key: string, options: GetOptions<string>): string;
+  getDisplayString(
+    key: string,
+    options?: GetOptions<string>,
+  ): string | undefined {
+    return getMember(this, key, DISPLAY_STRING_TYPE, options);
+  }
+
+  /**
+   * getDisplayStringOrThrow returns the value corresponding to the key as a string.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Display String, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDisplayStringOrThrow(key: string, options?: GetOptions<string>): string {
+    return getMemberOrThrow(this, key, DISPLAY_STRING_TYPE, options);
+  }
+
+  /**
+   * getInnerList returns the value corresponding to the key.
+   * If the key is missing or the value isn't an Inner List,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getInnerList(key: string): InnerList | undefined;
+  getInnerList(key: string, options: GetOptions<InnerList>): InnerList;
+  getInnerList(
+    key: string,
+    options?: GetOptions<InnerList>,
+  ): InnerList | undefined {
+    return getMember(this, key, INNER_LIST_TYPE, options);
+  }
+
+  /**
+   * getInnerListOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't an Inner List, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getInnerListOrThrow(key: string, options?: GetOptions<InnerList>): InnerList {
+    return getMemberOrThrow(this, key, INNER_LIST_TYPE, options);
+  }
+
   [Symbol.iterator](): Iterator<[string, Item | InnerList]> {
     return this.params[Symbol.iterator]();
   }
@@ -186,9 +549,10 @@ export class Dictionary {
   /**
    * toString serializes the dictionary to a string.
    *
+   * @param options the options of encoding
    * @returns SFV-encoded string of the dictionary
    */
-  toString(): string {
+  toString(options: EncodeOptions = {}): string {
     // serialize the dictionary using the algorithm defined in RFC 8941 Section 4.1.2.
     let output = "";
     let index = 0;
@@ -197,40 +561,135 @@ export class Dictionary {
         output += ", ";
       }
       index++;
-      output += encodeKey(key);
-      if (item instanceof Item && item.value === true) {
-        output += item.parameters.toString();
-      } else {
-        output += "=" + item.toString();
-      }
+      output += encodeDictionaryMember(key, item, options);
     }
     return output;
   }
+
+  /**
+   * Deno.customInspect returns the representation of the dictionary for Deno's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_DENO](): string {
+    return inspect(this);
+  }
+
+  /**
+   * nodejs.util.inspect.custom returns the representation of the dictionary for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
+  }
 }
 
 /**
  * encodeDictionary encodes a dictionary according to RFC 8941 Section 4.1.2.
  *
  * @param dict the dictionary to encode
+ * @param options the options of encoding
  * @returns SFV-encoded string of the dictionary
  */
-export function encodeDictionary(dict: Dictionary): string {
-  return dict.toString();
+export function encodeDictionary(
+  dict: Dictionary,
+  options: EncodeOptions = {},
+): string {
+  return dict.toString(options);
+}
+
+/**
+ * encodeDictionaryLines encodes a dictionary into multiple field lines.
+ * The dictionary is split at the boundaries of the members,
+ * and decodeDictionary(...lines) returns the same dictionary.
+ * It throws RangeError if a member is longer than maxLineLength.
+ *
+ * @param dict the dictionary to encode
+ * @param options the options of the field lines
+ * @returns SFV-encoded field lines. It is empty if the dictionary is empty.
+ */
+export function encodeDictionaryLines(
+  dict: Dictionary,
+  options: EncodeLinesOptions,
+): string[] {
+  const keys: string[] = [];
+  const members: string[] = [];
+  for (const [key, item] of dict) {
+    keys.push(key);
+    members.push(encodeDictionaryMember(key, item, options));
+  }
+  return splitLines(
+    members,
+    options.maxLineLength,
+    (i) => `member ${JSON.stringify(keys[i])}`,
+  );
+}
+
+// splitLines joins the serialized members with ", ",
+// starting a new field line when the line would exceed maxLineLength.
+function splitLines(
+  members: string[],
+  maxLineLength: number,
+  name: (index: number) => string,
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (let i = 0; i < members.length; i++) {
+    const member = members[i];
+    if (member.length > maxLineLength) {
+      throw new RangeError(
+        `${
+          name(i)
+        } is ${member.length} characters long, exceeding maxLineLength ${maxLineLength}`,
+      );
+    }
+    if (line === "") {
+      line = member;
+    } else if (line.length + 2 + member.length <= maxLineLength) {
+      line += ", " + member;
+    } else {
+      lines.push(line);
+      line = member;
+    }
+  }
+  if (line !== "") {
+    lines.push(line);
+  }
+  return lines;
 }
 
 /**
  * decodeDictionary decodes a dictionary according to RFC 8941 Section 4.2.2.
+ * The options can be passed as the last argument.
  *
  * @param input SFV-encoded string
  * @returns decoded dictionary
  */
-export function decodeDictionary(...input: string[]): Dictionary {
-  const state = new DecodeState(...input);
+export function decodeDictionary(...input: string[]): Dictionary;
+export function decodeDictionary(
+  ...args: [...input: string[], options: TolerantDecodeOptions]
+): DecodeResult<Dictionary>;
+export function decodeDictionary(
+  ...args: [...input: string[], options: StrictDecodeOptions]
+): Dictionary;
+export function decodeDictionary(
+  ...args: [...input: string[], options: DecodeOptions]
+): Dictionary | DecodeResult<Dictionary>;
+export function decodeDictionary(
+  ...args: (string | DecodeOptions)[]
+): Dictionary | DecodeResult<Dictionary> {
+  const [input, options] = splitDecodeArgs(args);
+  const diagnostics = options.mode === "tolerant" ? [] : undefined;
+  const state = new DecodeState(input, options);
   state.skipSPs();
-  const dict = state.decodeDictionary();
+  const dict = state.decodeDictionary(diagnostics);
   state.skipSPs();
   if (state.peek() !== END_OF_INPUT) {
-    throw new SyntaxError("unexpected input");
+    state.errUnexpectedCharacter("end of input");
+  }
+  if (diagnostics !== undefined) {
+    return { value: dict, diagnostics };
   }
   return dict;
 }
@@ -276,89 +735,366 @@ export class Item {
   }
 
   /**
-   * toString serializes the item to a string.
+   * getInteger returns the value of the item as a number.
+   * If the value isn't an Integer,
+   * it returns the default, or undefined if no default is given.
    *
-   * @returns SFV-encoded string of the item
+   * @param options the options of the getter
+   * @returns the value of the item
    */
-  toString(): string {
-    return encodeBareItem(this.val) + this.params.toString();
+  getInteger(): number | undefined;
+  getInteger(options: GetOptions<number>): number;
+  getInteger(options?: GetOptions<number>): number | undefined {
+    return getMember(this, undefined, INTEGER_TYPE, options);
   }
-}
-
-/**
- * encodeItem serializes an item to a string according to RFC 8941 Section 4.1.3.
- *
- * @param item the item to encode
- * @returns SFV-encoded string of the item
- */
-export function encodeItem(item: Item): string {
-  return item.toString();
-}
 
-/**
- * decodeItem parses an item according to RFC 8941 Section 4.2.3.
- *
- * @param input SFV-encoded string
- * @returns the decoded item
- */
-export function decodeItem(...input: string[]): Item {
-  const state = new DecodeState(...input);
-  state.skipSPs();
-  const item = state.decodeItem();
-  state.skipSPs();
-  if (state.peek() !== END_OF_INPUT) {
-    throw new SyntaxError("unexpected input");
+  /**
+   * getIntegerOrThrow returns the value of the item as a number.
+   * If the value isn't an Integer, it throws TypeError.
+   *
+   * @returns the value of the item
+   */
+  getIntegerOrThrow(): number {
+    return getMemberOrThrow(this, undefined, INTEGER_TYPE);
   }
-  return item;
-}
-
-/**
- * Parameters is a key-value pair collection.
- */
-export class Parameters {
-  private params: Map<string, BareItem> = new Map();
 
   /**
-   * Create a new empty Parameters.
+   * getDecimal returns the value of the item as a number.
+   * If the value isn't a Decimal,
+   * it returns the default, or undefined if no default is given.
    *
-   * @returns a new empty Parameters
+   * @param options the options of the getter
+   * @returns the value of the item
    */
-  constructor();
+  getDecimal(): number | undefined;
+  getDecimal(options: GetOptions<number>): number;
+  getDecimal(options?: GetOptions<number>): number | undefined {
+    return getMember(this, undefined, DECIMAL_TYPE, options);
+  }
 
   /**
-   * Create a new Parameters with key-value pairs.
+   * getDecimalOrThrow returns the value of the item as a number.
+   * If the value isn't a Decimal, it throws TypeError.
    *
-   * @param iter iterable of key-value pairs
-   * @returns a new Parameters
+   * @returns the value of the item
    */
-  constructor(iterable: Iterable<[string, BareItem]>);
-
-  constructor(
-    iterable:
-      | Iterable<[string, BareItem]>
-      | undefined = undefined,
-  ) {
-    if (iterable === undefined) {
-      return;
-    }
-    for (const [key, value] of iterable) {
-      validateKey(key);
-      this.params.set(key, value);
-    }
+  getDecimalOrThrow(): number {
+    return getMemberOrThrow(this, undefined, DECIMAL_TYPE);
   }
 
   /**
-   * size returns the number of key-value pairs in the parameters.
+   * getString returns the value of the item.
+   * If the value isn't a String,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param options the options of the getter
+   * @returns the value of the item
    */
-  get size(): number {
-    return this.params.size;
+  getString(): string | undefined;
+  getString(options: GetOptions<string>): string;
+  getString(options?: GetOptions<string>): string | undefined {
+    return getMember(this, undefined, STRING_TYPE, options);
   }
 
   /**
-   * set sets a key-value pair to the parameters.
+   * getStringOrThrow returns the value of the item.
+   * If the value isn't a String, it throws TypeError.
    *
-   * @param key the key of the parameter
-   * @param value the value of the parameter
+   * @returns the value of the item
+   */
+  getStringOrThrow(): string {
+    return getMemberOrThrow(this, undefined, STRING_TYPE);
+  }
+
+  /**
+   * getToken returns the value of the item as a string.
+   * If the value isn't a Token,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param options the options of the getter
+   * @returns the value of the item
+   */
+  getToken(): string | undefined;
+  getToken(options: GetOptions<string>): string;
+  getToken(options?: GetOptions<string>): string | undefined {
+    return getMember(this, undefined, TOKEN_TYPE, options);
+  }
+
+  /**
+   * getTokenOrThrow returns the value of the item as a string.
+   * If the value isn't a Token, it throws TypeError.
+   *
+   * @returns the value of the item
+   */
+  getTokenOrThrow(): string {
+    return getMemberOrThrow(this, undefined, TOKEN_TYPE);
+  }
+
+  /**
+   * getBytes returns the value of the item.
+   * If the value isn't a Byte Sequence,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param options the options of the getter
+   * @returns the value of the item
+   */
+  getBytes(): Uint8Array | undefined;
+  getBytes(options: GetOptions<Uint8Array>): Uint8Array;
+  getBytes(options?: GetOptions<Uint8Array>): Uint8Array | undefined {
+    return getMember(this, undefined, BYTES_TYPE, options);
+  }
+
+  /**
+   * getBytesOrThrow returns the value of the item.
+   * If the value isn't a Byte Sequence, it throws TypeError.
+   *
+   * @returns the value of the item
+   */
+  getBytesOrThrow(): Uint8Array {
+    return getMemberOrThrow(this, undefined, BYTES_TYPE);
+  }
+
+  /**
+   * getBoolean returns the value of the item.
+   * If the value isn't a Boolean,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param options the options of the getter
+   * @returns the value of the item
+   */
+  getBoolean(): boolean | undefined;
+  getBoolean(options: GetOptions<boolean>): boolean;
+  getBoolean(options?: GetOptions<boolean>): boolean | undefined {
+    return getMember(this, undefined, BOOLEAN_TYPE, options);
+  }
+
+  /**
+   * getBooleanOrThrow returns the value of the item.
+   * If the value isn't a Boolean, it throws TypeError.
+   *
+   * @returns the value of the item
+   */
+  getBooleanOrThrow(): boolean {
+    return getMemberOrThrow(this, undefined, BOOLEAN_TYPE);
+  }
+
+  /**
+   * getDate returns the value of the item.
+   * If the value isn't a Date,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param options the options of the getter
+   * @returns the value of the item
+   */
+  getDate(): Date | undefined;
+  getDate(options: GetOptions<Date>): Date;
+  getDate(options?: GetOptions<Date>): Date | undefined {
+    return getMember(this, undefined, DATE_TYPE, options);
+  }
+
+  /**
+   * getDateOrThrow returns the value of the item.
+   * If the value isn't a Date, it throws TypeError.
+   *
+   * @returns the value of the item
+   */
+  getDateOrThrow(): Date {
+    return getMemberOrThrow(this, undefined, DATE_TYPE);
+  }
+
+  /**
+   * getDisplayString returns the value of the item as a string.
+   * If the value isn't a Display String,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param options the options of the getter
+   * @returns the value of the item
+   */
+  getDisplayString(): string | undefined;
+  getDisplayString(options: GetOptions<string>): string;
+  getDisplayString(options?: GetOptions<string>): string | undefined {
+    return getMember(this, undefined, DISPLAY_STRING_TYPE, options);
+  }
+
+  /**
+   * getDisplayStringOrThrow returns the value of the item as a string.
+   * If the value isn't a Display String, it throws TypeError.
+   *
+   * @returns the value of the item
+   */
+  getDisplayStringOrThrow(): string {
+    return getMemberOrThrow(this, undefined, DISPLAY_STRING_TYPE);
+  }
+
+  /**
+   * toString serializes the item to a string.
+   *
+   * @param options the options of encoding
+   * @returns SFV-encoded string of the item
+   */
+  toString(options: EncodeOptions = {}): string {
+    return encodeBareItem(this.val, options) + this.params.toString(options);
+  }
+
+  /**
+   * Deno.customInspect returns the representation of the item for Deno's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_DENO](): string {
+    return inspect(this);
+  }
+
+  /**
+   * nodejs.util.inspect.custom returns the representation of the item for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
+  }
+}
+
+/**
+ * encodeItem serializes an item to a string according to RFC 8941 Section 4.1.3.
+ *
+ * @param item the item to encode
+ * @param options the options of encoding
+ * @returns SFV-encoded string of the item
+ */
+export function encodeItem(item: Item, options: EncodeOptions = {}): string {
+  return item.toString(options);
+}
+
+/**
+ * requiredVersion returns the oldest version of the specification that can represent the value.
+ *
+ * @param value the value to check
+ * @returns "rfc9651" if the value contains Dates or Display Strings, otherwise "rfc8941"
+ */
+export function requiredVersion(
+  value: Item | InnerList | List | Dictionary | Parameters | BareItem,
+): SfvVersion {
+  return findBareItem(value, isRFC9651BareItem) === undefined
+    ? "rfc8941"
+    : "rfc9651";
+}
+
+// isRFC9651BareItem reports whether the bare item is introduced by RFC 9651.
+function isRFC9651BareItem(value: BareItem): boolean {
+  return value instanceof Date || value instanceof SfDate ||
+    value instanceof DisplayString;
+}
+
+// findBareItem returns the first bare item that satisfies the predicate.
+function findBareItem(
+  value: Item | InnerList | List | Dictionary | Parameters | BareItem,
+  predicate: (value: BareItem) => boolean,
+): BareItem | undefined {
+  if (value instanceof Item) {
+    return findBareItem(value.value, predicate) ??
+      findBareItem(value.parameters, predicate);
+  }
+  if (value instanceof InnerList) {
+    for (const item of value.items) {
+      const found = findBareItem(item, predicate);
+      if (found !== undefined) {
+        return found;
+      }
+    }
+    return findBareItem(value.parameters, predicate);
+  }
+  if (Array.isArray(value)) {
+    for (const member of value) {
+      const found = findBareItem(member, predicate);
+      if (found !== undefined) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+  if (value instanceof Dictionary || value instanceof Parameters) {
+    for (const [, member] of value) {
+      const found = findBareItem(member, predicate);
+      if (found !== undefined) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+  return predicate(value) ? value : undefined;
+}
+
+/**
+ * decodeItem parses an item according to RFC 8941 Section 4.2.3.
+ * The options can be passed as the last argument.
+ *
+ * @param input SFV-encoded string
+ * @returns the decoded item
+ */
+export function decodeItem(...input: string[]): Item;
+export function decodeItem(
+  ...args: [...input: string[], options: DecodeItemOptions]
+): Item;
+export function decodeItem(...args: (string | DecodeItemOptions)[]): Item {
+  const [input, options] = splitDecodeArgs(args);
+  const state = new DecodeState(input, options);
+  state.skipSPs();
+  const item = state.decodeItem();
+  state.skipSPs();
+  if (state.peek() !== END_OF_INPUT) {
+    state.errUnexpectedCharacter("end of input");
+  }
+  return item;
+}
+
+/**
+ * Parameters is a key-value pair collection.
+ */
+export class Parameters {
+  private params: Map<string, BareItem> = new Map();
+
+  /**
+   * Create a new empty Parameters.
+   *
+   * @returns a new empty Parameters
+   */
+  constructor();
+
+  /**
+   * Create a new Parameters with key-value pairs.
+   *
+   * @param iter iterable of key-value pairs
+   * @returns a new Parameters
+   */
+  constructor(iterable: Iterable<[string, BareItem]>);
+
+  constructor(
+    iterable:
+      | Iterable<[string, BareItem]>
+      | undefined = undefined,
+  ) {
+    if (iterable === undefined) {
+      return;
+    }
+    for (const [key, value] of iterable) {
+      validateKey(key);
+      this.params.set(key, value);
+    }
+  }
+
+  /**
+   * size returns the number of key-value pairs in the parameters.
+   */
+  get size(): number {
+    return this.params.size;
+  }
+
+  /**
+   * set sets a key-value pair to the parameters.
+   *
+   * @param key the key of the parameter
+   * @param value the value of the parameter
    */
   set(key: string, value: BareItem): void {
     validateKey(key);
@@ -385,533 +1121,2202 @@ export class Parameters {
   }
 
   /**
-   * at returns the key-value pair at the index.
-   * The index is zero-based.
-   * If the index is out of range, it throws a RangeError.
+   * at returns the key-value pair at the index.
+   * The index is zero-based.
+   * If the index is out of range, it throws a RangeError.
+   *
+   * @param index the index of the key-value pair
+   * @returns the key-value pair at the index
+   */
+  at(index: number): [string, BareItem] {
+    let i = 0;
+    if (index < 0 || index >= this.params.size) {
+      throw new RangeError("index out of range");
+    }
+    for (const [key, value] of this.params) {
+      if (i === index) {
+        return [key, value];
+      }
+      i++;
+    }
+    throw new RangeError("index out of range");
+  }
+
+  /**
+   * getInteger returns the value corresponding to the key as a number.
+   * If the key is missing or the value isn't an Integer,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getInteger(key: string): number | undefined;
+  getInteger(key: string, options: GetOptions<number>): number;
+  getInteger(key: string, options?: GetOptions<number>): number | undefined {
+    return getMember(this, key, INTEGER_TYPE, options);
+  }
+
+  /**
+   * getIntegerOrThrow returns the value corresponding to the key as a number.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't an Integer, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getIntegerOrThrow(key: string, options?: GetOptions<number>): number {
+    return getMemberOrThrow(this, key, INTEGER_TYPE, options);
+  }
+
+  /**
+   * getDecimal returns the value corresponding to the key as a number.
+   * If the key is missing or the value isn't a Decimal,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDecimal(key: string): number | undefined;
+  getDecimal(key: string, options: GetOptions<number>): number;
+  getDecimal(key: string, options?: GetOptions<number>): number | undefined {
+    return getMember(this, key, DECIMAL_TYPE, options);
+  }
+
+  /**
+   * getDecimalOrThrow returns the value corresponding to the key as a number.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Decimal, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDecimalOrThrow(key: string, options?: GetOptions<number>): number {
+    return getMemberOrThrow(this, key, DECIMAL_TYPE, options);
+  }
+
+  /**
+   * getString returns the value corresponding to the key.
+   * If the key is missing or the value isn't a String,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getString(key: string): string | undefined;
+  getString(key: string, options: GetOptions<string>): string;
+  getString(key: string, options?: GetOptions<string>): string | undefined {
+    return getMember(this, key, STRING_TYPE, options);
+  }
+
+  /**
+   * getStringOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a String, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getStringOrThrow(key: string, options?: GetOptions<string>): string {
+    return getMemberOrThrow(this, key, STRING_TYPE, options);
+  }
+
+  /**
+   * getToken returns the value corresponding to the key as a string.
+   * If the key is missing or the value isn't a Token,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getToken(key: string): string | undefined;
+  getToken(key: string, options: GetOptions<string>): string;
+  getToken(key: string, options?: GetOptions<string>): string | undefined {
+    return getMember(this, key, TOKEN_TYPE, options);
+  }
+
+  /**
+   * getTokenOrThrow returns the value corresponding to the key as a string.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Token, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getTokenOrThrow(key: string, options?: GetOptions<string>): string {
+    return getMemberOrThrow(this, key, TOKEN_TYPE, options);
+  }
+
+  /**
+   * getBytes returns the value corresponding to the key.
+   * If the key is missing or the value isn't a Byte Sequence,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getBytes(key: string): Uint8Array | undefined;
+  getBytes(key: string, options: GetOptions<Uint8Array>): Uint8Array;
+  getBytes(
+    key: string,
+    options?: GetOptions<Uint8Array>,
+  ): Uint8Array | undefined {
+    return getMember(this, key, BYTES_TYPE, options);
+  }
+
+  /**
+   * getBytesOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Byte Sequence, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getBytesOrThrow(key: string, options?: GetOptions<Uint8Array>): Uint8Array {
+    return getMemberOrThrow(this, key, BYTES_TYPE, options);
+  }
+
+  /**
+   * getBoolean returns the value corresponding to the key.
+   * If the key is missing or the value isn't a Boolean,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getBoolean(key: string): boolean | undefined;
+  getBoolean(key: string, options: GetOptions<boolean>): boolean;
+  getBoolean(key: string, options?: GetOptions<boolean>): boolean | undefined {
+    return getMember(this, key, BOOLEAN_TYPE, options);
+  }
+
+  /**
+   * getBooleanOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Boolean, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getBooleanOrThrow(key: string, options?: GetOptions<boolean>): boolean {
+    return getMemberOrThrow(this, key, BOOLEAN_TYPE, options);
+  }
+
+  /**
+   * getDate returns the value corresponding to the key.
+   * If the key is missing or the value isn't a Date,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDate(key: string): Date | undefined;
+  getDate(key: string, options: GetOptions<Date>): Date;
+  getDate(key: string, options?: GetOptions<Date>): Date | undefined {
+    return getMember(this, key, DATE_TYPE, options);
+  }
+
+  /**
+   * getDateOrThrow returns the value corresponding to the key.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Date, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDateOrThrow(key: string, options?: GetOptions<Date>): Date {
+    return getMemberOrThrow(this, key, DATE_TYPE, options);
+  }
+
+  /**
+   * getDisplayString returns the value corresponding to the key as a string.
+   * If the key is missing or the value isn't a Display String,
+   * it returns the default, or undefined if no default is given.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDisplayString(key: string): string | undefined;
+  getDisplayString(key: string, options: GetOptions<string>): string;
+  getDisplayString(
+    key: string,
+    options?: GetOptions<string>,
+  ): string | undefined {
+    return getMember(this, key, DISPLAY_STRING_TYPE, options);
+  }
+
+  /**
+   * getDisplayStringOrThrow returns the value corresponding to the key as a string.
+   * If the key is missing, it returns the default, or throws TypeError if no default is given.
+   * If the value isn't a Display String, it throws TypeError.
+   *
+   * @param key key of the item
+   * @param options the options of the getter
+   * @returns the value corresponding to the key
+   */
+  getDisplayStringOrThrow(key: string, options?: GetOptions<string>): string {
+    return getMemberOrThrow(this, key, DISPLAY_STRING_TYPE, options);
+  }
+
+  [Symbol.iterator](): Iterator<[string, BareItem]> {
+    return this.params[Symbol.iterator]();
+  }
+
+  /**
+   * toString serializes the parameters to a string.
+   *
+   * @param options the options of encoding
+   * @returns SFV-encoded string of the parameters
+   */
+  toString(options: EncodeOptions = {}): string {
+    // serialize the parameter using the algorithm defined in RFC 8941 Section 4.1.1.2.
+    let output = "";
+    for (const [key, value] of this.params) {
+      output += ";";
+      output += encodeKey(key);
+      if (value === true) {
+        continue;
+      }
+      output += "=" + encodeBareItem(value, options);
+    }
+    return output;
+  }
+
+  /**
+   * Deno.customInspect returns the representation of the parameters for Deno's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_DENO](): string {
+    return inspect(this);
+  }
+
+  /**
+   * nodejs.util.inspect.custom returns the representation of the parameters for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
+  }
+}
+
+// encodeDictionaryMember serializes a member of a dictionary.
+function encodeDictionaryMember(
+  key: string,
+  item: Item | InnerList,
+  options: EncodeOptions,
+): string {
+  if (item instanceof Item && item.value === true) {
+    return encodeKey(key) + item.parameters.toString(options);
+  }
+  return encodeKey(key) + "=" + item.toString(options);
+}
+
+function validateKey(key: string): void {
+  if (!/^[a-z*][-a-z0-9-_.*]*$/.test(key)) {
+    throw new TypeError("key contains invalid characters");
+  }
+}
+
+/**
+ * GetOptions is the options for the typed getters,
+ * such as Dictionary.getInteger and Parameters.getToken.
+ */
+export interface GetOptions<T> {
+  /**
+   * default is returned instead of the missing value.
+   * The getters without OrThrow also return it instead of the value of another type.
+   */
+  default: T;
+}
+
+// MemberType converts the members of the typed getters.
+interface MemberType<T> {
+  // name is the name of the type with an article, e.g. "an Integer".
+  name: string;
+
+  // convert returns the converted value, or undefined if the value has another type.
+  convert(value: BareItem | InnerList): T | undefined;
+}
+
+const INTEGER_TYPE: MemberType<number> = {
+  name: "an Integer",
+  convert: (value) => value instanceof Integer ? value.valueOf() : undefined,
+};
+
+const DECIMAL_TYPE: MemberType<number> = {
+  name: "a Decimal",
+  convert: (value) => value instanceof Decimal ? value.valueOf() : undefined,
+};
+
+const STRING_TYPE: MemberType<string> = {
+  name: "a String",
+  convert: (value) => typeof value === "string" ? value : undefined,
+};
+
+const TOKEN_TYPE: MemberType<string> = {
+  name: "a Token",
+  convert: (value) => value instanceof Token ? value.toString() : undefined,
+};
+
+const BYTES_TYPE: MemberType<Uint8Array> = {
+  name: "a Byte Sequence",
+  convert: (value) => value instanceof Uint8Array ? value : undefined,
+};
+
+const BOOLEAN_TYPE: MemberType<boolean> = {
+  name: "a Boolean",
+  convert: (value) => typeof value === "boolean" ? value : undefined,
+};
+
+const DATE_TYPE: MemberType<Date> = {
+  name: "a Date",
+  convert: (value) => {
+    if (value instanceof Date) {
+      return value;
+    }
+    if (value instanceof SfDate && value.isDateCompatible()) {
+      return value.toDate();
+    }
+    return undefined;
+  },
+};
+
+const DISPLAY_STRING_TYPE: MemberType<string> = {
+  name: "a Display String",
+  convert: (value) =>
+    value instanceof DisplayString ? value.valueOf() : undefined,
+};
+
+const INNER_LIST_TYPE: MemberType<InnerList> = {
+  name: "an Inner List",
+  convert: (value) => value instanceof InnerList ? value : undefined,
+};
+
+// lookupMember returns the value that the typed getters convert, and its name in error messages.
+// The key is undefined for Items, whose getters convert their own value.
+function lookupMember(
+  source: Dictionary | Parameters | Item,
+  key: string | undefined,
+): [BareItem | InnerList | undefined, string] {
+  if (source instanceof Item) {
+    return [source.value, "item"];
+  }
+  if (key === undefined) {
+    throw new TypeError("key is required");
+  }
+  if (source instanceof Dictionary) {
+    const member = source.get(key);
+    return [
+      member instanceof Item ? member.value : member,
+      `member ${JSON.stringify(key)}`,
+    ];
+  }
+  return [source.get(key), `parameter ${JSON.stringify(key)}`];
+}
+
+// getMember converts the value of the key, falling back to the default.
+function getMember<T>(
+  source: Dictionary | Parameters | Item,
+  key: string | undefined,
+  type: MemberType<T>,
+  options?: GetOptions<T>,
+): T | undefined {
+  const [value] = lookupMember(source, key);
+  const converted = value === undefined ? undefined : type.convert(value);
+  return converted === undefined ? options?.default : converted;
+}
+
+// getMemberOrThrow converts the value of the key, throwing TypeError if the value has another type.
+function getMemberOrThrow<T>(
+  source: Dictionary | Parameters | Item,
+  key: string | undefined,
+  type: MemberType<T>,
+  options?: GetOptions<T>,
+): T {
+  const [value, name] = lookupMember(source, key);
+  if (value === undefined) {
+    if (options !== undefined) {
+      return options.default;
+    }
+    throw new TypeError(`${name} is missing`);
+  }
+  const converted = type.convert(value);
+  if (converted === undefined) {
+    throw new TypeError(
+      `${name} is ${describeMember(value)}, not ${type.name}`,
+    );
+  }
+  return converted;
+}
+
+// describeMember returns the name of the type of the value with an article.
+function describeMember(value: BareItem | InnerList): string {
+  if (value instanceof Integer) {
+    return "an Integer";
+  }
+  if (value instanceof Decimal) {
+    return "a Decimal";
+  }
+  if (typeof value === "string") {
+    return "a String";
+  }
+  if (value instanceof Token) {
+    return "a Token";
+  }
+  if (value instanceof Uint8Array) {
+    return "a Byte Sequence";
+  }
+  if (typeof value === "boolean") {
+    return "a Boolean";
+  }
+  if (value instanceof Date) {
+    return "a Date";
+  }
+  if (value instanceof SfDate) {
+    return "a Date out of the range of Date";
+  }
+  if (value instanceof DisplayString) {
+    return "a Display String";
+  }
+  return "an Inner List";
+}
+
+// encodeKey encodes the key in accordance with RFC 8941 Section 4.1.1.3.
+function encodeKey(key: string): string {
+  validateKey(key);
+  return key;
+}
+
+// encodeBareItem encodes the bare item in accordance with RFC 8941 Section 4.1.3.1.
+function encodeBareItem(value: BareItem, options: EncodeOptions): string {
+  if (value instanceof Integer) {
+    return value.toString();
+  }
+  if (value instanceof Decimal) {
+    return value.toString();
+  }
+  if (typeof value === "string") {
+    validateString(value);
+    return `"${value.replace(/([\\"])/g, "\\$1")}"`;
+  }
+  if (value instanceof Token) {
+    return value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return `:${btoa(String.fromCharCode(...value))}:`;
+  }
+  if (typeof value === "boolean") {
+    return value ? "?1" : "?0";
+  }
+  if (value instanceof Date) {
+    if (options.version === "rfc8941") {
+      throw new TypeError("date requires RFC 9651");
+    }
+    // Dates are floored to seconds if allowSubsecond is set.
+    const time = value.getTime();
+    if (Number.isNaN(time)) {
+      throw new TypeError("invalid date");
+    }
+    if (time % 1000 !== 0 && !options.allowSubsecond) {
+      throw new RangeError("date has sub-second precision");
+    }
+    return `@${Math.floor(time / 1000)}`;
+  }
+  if (value instanceof SfDate) {
+    if (options.version === "rfc8941") {
+      throw new TypeError("date requires RFC 9651");
+    }
+    return value.toString();
+  }
+  if (value instanceof DisplayString) {
+    if (options.version === "rfc8941") {
+      throw new TypeError("display string requires RFC 9651");
+    }
+    return value.toString();
+  }
+  throw new TypeError("unsupported value type");
+}
+
+// inspect returns the compact representation of the value,
+// e.g. `Item(Token gzip;q=Decimal 0.8)`.
+function inspect(
+  value: Item | InnerList | Dictionary | Parameters | BareItem,
+): string {
+  if (value instanceof Item) {
+    return `Item(${inspectItem(value)})`;
+  }
+  if (value instanceof InnerList) {
+    return `InnerList(${value.items.map(inspectItem).join(", ")})` +
+      inspectParameters(value.parameters);
+  }
+  if (value instanceof Dictionary || value instanceof Parameters) {
+    const name = value instanceof Dictionary ? "Dictionary" : "Parameters";
+    if (value.size === 0) {
+      return `${name} {}`;
+    }
+    const members = [...value].map(([key, member]) =>
+      `${key}: ${inspect(member)}`
+    );
+    return `${name} { ${members.join(", ")} }`;
+  }
+  return inspectBareItem(value);
+}
+
+// inspectItem returns the compact representation of the item without the type.
+function inspectItem(item: Item): string {
+  return inspectBareItem(item.value) + inspectParameters(item.parameters);
+}
+
+// inspectParameters returns the compact representation of the parameters without the type.
+function inspectParameters(params: Parameters): string {
+  let output = "";
+  for (const [key, value] of params) {
+    output += value === true ? `;${key}` : `;${key}=${inspectBareItem(value)}`;
+  }
+  return output;
+}
+
+// inspectBareItem returns the type and the serialization of the bare item.
+// It never throws, even if the bare item can't be serialized.
+function inspectBareItem(value: BareItem): string {
+  if (value instanceof Integer) {
+    return `Integer ${value}`;
+  }
+  if (value instanceof Decimal) {
+    return `Decimal ${value}`;
+  }
+  if (typeof value === "string") {
+    return `String ${JSON.stringify(value)}`;
+  }
+  if (value instanceof Token) {
+    return `Token ${value}`;
+  }
+  if (value instanceof Uint8Array) {
+    let binary = "";
+    for (const byte of value) {
+      binary += String.fromCharCode(byte);
+    }
+    return `ByteSequence :${btoa(binary)}:`;
+  }
+  if (typeof value === "boolean") {
+    return `Boolean ${value ? "?1" : "?0"}`;
+  }
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isNaN(time)
+      ? "Date Invalid"
+      : `Date @${Math.floor(time / 1000)}`;
+  }
+  if (value instanceof SfDate) {
+    return `SfDate ${value}`;
+  }
+  if (value instanceof DisplayString) {
+    return `DisplayString ${JSON.stringify(value.valueOf())}`;
+  }
+  return "unknown";
+}
+
+/**
+ * dump returns an indented tree of the value for debugging logs.
+ * Each line is labeled with the path of the member, as `@shogo82148/sfv/query` selects it.
+ *
+ * ```typescript
+ * import { decodeDictionary, dump } from "@shogo82148/sfv";
+ *
+ * console.log(dump(decodeDictionary("a=1;q=0.5, b=(x y);p")));
+ * // Dictionary (2 members)
+ * //   a: Item Integer 1
+ * //     ;q: Decimal 0.5
+ * //   b: InnerList (2 items)
+ * //     [0]: Item Token x
+ * //     [1]: Item Token y
+ * //     ;p: Boolean ?1
+ * ```
+ *
+ * @param value the value to dump
+ * @returns the tree separated by "\n"
+ */
+export function dump(
+  value: List | Dictionary | Item | InnerList | Parameters | BareItem,
+): string {
+  const lines: string[] = [];
+  dumpValue(lines, "", "", value);
+  return lines.join("\n");
+}
+
+// dumpValue appends the lines of the value to lines.
+function dumpValue(
+  lines: string[],
+  indent: string,
+  label: string,
+  value: List | Dictionary | Item | InnerList | Parameters | BareItem,
+): void {
+  const child = indent + "  ";
+  if (Array.isArray(value)) {
+    lines.push(`${indent}${label}List (${count(value.length, "member")})`);
+    value.forEach((member, i) => dumpValue(lines, child, `[${i}]: `, member));
+  } else if (value instanceof Dictionary) {
+    lines.push(`${indent}${label}Dictionary (${count(value.size, "member")})`);
+    for (const [key, member] of value) {
+      dumpValue(lines, child, `${key}: `, member);
+    }
+  } else if (value instanceof InnerList) {
+    lines.push(
+      `${indent}${label}InnerList (${count(value.items.length, "item")})`,
+    );
+    value.items.forEach((item, i) => dumpValue(lines, child, `[${i}]: `, item));
+    dumpParameters(lines, child, value.parameters);
+  } else if (value instanceof Item) {
+    lines.push(`${indent}${label}Item ${inspectBareItem(value.value)}`);
+    dumpParameters(lines, child, value.parameters);
+  } else if (value instanceof Parameters) {
+    lines.push(
+      `${indent}${label}Parameters (${count(value.size, "parameter")})`,
+    );
+    dumpParameters(lines, child, value);
+  } else {
+    lines.push(`${indent}${label}${inspectBareItem(value)}`);
+  }
+}
+
+// dumpParameters appends the lines of the parameters to lines.
+function dumpParameters(
+  lines: string[],
+  indent: string,
+  params: Parameters,
+): void {
+  for (const [key, value] of params) {
+    lines.push(`${indent};${key}: ${inspectBareItem(value)}`);
+  }
+}
+
+// count returns the number with the noun, e.g. "1 member" and "2 members".
+function count(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? "" : "s"}`;
+}
+
+function validateString(value: string): void {
+  if (!/^[\x20-\x7e]*$/.test(value)) {
+    throw new TypeError("string contains invalid characters");
+  }
+}
+
+/**
+ * Integer is an integer number defined in RFC 8941 Section 3.3.1.
+ */
+export class Integer {
+  /**
+   * MAX_VALUE is the maximum value of the integer that can be represented in SFV.
+   */
+  static readonly MAX_VALUE = 999999999999999;
+
+  /**
+   * MIN_VALUE is the minimum value of the integer that can be represented in SFV.
+   */
+  static readonly MIN_VALUE = -999999999999999;
+
+  // all integers in the range are safe integers, so number is exact.
+  private value: number;
+
+  /**
+   * Create a new Integer.
+   * The value must be an integer.
+   *
+   * @param value the value of the integer
+   */
+  constructor(value: number | bigint) {
+    if (typeof value === "bigint") {
+      if (
+        value < BigInt(Integer.MIN_VALUE) || value > BigInt(Integer.MAX_VALUE)
+      ) {
+        throw new RangeError(
+          `value must be between ${Integer.MIN_VALUE} and ${Integer.MAX_VALUE}`,
+        );
+      }
+      value = Number(value);
+    }
+    if (Number.isNaN(value)) {
+      throw new TypeError("value must be a number");
+    }
+    if (!Number.isInteger(value)) {
+      throw new TypeError("value must be an integer");
+    }
+    if (value < Integer.MIN_VALUE || value > Integer.MAX_VALUE) {
+      throw new RangeError(
+        `value must be between ${Integer.MIN_VALUE} and ${Integer.MAX_VALUE}`,
+      );
+    }
+    this.value = value;
+  }
+
+  /**
+   * parse creates a new Integer from a string of decimal digits, e.g. "-123".
+   *
+   * @param str the string representation of the integer
+   * @returns the integer
+   */
+  static parse(str: string): Integer {
+    if (!/^-?[0-9]+$/.test(str)) {
+      throw new TypeError("invalid integer string");
+    }
+    return new Integer(BigInt(str));
+  }
+
+  /**
+   * compare compares two integers.
+   *
+   * @param a the integer to compare
+   * @param b the integer to compare
+   * @returns a negative number if a < b, zero if a = b, and a positive number if a > b
+   */
+  static compare(a: Integer, b: Integer): number {
+    return Math.sign(a.value - b.value);
+  }
+
+  /**
+   * add returns the sum of the integers.
+   * It throws RangeError if the result is out of range.
+   *
+   * @param other the integer to add
+   * @returns the sum
+   */
+  add(other: Integer): Integer {
+    return new Integer(this.value + other.value);
+  }
+
+  /**
+   * subtract returns the difference of the integers.
+   * It throws RangeError if the result is out of range.
+   *
+   * @param other the integer to subtract
+   * @returns the difference
+   */
+  subtract(other: Integer): Integer {
+    return new Integer(this.value - other.value);
+  }
+
+  /**
+   * multiply returns the product of the integers.
+   * It throws RangeError if the result is out of range.
+   *
+   * @param other the integer to multiply
+   * @returns the product
+   */
+  multiply(other: Integer): Integer {
+    return new Integer(BigInt(this.value) * BigInt(other.value));
+  }
+
+  /**
+   * compare compares the integer with other.
+   *
+   * @param other the integer to compare
+   * @returns a negative number if this < other, zero if this = other, and a positive number if this > other
+   */
+  compare(other: Integer): number {
+    return Integer.compare(this, other);
+  }
+
+  /**
+   * equals reports whether the integers have the same value.
+   *
+   * @param other the integer to compare
+   * @returns true if the integers are equal
+   */
+  equals(other: Integer): boolean {
+    return this.value === other.value;
+  }
+
+  /**
+   * toString returns the string representation of the integer.
+   *
+   * @returns the string representation of the integer
+   */
+  toString(): string {
+    return `${this.value}`;
+  }
+
+  /**
+   * valueOf returns the value of the integer.
+   *
+   * @returns the value of the integer
+   */
+  valueOf(): number {
+    return this.value;
+  }
+
+  /**
+   * toBigInt returns the value of the integer as a bigint.
+   *
+   * @returns the value of the integer
+   */
+  toBigInt(): bigint {
+    return BigInt(this.value);
+  }
+
+  /**
+   * Deno.customInspect returns the representation of the integer for Deno's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_DENO](): string {
+    return inspect(this);
+  }
+
+  /**
+   * nodejs.util.inspect.custom returns the representation of the integer for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
+  }
+}
+
+/**
+ * Decimal is a decimal number defined in RFC 8941 Section 3.3.2.
+ * It keeps the exact value as an integer number of thousandths,
+ * so the decimal strings are converted without floating-point errors.
+ */
+export class Decimal {
+  /**
+   * MAX_VALUE is the maximum value of the decimal that can be represented in SFV.
+   */
+  static readonly MAX_VALUE = 999999999999.9993896484375;
+
+  /**
+   * MIN_VALUE is the minimum value of the decimal that can be represented in SFV.
+   */
+  static readonly MIN_VALUE = -999999999999.9993896484375;
+
+  // MAX_THOUSANDTHS is the maximum value in thousandths.
+  private static readonly MAX_THOUSANDTHS = 999999999999999;
+
+  // the value in thousandths. it is a safe integer, so number is exact.
+  private scaled: number;
+
+  /**
+   * Create a new Decimal.
+   * The value must be a number.
+   * It is rounded to three decimal places, rounding half to even.
+   *
+   * @param value the value of the decimal
+   */
+  constructor(value: number) {
+    if (Number.isNaN(value)) {
+      throw new TypeError("value must be a number");
+    }
+    if (value < Decimal.MIN_VALUE || value > Decimal.MAX_VALUE) {
+      throw new RangeError(
+        `value must be between -999999999999.999 and 999999999999.999`,
+      );
+    }
+    // avoid negative zero.
+    this.scaled = roundToEven(value * 1000) || 0;
+  }
+
+  /**
+   * fromThousandths creates a new Decimal from the value in thousandths,
+   * e.g. 12345 is 12.345.
+   *
+   * @param value the value in thousandths
+   * @returns the decimal
+   */
+  static fromThousandths(value: number | bigint): Decimal {
+    if (typeof value === "number" && !Number.isInteger(value)) {
+      throw new TypeError("value must be an integer");
+    }
+    const scaled = Number(value);
+    if (
+      Number.isNaN(scaled) ||
+      scaled < -Decimal.MAX_THOUSANDTHS || scaled > Decimal.MAX_THOUSANDTHS
+    ) {
+      throw new RangeError(
+        `value must be between -999999999999.999 and 999999999999.999`,
+      );
+    }
+    const decimal = new Decimal(0);
+    decimal.scaled = scaled || 0;
+    return decimal;
+  }
+
+  /**
+   * parse creates a new Decimal from a decimal string, e.g. "12.345".
+   * The string must have at most three decimal places.
+   *
+   * @param str the string representation of the decimal
+   * @returns the decimal
+   */
+  static parse(str: string): Decimal {
+    const m = /^(-?)([0-9]+)(?:\.([0-9]+))?$/.exec(str);
+    if (m === null) {
+      throw new TypeError("invalid decimal string");
+    }
+    const [, sign, int, frac = ""] = m;
+    if (frac.length > 3) {
+      throw new RangeError("value must have at most three decimal places");
+    }
+    const scaled = BigInt(int + frac.padEnd(3, "0"));
+    return Decimal.fromThousandths(sign === "-" ? -scaled : scaled);
+  }
+
+  /**
+   * compare compares two decimals.
+   *
+   * @param a the decimal to compare
+   * @param b the decimal to compare
+   * @returns a negative number if a < b, zero if a = b, and a positive number if a > b
+   */
+  static compare(a: Decimal, b: Decimal): number {
+    return Math.sign(a.scaled - b.scaled);
+  }
+
+  /**
+   * add returns the sum of the decimals.
+   * It throws RangeError if the result is out of range.
+   *
+   * @param other the decimal to add
+   * @returns the sum
+   */
+  add(other: Decimal): Decimal {
+    return Decimal.fromThousandths(this.scaled + other.scaled);
+  }
+
+  /**
+   * subtract returns the difference of the decimals.
+   * It throws RangeError if the result is out of range.
+   *
+   * @param other the decimal to subtract
+   * @returns the difference
+   */
+  subtract(other: Decimal): Decimal {
+    return Decimal.fromThousandths(this.scaled - other.scaled);
+  }
+
+  /**
+   * multiply returns the product of the decimals,
+   * rounded to three decimal places, rounding half to even.
+   * It throws RangeError if the result is out of range.
+   *
+   * @param other the decimal to multiply
+   * @returns the product
+   */
+  multiply(other: Decimal): Decimal {
+    const product = BigInt(this.scaled) * BigInt(other.scaled);
+    let quotient = product / 1000n;
+    const remainder = product % 1000n;
+    const twice = 2n * (remainder < 0n ? -remainder : remainder);
+    if (twice > 1000n || (twice === 1000n && quotient % 2n !== 0n)) {
+      quotient += product < 0n ? -1n : 1n;
+    }
+    return Decimal.fromThousandths(quotient);
+  }
+
+  /**
+   * compare compares the decimal with other.
+   *
+   * @param other the decimal to compare
+   * @returns a negative number if this < other, zero if this = other, and a positive number if this > other
+   */
+  compare(other: Decimal): number {
+    return Decimal.compare(this, other);
+  }
+
+  /**
+   * equals reports whether the decimals have the same value.
+   *
+   * @param other the decimal to compare
+   * @returns true if the decimals are equal
+   */
+  equals(other: Decimal): boolean {
+    return this.scaled === other.scaled;
+  }
+
+  /**
+   * thousandths returns the exact value of the decimal in thousandths,
+   * e.g. 12345n for 12.345.
+   */
+  get thousandths(): bigint {
+    return BigInt(this.scaled);
+  }
+
+  /**
+   * toString returns the string representation of the decimal.
+   *
+   * @returns the string representation of the decimal
+   */
+  toString(): string {
+    const abs = Math.abs(this.scaled);
+    // omit trailing zeros, but keep at least one digit.
+    const frac = `${abs % 1000}`.padStart(3, "0").replace(/(?<=.)0+$/, "");
+    return `${this.scaled < 0 ? "-" : ""}${Math.floor(abs / 1000)}.${frac}`;
+  }
+
+  /**
+   * valueOf returns the value of the decimal.
+   * It is the nearest number to the exact value.
+   *
+   * @returns the value of the decimal
+   */
+  valueOf(): number {
+    return this.scaled / 1000;
+  }
+
+  /**
+   * Deno.customInspect returns the representation of the decimal for Deno's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_DENO](): string {
+    return inspect(this);
+  }
+
+  /**
+   * nodejs.util.inspect.custom returns the representation of the decimal for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
+  }
+}
+
+function roundToEven(value: number): number {
+  const floor = Math.floor(value);
+  if (value - floor === 0.5) {
+    return floor % 2 === 0 ? floor : floor + 1;
+  }
+  return Math.round(value);
+}
+
+/**
+ * Token is a token defined in RFC 8941 Section 3.3.4.
+ */
+export class Token {
+  private value: string;
+
+  constructor(value: string) {
+    validateToken(value);
+    this.value = value;
+  }
+
+  /**
+   * toString returns the string representation of the token.
+   *
+   * @returns the string representation of the token
+   */
+  toString(): string {
+    // serialize the token using algorithm defined in RFC 8941 Section 4.1.7.
+    return this.value;
+  }
+
+  /**
+   * valueOf returns the value of the token.
+   *
+   * @returns the value of the token
+   */
+  valueOf(): string {
+    return this.value;
+  }
+
+  /**
+   * Deno.customInspect returns the representation of the token for Deno's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_DENO](): string {
+    return inspect(this);
+  }
+
+  /**
+   * nodejs.util.inspect.custom returns the representation of the token for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
+  }
+}
+
+function validateToken(value: string): void {
+  if (!/^[a-zA-Z*][-0-9a-zA-Z!#$%&'*+.^_`|~:/]*$/.test(value)) {
+    throw new TypeError("token contains invalid characters");
+  }
+}
+
+/**
+ * DisplayString is a display string defined in draft-ietf-httpbis-sfbis-06 Section 3.3.8.
+ */
+export class DisplayString {
+  private value: string;
+
+  constructor(value: string) {
+    this.value = value;
+  }
+
+  /**
+   * toString returns the string representation of the display string.
    *
-   * @param index the index of the key-value pair
-   * @returns the key-value pair at the index
+   * @returns the string representation of the display string
    */
-  at(index: number): [string, BareItem] {
-    let i = 0;
-    if (index < 0 || index >= this.params.size) {
-      throw new RangeError("index out of range");
+  toString(): string {
+    if (/\p{Cs}/u.test(this.value)) {
+      throw new TypeError("display string contains lone surrogates");
     }
-    for (const [key, value] of this.params) {
-      if (i === index) {
-        return [key, value];
+    const encoder = new TextEncoder();
+    const bytes = encoder.encode(this.value);
+    let output = '%"';
+    for (const byte of bytes) {
+      if (
+        byte === 0x25 /* % */ || byte === 0x22 /* " */ || byte <= 0x1f ||
+        byte >= 0x7f
+      ) {
+        const hex = "0123456789abcdef";
+        output += `%${hex[byte >> 4]}${hex[byte & 0xf]}`;
+      } else {
+        output += String.fromCharCode(byte);
       }
-      i++;
     }
-    throw new RangeError("index out of range");
+    output += '"';
+    return output;
   }
 
-  [Symbol.iterator](): Iterator<[string, BareItem]> {
-    return this.params[Symbol.iterator]();
+  /**
+   * valueOf returns the value of the display string.
+   *
+   * @returns the value of the display string
+   */
+  valueOf(): string {
+    return this.value;
   }
 
   /**
-   * toString serializes the parameters to a string.
+   * Deno.customInspect returns the representation of the display string for Deno's console.
    *
-   * @returns SFV-encoded string of the parameters
+   * @returns the compact representation with the types
    */
-  toString(): string {
-    // serialize the parameter using the algorithm defined in RFC 8941 Section 4.1.1.2.
-    let output = "";
-    for (const [key, value] of this.params) {
-      output += ";";
-      output += encodeKey(key);
-      if (value === true) {
-        continue;
-      }
-      output += "=" + encodeBareItem(value);
-    }
-    return output;
+  [INSPECT_DENO](): string {
+    return inspect(this);
   }
-}
 
-function validateKey(key: string): void {
-  if (!/^[a-z*][-a-z0-9-_.*]*$/.test(key)) {
-    throw new TypeError("key contains invalid characters");
+  /**
+   * nodejs.util.inspect.custom returns the representation of the display string for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
   }
 }
 
-// encodeKey encodes the key in accordance with RFC 8941 Section 4.1.1.3.
-function encodeKey(key: string): string {
-  validateKey(key);
-  return key;
+/**
+ * SfDateOptions is the options for converting into SfDate.
+ */
+export interface SfDateOptions {
+  /**
+   * allowSubsecond allows the sub-second precision, and floors it to seconds.
+   * By default, the values that have the sub-second precision are rejected by RangeError.
+   */
+  allowSubsecond?: boolean;
 }
 
-// encodeBareItem encodes the bare item in accordance with RFC 8941 Section 4.1.3.1.
-function encodeBareItem(value: BareItem): string {
-  if (value instanceof Integer) {
-    return value.toString();
-  }
-  if (value instanceof Decimal) {
-    return value.toString();
-  }
-  if (typeof value === "string") {
-    validateString(value);
-    return `"${value.replace(/([\\"])/g, "\\$1")}"`;
-  }
-  if (value instanceof Token) {
-    return value.toString();
-  }
-  if (value instanceof Uint8Array) {
-    return `:${btoa(String.fromCharCode(...value))}:`;
-  }
-  if (typeof value === "boolean") {
-    return value ? "?1" : "?0";
-  }
-  if (value instanceof Date) {
-    return `@${Math.floor(value.getTime() / 1000)}`;
-  }
-  throw new TypeError("unsupported value type");
+/**
+ * InstantLike is the subset of `Temporal.Instant` that SfDate uses.
+ */
+export interface InstantLike {
+  /**
+   * epochNanoseconds is the number of nanoseconds since the Unix epoch.
+   */
+  readonly epochNanoseconds: bigint;
 }
 
-function validateString(value: string): void {
-  if (!/^[\x20-\x7e]*$/.test(value)) {
-    throw new TypeError("string contains invalid characters");
-  }
-}
+// the range of Date in seconds. see ECMAScript Section 21.4.1.22 TimeClip.
+const DATE_MAX_SECONDS = 8640000000000;
 
 /**
- * Integer is an integer number defined in RFC 8941 Section 3.3.1.
+ * SfDate is a date defined in RFC 9651 Section 3.3.7.
+ * It is the number of seconds since the Unix epoch,
+ * and supports the full range of Integers, which is wider than the range of `Date`.
  */
-export class Integer {
+export class SfDate {
   /**
-   * MAX_VALUE is the maximum value of the integer that can be represented in SFV.
+   * MAX_VALUE is the maximum value of the date in seconds that can be represented in SFV.
    */
   static readonly MAX_VALUE = 999999999999999;
 
   /**
-   * MIN_VALUE is the minimum value of the integer that can be represented in SFV.
+   * MIN_VALUE is the minimum value of the date in seconds that can be represented in SFV.
    */
   static readonly MIN_VALUE = -999999999999999;
 
   private value: number;
 
   /**
-   * Create a new Integer.
-   * The value must be an integer.
+   * Create a new SfDate.
    *
-   * @param value the value of the integer
+   * @param seconds the number of seconds since the Unix epoch
    */
-  constructor(value: number) {
-    if (Number.isNaN(value)) {
+  constructor(seconds: number | bigint) {
+    if (typeof seconds === "bigint") {
+      if (
+        seconds < BigInt(SfDate.MIN_VALUE) || seconds > BigInt(SfDate.MAX_VALUE)
+      ) {
+        throw new RangeError(
+          `value must be between ${SfDate.MIN_VALUE} and ${SfDate.MAX_VALUE}`,
+        );
+      }
+      seconds = Number(seconds);
+    }
+    if (Number.isNaN(seconds)) {
       throw new TypeError("value must be a number");
     }
-    if (!Number.isInteger(value)) {
-      throw new TypeError("value must be an integer");
+    if (!Number.isInteger(seconds)) {
+      throw new RangeError("value must be a whole number of seconds");
     }
-    if (value < Integer.MIN_VALUE || value > Integer.MAX_VALUE) {
+    if (seconds < SfDate.MIN_VALUE || seconds > SfDate.MAX_VALUE) {
       throw new RangeError(
-        `value must be between ${Integer.MIN_VALUE} and ${Integer.MAX_VALUE}`,
+        `value must be between ${SfDate.MIN_VALUE} and ${SfDate.MAX_VALUE}`,
       );
     }
-    this.value = value;
+    this.value = seconds;
   }
 
   /**
-   * toString returns the string representation of the integer.
+   * fromDate creates a new SfDate from a Date.
    *
-   * @returns the string representation of the integer
+   * @param date the date
+   * @param options the options of the conversion
+   * @returns the date
+   */
+  static fromDate(date: Date, options: SfDateOptions = {}): SfDate {
+    const time = date.getTime();
+    if (Number.isNaN(time)) {
+      throw new TypeError("invalid date");
+    }
+    if (time % 1000 !== 0 && !options.allowSubsecond) {
+      throw new RangeError("date has sub-second precision");
+    }
+    return new SfDate(Math.floor(time / 1000));
+  }
+
+  /**
+   * fromInstant creates a new SfDate from a `Temporal.Instant`.
+   *
+   * @param instant the instant
+   * @param options the options of the conversion
+   * @returns the date
+   */
+  static fromInstant(
+    instant: InstantLike,
+    options: SfDateOptions = {},
+  ): SfDate {
+    const ns = instant.epochNanoseconds;
+    let seconds = ns / 1000000000n;
+    const remainder = ns % 1000000000n;
+    if (remainder !== 0n) {
+      if (!options.allowSubsecond) {
+        throw new RangeError("instant has sub-second precision");
+      }
+      if (remainder < 0n) {
+        // floor toward negative infinity.
+        seconds -= 1n;
+      }
+    }
+    return new SfDate(seconds);
+  }
+
+  /**
+   * isDateCompatible reports whether the date is in the range of `Date`.
+   *
+   * @returns true if toDate() succeeds
+   */
+  isDateCompatible(): boolean {
+    return Math.abs(this.value) <= DATE_MAX_SECONDS;
+  }
+
+  /**
+   * toDate converts the date into a Date.
+   * It throws RangeError if the date is out of the range of Date.
+   *
+   * @returns the date
+   */
+  toDate(): Date {
+    if (!this.isDateCompatible()) {
+      throw new RangeError("date is out of the range of Date");
+    }
+    return new Date(this.value * 1000);
+  }
+
+  /**
+   * toInstant converts the date into a `Temporal.Instant`.
+   * It throws TypeError if Temporal is not available,
+   * and RangeError if the date is out of the range of `Temporal.Instant`.
+   *
+   * @returns the instant
+   */
+  toInstant(): InstantLike {
+    const temporal = (globalThis as {
+      Temporal?: {
+        Instant: { fromEpochNanoseconds(ns: bigint): InstantLike };
+      };
+    }).Temporal;
+    if (temporal === undefined) {
+      throw new TypeError("Temporal is not available");
+    }
+    return temporal.Instant.fromEpochNanoseconds(this.toEpochNanoseconds());
+  }
+
+  /**
+   * toEpochNanoseconds returns the number of nanoseconds since the Unix epoch.
+   *
+   * @returns the number of nanoseconds
+   */
+  toEpochNanoseconds(): bigint {
+    return BigInt(this.value) * 1000000000n;
+  }
+
+  /**
+   * toString returns the string representation of the date.
+   *
+   * @returns the string representation of the date
    */
   toString(): string {
-    return `${this.value}`;
+    return `@${this.value}`;
   }
 
   /**
-   * valueOf returns the value of the integer.
+   * valueOf returns the number of seconds since the Unix epoch.
    *
-   * @returns the value of the integer
+   * @returns the number of seconds
    */
   valueOf(): number {
     return this.value;
   }
+
+  /**
+   * Deno.customInspect returns the representation of the date for Deno's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_DENO](): string {
+    return inspect(this);
+  }
+
+  /**
+   * nodejs.util.inspect.custom returns the representation of the date for Node.js's console.
+   *
+   * @returns the compact representation with the types
+   */
+  [INSPECT_NODE](): string {
+    return inspect(this);
+  }
 }
 
 /**
- * Decimal is a decimal number defined in RFC 8941 Section 3.3.2.
+ * SfvParseErrorOptions is the options for creating a SfvParseError.
  */
-export class Decimal {
+export interface SfvParseErrorOptions {
   /**
-   * MAX_VALUE is the maximum value of the decimal that can be represented in SFV.
+   * input is the field lines that were being parsed.
    */
-  static readonly MAX_VALUE = 999999999999.9993896484375;
+  input: readonly string[];
 
   /**
-   * MIN_VALUE is the minimum value of the decimal that can be represented in SFV.
+   * line is the index of the field line where the error occurred.
    */
-  static readonly MIN_VALUE = -999999999999.9993896484375;
+  line: number;
 
-  private value: number;
-  private str: string;
+  /**
+   * offset is the position in the field line where the error occurred.
+   * It is counted in UTF-16 code units, as the index of strings.
+   */
+  offset: number;
 
   /**
-   * Create a new Decimal.
-   * The value must be a number.
+   * character is the character at the position.
+   * It is undefined if the error occurred at the end of input.
+   */
+  character?: string;
+
+  /**
+   * expected is the list of what the parser expected at the position.
+   */
+  expected?: readonly string[];
+
+  /**
+   * cause is the underlying error.
+   */
+  cause?: unknown;
+}
+
+/**
+ * SfvParseError is thrown when the input is not valid Structured Field Values.
+ */
+export class SfvParseError extends SyntaxError {
+  /**
+   * input is the field lines that were being parsed.
+   */
+  readonly input: readonly string[];
+
+  /**
+   * line is the index of the field line where the error occurred.
+   */
+  readonly line: number;
+
+  /**
+   * offset is the position in the field line where the error occurred.
+   * It is counted in UTF-16 code units, as the index of strings.
+   */
+  readonly offset: number;
+
+  /**
+   * character is the character at the position.
+   * It is undefined if the error occurred at the end of input.
+   */
+  readonly character: string | undefined;
+
+  /**
+   * expected is the list of what the parser expected at the position.
+   */
+  readonly expected: readonly string[];
+
+  /**
+   * Create a new SfvParseError.
    *
-   * @param value the value of the decimal
+   * @param reason the reason of the error
+   * @param options the position and the context of the error
    */
-  constructor(value: number) {
-    if (Number.isNaN(value)) {
-      throw new TypeError("value must be a number");
+  constructor(reason: string, options: SfvParseErrorOptions) {
+    let message = `${reason} at ${options.offset}`;
+    if (options.input.length > 1) {
+      message += ` in field line ${options.line}`;
     }
-    if (value < Decimal.MIN_VALUE || value > Decimal.MAX_VALUE) {
-      throw new RangeError(
-        `value must be between -999999999999.999 and 999999999999.999`,
-      );
+    const expected = options.expected ?? [];
+    if (expected.length > 0) {
+      message += `: expected ${formatExpected(expected)}`;
     }
-    this.str = Decimal.floatToString(value);
-    this.value = Number.parseFloat(this.str);
+    super(message, { cause: options.cause });
+    this.name = "SfvParseError";
+    this.input = options.input;
+    this.line = options.line;
+    this.offset = options.offset;
+    this.character = options.character;
+    this.expected = expected;
   }
 
-  private static floatToString(value: number): string {
-    let str = "";
-    let i = roundToEven(value * 1000);
-
-    // write the sign
-    if (i < 0) {
-      str += "-";
-      i = -i;
+  /**
+   * format renders the field line with a caret under the position of the error.
+   *
+   * @returns human-readable description of the error
+   */
+  format(): string {
+    const line = this.input[this.line] ?? "";
+    let caret = "";
+    let i = 0;
+    for (const ch of line) {
+      if (i >= this.offset) {
+        break;
+      }
+      // keep tabs so that the caret is aligned with the input.
+      // a surrogate pair is one character on the screen, so it is one space.
+      caret += ch === "\t" ? "\t" : " ";
+      i += ch.length;
     }
-    // integer component
-    str += `${Math.floor(i / 1000)}.`;
+    return `${line}\n${caret}^ ${this.message}`;
+  }
+}
+
+/**
+ * DecodeLimits is the maximum sizes that the parser accepts.
+ * The input that exceeds them is rejected by SfvLimitError.
+ * The defaults are the values of DEFAULT_DECODE_LIMITS,
+ * and Infinity disables the limit.
+ * The decode functions throw RangeError for the limits
+ * that are not non-negative integers or Infinity.
+ */
+export interface DecodeLimits {
+  /**
+   * maxInputLength is the maximum length of the input.
+   * The field lines are counted as if they were joined with ",".
+   */
+  maxInputLength?: number;
+
+  /**
+   * maxMembers is the maximum number of the members of a List or a Dictionary.
+   */
+  maxMembers?: number;
+
+  /**
+   * maxParameters is the maximum number of the parameters of an Item or an Inner List.
+   */
+  maxParameters?: number;
+
+  /**
+   * maxInnerListLength is the maximum number of the items of an Inner List.
+   */
+  maxInnerListLength?: number;
+
+  /**
+   * maxStringLength is the maximum number of the characters of a String,
+   * and the maximum number of the UTF-8 bytes of a Display String.
+   */
+  maxStringLength?: number;
+
+  /**
+   * maxTokenLength is the maximum number of the characters of a Token.
+   */
+  maxTokenLength?: number;
+
+  /**
+   * maxBinaryLength is the maximum number of the bytes of a Byte Sequence.
+   */
+  maxBinaryLength?: number;
+}
+
+/**
+ * DEFAULT_DECODE_LIMITS is the default limits of the parser.
+ * They are several times larger than the minimums that RFC 8941 Section 3 requires.
+ */
+export const DEFAULT_DECODE_LIMITS: Readonly<Required<DecodeLimits>> = Object
+  .freeze({
+    maxInputLength: 65536,
+    maxMembers: 4096,
+    maxParameters: 1024,
+    maxInnerListLength: 1024,
+    maxStringLength: 8192,
+    maxTokenLength: 2048,
+    maxBinaryLength: 32768,
+  });
+
+/**
+ * DecodeItemOptions is the options for decodeItem.
+ */
+export interface DecodeItemOptions {
+  /**
+   * limits is the maximum sizes that the parser accepts.
+   * The omitted limits are the defaults in DEFAULT_DECODE_LIMITS.
+   */
+  limits?: DecodeLimits;
 
-    // fractional component
-    i = i % 1000;
-    str += `${Math.floor(i / 100)}`;
-    i = i % 100;
-    if (i === 0) {
-      return str; // omit trailing zeros
-    }
-    str += `${Math.floor(i / 10)}`;
-    i = i % 10;
-    if (i === 0) {
-      return str;
-    }
-    str += `${i}`;
-    return str; // omit trailing zeros
-  }
+  /**
+   * dates is the type of decoded Dates.
+   *
+   * - "date": Dates are decoded into `Date`.
+   *   The dates out of the range of `Date` are rejected.
+   * - "sfdate": Dates are decoded into `SfDate`, which supports the full range of RFC 9651.
+   *
+   * The default is "date".
+   */
+  dates?: "date" | "sfdate";
 
   /**
-   * toString returns the string representation of the decimal.
+   * version is the version of the specification that the parser accepts.
+   * Dates and Display Strings are rejected in "rfc8941".
    *
-   * @returns the string representation of the decimal
+   * The default is "rfc9651".
    */
-  toString(): string {
-    return this.str;
-  }
+  version?: SfvVersion;
+}
 
+/**
+ * DecodeOptions is the options for decodeList and decodeDictionary.
+ */
+export interface DecodeOptions extends DecodeItemOptions {
   /**
-   * valueOf returns the value of the decimal.
+   * mode is how malformed input is handled.
    *
-   * @returns the value of the decimal
+   * - "strict": the whole field fails to parse, as RFC 8941 requires.
+   *   The decode functions throw SfvParseError.
+   * - "tolerant": malformed members are skipped up to the next top-level ",",
+   *   and the decode functions return the other members with the diagnostics.
+   *   Don't use it for security decisions.
+   *
+   * The default is "strict".
+   * The limits are always enforced, even in the tolerant mode.
    */
-  valueOf(): number {
-    return this.value;
-  }
+  mode?: "strict" | "tolerant";
 }
 
-function roundToEven(value: number): number {
-  const floor = Math.floor(value);
-  if (value - floor === 0.5) {
-    return floor % 2 === 0 ? floor : floor + 1;
-  }
-  return Math.round(value);
+/**
+ * StrictDecodeOptions is the options for decoding in the strict mode.
+ */
+export interface StrictDecodeOptions extends DecodeOptions {
+  /**
+   * mode is "strict" or omitted.
+   */
+  mode?: "strict";
 }
 
 /**
- * Token is a token defined in RFC 8941 Section 3.3.4.
+ * TolerantDecodeOptions is the options for decoding in the tolerant mode.
  */
-export class Token {
-  private value: string;
+export interface TolerantDecodeOptions extends DecodeOptions {
+  /**
+   * mode is always "tolerant".
+   */
+  mode: "tolerant";
+}
 
-  constructor(value: string) {
-    validateToken(value);
-    this.value = value;
-  }
+/**
+ * DecodeDiagnostic describes a member that is skipped in the tolerant mode.
+ */
+export interface DecodeDiagnostic {
+  /**
+   * error is the error that caused the member to be skipped.
+   */
+  error: SfvParseError;
 
   /**
-   * toString returns the string representation of the token.
-   *
-   * @returns the string representation of the token
+   * line is the index of the field line where the skipped member starts.
    */
-  toString(): string {
-    // serialize the token using algorithm defined in RFC 8941 Section 4.1.7.
-    return this.value;
-  }
+  line: number;
 
   /**
-   * valueOf returns the value of the token.
-   *
-   * @returns the value of the token
+   * offset is the position in the field line where the skipped member starts.
    */
-  valueOf(): string {
-    return this.value;
-  }
-}
+  offset: number;
 
-function validateToken(value: string): void {
-  if (!/^[a-zA-Z*][-0-9a-zA-Z!#$%&'*+.^_`|~:/]*$/.test(value)) {
-    throw new TypeError("token contains invalid characters");
-  }
+  /**
+   * skipped is the text of the skipped member.
+   * It is empty if the input ends with a trailing ",".
+   */
+  skipped: string;
 }
 
 /**
- * DisplayString is a display string defined in draft-ietf-httpbis-sfbis-06 Section 3.3.8.
+ * DecodeResult is the result of decoding in the tolerant mode.
  */
-export class DisplayString {
-  private value: string;
+export interface DecodeResult<T> {
+  /**
+   * value is the decoded value that contains the well-formed members.
+   */
+  value: T;
 
-  constructor(value: string) {
-    this.value = value;
-  }
+  /**
+   * diagnostics is the list of the skipped members.
+   */
+  diagnostics: DecodeDiagnostic[];
+}
 
+/**
+ * SfvLimitError is thrown when the input exceeds the limits of the parser.
+ */
+export class SfvLimitError extends SfvParseError {
   /**
-   * toString returns the string representation of the display string.
-   *
-   * @returns the string representation of the display string
+   * limit is the name of the exceeded limit.
    */
-  toString(): string {
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(this.value);
-    let output = '%"';
-    for (const byte of bytes) {
-      if (
-        byte === 0x25 /* % */ || byte === 0x22 /* " */ || byte <= 0x1f ||
-        byte >= 0x7f
-      ) {
-        const hex = "0123456789abcdef";
-        output += `%${hex[byte >> 4]}${hex[byte & 0xf]}`;
-      } else {
-        output += String.fromCharCode(byte);
-      }
-    }
-    output += '"';
-    return output;
-  }
+  readonly limit: keyof DecodeLimits;
 
   /**
-   * valueOf returns the value of the display string.
+   * Create a new SfvLimitError.
    *
-   * @returns the value of the display string
+   * @param limit the name of the exceeded limit
+   * @param reason the reason of the error
+   * @param options the position and the context of the error
    */
-  valueOf(): string {
-    return this.value;
+  constructor(
+    limit: keyof DecodeLimits,
+    reason: string,
+    options: SfvParseErrorOptions,
+  ) {
+    super(reason, options);
+    this.name = "SfvLimitError";
+    this.limit = limit;
   }
 }
 
-const END_OF_INPUT = "end of input";
+function formatExpected(expected: readonly string[]): string {
+  if (expected.length === 1) {
+    return expected[0];
+  }
+  return expected.slice(0, -1).join(", ") + " or " +
+    expected[expected.length - 1];
+}
+
+// END_OF_INPUT is returned by DecodeState.peek at the end of input.
+const END_OF_INPUT = -1;
+
+// character codes used by the parser.
+const TAB = 0x09;
+const SP = 0x20;
+const DQUOTE = 0x22;
+const PERCENT = 0x25;
+const LPAREN = 0x28;
+const RPAREN = 0x29;
+const COMMA = 0x2c;
+const MINUS = 0x2d;
+const DOT = 0x2e;
+const DIGIT_0 = 0x30;
+const DIGIT_1 = 0x31;
+const COLON = 0x3a;
+const SEMICOLON = 0x3b;
+const EQUALS = 0x3d;
+const QUESTION = 0x3f;
+const AT = 0x40;
+const BACKSLASH = 0x5c;
+
+// character classes for the lookup table.
+const DIGIT = 1 << 0;
+const KEY_START = 1 << 1;
+const KEY = 1 << 2;
+const TOKEN_START = 1 << 3;
+const TOKEN = 1 << 4;
+const BASE64 = 1 << 5;
+const LOWER_HEX = 1 << 6;
+
+// CHAR_CLASS is the lookup table of the character classes for ASCII characters.
+const CHAR_CLASS = (() => {
+  const table = new Uint8Array(128);
+  const add = (chars: string, cls: number) => {
+    for (let i = 0; i < chars.length; i++) {
+      table[chars.charCodeAt(i)] |= cls;
+    }
+  };
+  const digits = "0123456789";
+  const lower = "abcdefghijklmnopqrstuvwxyz";
+  const upper = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+  add(digits, DIGIT);
+  add(lower + "*", KEY_START);
+  add(lower + digits + "_-.*", KEY);
+  add(lower + upper + "*", TOKEN_START);
+  add(lower + upper + digits + "!#$%&'*+-.^_`|~:/", TOKEN);
+  add(lower + upper + digits + "+/=", BASE64);
+  add(digits + "abcdef", LOWER_HEX);
+  return table;
+})();
+
+function is(ch: number, cls: number): boolean {
+  return ch >= 0 && ch < 128 && (CHAR_CLASS[ch] & cls) !== 0;
+}
+
+// isVisible reports whether ch is a visible ASCII character or a space, i.e. %x20-7E.
+function isVisible(ch: number): boolean {
+  return ch >= 0x20 && ch <= 0x7e;
+}
 
-function isDigit(c: string): boolean {
-  return /^[0-9]$/.test(c);
+// mergeLimits fills the omitted limits with the defaults.
+// The limits that are explicitly undefined are also the defaults.
+// It throws RangeError if a limit is not a non-negative integer or Infinity,
+// because NaN would silently disable the limit.
+function mergeLimits(
+  limits: DecodeLimits = {},
+): Readonly<Required<DecodeLimits>> {
+  const merged = { ...DEFAULT_DECODE_LIMITS };
+  for (const key of Object.keys(merged) as (keyof DecodeLimits)[]) {
+    const limit = limits[key];
+    if (limit === undefined) {
+      continue;
+    }
+    if (limit !== Infinity && !(Number.isInteger(limit) && limit >= 0)) {
+      throw new RangeError(
+        `${key} must be a non-negative integer or Infinity: ${limit}`,
+      );
+    }
+    merged[key] = limit;
+  }
+  return merged;
 }
 
 class DecodeState {
+  // the field lines are parsed as if they were joined with ",",
+  // without copying them into a new string.
+  private readonly lines: string[];
+  private line = 0;
+  private input: string;
   private pos = 0;
-  private readonly input: string[];
-
-  constructor(...input: string[]) {
-    this.input = [...input.join(",")];
+  private readonly limits: Readonly<Required<DecodeLimits>>;
+
+  private readonly dates: "date" | "sfdate";
+  private readonly version: SfvVersion;
+
+  // the trace that receives the syntax, used to build concrete syntax trees.
+  private readonly trace: DecodeTrace | undefined;
+
+  constructor(input: string[], options: DecodeItemOptions = {}) {
+    this.lines = input;
+    this.input = input.length > 0 ? input[0] : "";
+    this.limits = mergeLimits(options.limits);
+    this.dates = options.dates ?? "date";
+    this.version = options.version ?? "rfc9651";
+    this.trace = traceOf(options);
+
+    // check the length of the input before parsing.
+    const max = this.limits.maxInputLength;
+    let length = 0;
+    for (let i = 0; i < input.length; i++) {
+      length += input[i].length + (i > 0 ? 1 : 0);
+      if (length > max) {
+        // point to the first character that exceeds the limit.
+        const pos = input[i].length - (length - max);
+        throw this.limitError(
+          "maxInputLength",
+          "input is too long",
+          i,
+          Math.max(pos, 0),
+        );
+      }
+    }
   }
 
-  peek(): string {
-    if (this.pos >= this.input.length) {
-      return END_OF_INPUT;
+  peek(): number {
+    if (this.pos < this.input.length) {
+      return this.input.charCodeAt(this.pos);
     }
-    return this.input[this.pos];
+    if (this.line < this.lines.length - 1) {
+      // the separator between field lines.
+      return COMMA;
+    }
+    return END_OF_INPUT;
   }
 
   next(): void {
-    this.pos++;
+    if (this.pos < this.input.length) {
+      this.pos++;
+      return;
+    }
+    if (this.line < this.lines.length - 1) {
+      this.line++;
+      this.input = this.lines[this.line];
+      this.pos = 0;
+    }
   }
 
   skipSPs(): void {
-    while (this.peek() === " ") {
+    while (this.peek() === SP) {
       this.next();
     }
   }
 
   // skipOWS skips OWS in RFC 7230
   skipOWS(): void {
-    while (this.peek() === " " || this.peek() === "\t") {
+    for (;;) {
+      const ch = this.peek();
+      if (ch !== SP && ch !== TAB) {
+        break;
+      }
       this.next();
     }
   }
 
-  errUnexpectedCharacter(): never {
+  errUnexpectedCharacter(...expected: string[]): never {
+    throw this.unexpectedCharacter(...expected);
+  }
+
+  // unexpectedCharacter creates a SfvParseError for the character at the current position.
+  unexpectedCharacter(...expected: string[]): SfvParseError {
     const ch = this.peek();
     if (ch === END_OF_INPUT) {
-      throw new SyntaxError("unexpected end of input");
-    }
-    throw new SyntaxError(`unexpected character at ${this.pos}`);
+      return this.error("unexpected end of input", expected);
+    }
+    const str = this.pos < this.input.length
+      ? String.fromCodePoint(this.input.codePointAt(this.pos) ?? ch)
+      : ",";
+    return this.error(`unexpected character ${JSON.stringify(str)}`, expected);
+  }
+
+  // limitError creates a SfvLimitError that points to the position.
+  limitError(
+    limit: keyof DecodeLimits,
+    reason: string,
+    line = this.line,
+    pos = this.pos,
+  ): SfvLimitError {
+    return new SfvLimitError(
+      limit,
+      `${reason} (${limit}: ${this.limits[limit]})`,
+      this.position(line, pos),
+    );
+  }
+
+  // error creates a SfvParseError that points to the position.
+  error(
+    reason: string,
+    expected: string[] = [],
+    line = this.line,
+    pos = this.pos,
+    cause?: unknown,
+  ): SfvParseError {
+    return new SfvParseError(reason, {
+      ...this.position(line, pos),
+      expected,
+      cause,
+    });
+  }
+
+  // position returns the options of errors that point to the position.
+  position(line: number, pos: number): SfvParseErrorOptions {
+    const input = this.lines[line] ?? "";
+    let character: string | undefined = undefined;
+    if (pos < input.length) {
+      character = String.fromCodePoint(input.codePointAt(pos) ?? 0);
+    } else if (line < this.lines.length - 1) {
+      character = ",";
+    }
+    return { input: this.lines, line, offset: pos, character };
   }
 
   // decodeItem parses an Item according to RFC 8941 Section 4.2.3.
   decodeItem(): Item {
+    this.trace?.open("item", this.line, this.pos);
     const value = this.decodeBareItem();
     const params = this.decodeParameters();
+    this.trace?.close(this.line, this.pos);
     return new Item(value, params);
   }
 
   // decodeBareItem parses a bare item according to RFC 8941 Section 4.2.3.1.
   decodeBareItem(): BareItem {
+    this.trace?.open("bare-item", this.line, this.pos);
+    const value = this.decodeBareItemValue();
+    this.trace?.close(this.line, this.pos, value);
+    return value;
+  }
+
+  // decodeBareItemValue parses a bare item without reporting it to the trace.
+  decodeBareItemValue(): BareItem {
     const ch = this.peek();
-    if (ch === "-" || isDigit(ch)) {
+    if (ch === MINUS || is(ch, DIGIT)) {
       // an integer or a decimal
       return this.decodeIntegerOrDecimal();
     }
 
-    if (ch === '"') {
+    if (ch === DQUOTE) {
       // a string
       return this.decodeString();
     }
 
-    if (/^[a-zA-Z*]$/.test(ch)) {
+    if (is(ch, TOKEN_START)) {
       // a token
       return this.decodeToken();
     }
 
-    if (ch === ":") {
+    if (ch === COLON) {
       // a byte sequence
       return this.decodeByteSequence();
     }
 
-    if (ch === "?") {
+    if (ch === QUESTION) {
       // a boolean
       return this.decodeBoolean();
     }
 
-    if (ch === "@") {
+    if (ch === AT) {
       // a date
+      if (this.version === "rfc8941") {
+        throw this.error("date requires RFC 9651");
+      }
       return this.decodeDate();
     }
 
-    if (ch === "%") {
+    if (ch === PERCENT) {
       // a display string
+      if (this.version === "rfc8941") {
+        throw this.error("display string requires RFC 9651");
+      }
       return this.decodeDisplayString();
     }
 
-    this.errUnexpectedCharacter();
+    this.errUnexpectedCharacter("bare item");
   }
 
   // decodeIntegerOrDecimal parses an integer or a decimal according to RFC 8941 Section 4.2.4.
   decodeIntegerOrDecimal(): Integer | Decimal {
-    let ch = this.peek();
-    let neg = false;
-    if (ch === "-") {
-      neg = true;
-      this.next();
-      if (!isDigit(this.peek())) {
-        this.errUnexpectedCharacter();
+    // numbers never contain ",", so they are always in the current field line.
+    const input = this.input;
+    const start = this.pos;
+    if (this.peek() === MINUS) {
+      this.pos++;
+      if (!is(this.peek(), DIGIT)) {
+        this.errUnexpectedCharacter("digit");
       }
     }
 
-    let num = 0;
-    let cnt = 0;
-    for (;;) {
-      const ch = this.peek();
-      if (!isDigit(ch)) {
-        break;
-      }
-      this.next();
-      num = num * 10 + Number(ch);
-      cnt++;
-      if (cnt > 15) {
-        throw new SyntaxError("number is too long");
+    const intStart = this.pos;
+    while (is(this.peek(), DIGIT)) {
+      this.pos++;
+      if (this.pos - intStart > 15) {
+        throw this.error("number is too long", [], this.line, this.pos - 1);
       }
     }
-    if (this.peek() !== ".") {
+    if (this.peek() !== DOT) {
       // it is an integer
-      if (neg) {
-        num *= -1;
-      }
-      return new Integer(num);
+      return new Integer(Number(input.slice(start, this.pos)));
     }
-    this.next(); // skip "."
+    this.pos++; // skip "."
 
     // it might be a decimal
-    if (cnt > 12) {
-      throw new SyntaxError("number is too long");
+    if (this.pos - 1 - intStart > 12) {
+      throw this.error("number is too long", [], this.line, this.pos - 1);
     }
 
-    let frac = 0;
-    ch = this.peek();
-    if (!isDigit(ch)) {
+    const fracStart = this.pos;
+    if (!is(this.peek(), DIGIT)) {
       // fractional part MUST NOT be empty.
-      this.errUnexpectedCharacter();
-    }
-    this.next();
-    frac = frac * 10 + Number(ch);
-
-    ch = this.peek();
-    if (!isDigit(ch)) {
-      let ret = num + frac / 10;
-      if (neg) {
-        ret *= -1;
-      }
-      return new Decimal(ret);
-    }
-    this.next();
-    frac = frac * 10 + Number(ch);
-
-    ch = this.peek();
-    if (!isDigit(ch)) {
-      let ret = num + frac / 100;
-      if (neg) {
-        ret *= -1;
-      }
-      return new Decimal(ret);
+      this.errUnexpectedCharacter("digit");
     }
-    this.next();
-    frac = frac * 10 + Number(ch);
-
-    ch = this.peek();
-    if (!isDigit(ch)) {
-      let ret = num + frac / 1000;
-      if (neg) {
-        ret *= -1;
+    while (is(this.peek(), DIGIT)) {
+      this.pos++;
+      if (this.pos - fracStart > 3) {
+        throw this.error("number is too long", [], this.line, this.pos - 1);
       }
-      return new Decimal(ret);
     }
-    this.next();
-    frac = frac * 10 + Number(ch);
-
-    throw new SyntaxError("number is too long");
+    // build the value in thousandths exactly, without floating-point arithmetic.
+    const int = Number(input.slice(intStart, fracStart - 1));
+    const frac = Number(input.slice(fracStart, this.pos).padEnd(3, "0"));
+    const scaled = int * 1000 + frac;
+    return Decimal.fromThousandths(start === intStart ? scaled : -scaled);
   }
 
   // decodeList parses a list according to RFC 8941 Section 4.2.1.
-  decodeList(): List {
+  // If diagnostics is given, malformed members are skipped and reported to it.
+  decodeList(diagnostics?: DecodeDiagnostic[]): List {
     const members: List = [];
 
     if (this.peek() === END_OF_INPUT) {
       return members;
     }
 
-    for (;;) {
-      const item = this.decodeItemOrInnerList();
-      members.push(item);
-      this.skipOWS();
+    for (let count = 1;; count++) {
+      if (count > this.limits.maxMembers) {
+        throw this.limitError("maxMembers", "too many list members");
+      }
+      const line = this.line;
+      const pos = this.pos;
+      try {
+        const item = this.decodeItemOrInnerList();
+        this.expectMemberEnd();
+        members.push(item);
+      } catch (e) {
+        this.recover(e, line, pos, diagnostics);
+      }
       if (this.peek() === END_OF_INPUT) {
         break;
       }
-      if (this.peek() !== ",") {
-        this.errUnexpectedCharacter();
-      }
       this.next(); // skip ","
       this.skipOWS();
       if (this.peek() === END_OF_INPUT) {
-        throw new SyntaxError("unexpected end of input");
+        this.report(
+          this.unexpectedCharacter("item or inner list"),
+          diagnostics,
+        );
+        break;
       }
     }
     return members;
   }
 
+  // expectMemberEnd skips OWS after a member of a list or a dictionary,
+  // and checks that the member is followed by "," or the end of input.
+  expectMemberEnd(): void {
+    this.skipOWS();
+    const ch = this.peek();
+    if (ch !== END_OF_INPUT && ch !== COMMA) {
+      this.errUnexpectedCharacter('","');
+    }
+  }
+
+  // recover skips the malformed member that starts at the position,
+  // up to the next "," that is neither in a string nor in an inner list.
+  // Inner lists can't span field lines,
+  // so if an inner list isn't closed in its line, the member ends at the first "," in it.
+  // It rethrows the error if diagnostics is not given or the error is SfvLimitError.
+  recover(
+    err: unknown,
+    line: number,
+    pos: number,
+    diagnostics: DecodeDiagnostic[] | undefined,
+  ): void {
+    if (
+      diagnostics === undefined || !(err instanceof SfvParseError) ||
+      err instanceof SfvLimitError
+    ) {
+      throw err;
+    }
+    this.line = line;
+    this.input = this.lines[line];
+    this.pos = pos;
+
+    let skipped = "";
+    let quoted = false;
+    let depth = 0;
+    // the position of the first "," in the inner list, and the length of skipped there.
+    let firstComma: [number, number, number] | undefined;
+    for (;;) {
+      const ch = this.peek();
+      const endOfLine = this.pos >= this.input.length;
+      if (
+        ch === END_OF_INPUT ||
+        (ch === COMMA && !quoted && (depth === 0 || endOfLine))
+      ) {
+        if (depth > 0 && firstComma !== undefined) {
+          const [commaLine, commaPos, length] = firstComma;
+          this.line = commaLine;
+          this.input = this.lines[commaLine];
+          this.pos = commaPos;
+          skipped = skipped.slice(0, length);
+        }
+        break;
+      }
+      if (ch === COMMA && !quoted) {
+        firstComma ??= [this.line, this.pos, skipped.length];
+      }
+      this.next();
+      skipped += String.fromCharCode(ch);
+      if (!quoted) {
+        if (ch === DQUOTE) {
+          quoted = true;
+        } else if (ch === LPAREN) {
+          depth++;
+        } else if (ch === RPAREN && depth > 0) {
+          depth--;
+        }
+        continue;
+      }
+      if (ch === DQUOTE) {
+        quoted = false;
+      } else if (ch === BACKSLASH && this.peek() !== END_OF_INPUT) {
+        // the escaped character never closes the string.
+        skipped += String.fromCharCode(this.peek());
+        this.next();
+      }
+    }
+    diagnostics.push({ error: err, line, offset: pos, skipped });
+  }
+
+  // report throws the error, or adds it to diagnostics if given.
+  report(
+    err: SfvParseError,
+    diagnostics: DecodeDiagnostic[] | undefined,
+  ): void {
+    if (diagnostics === undefined) {
+      throw err;
+    }
+    diagnostics.push({
+      error: err,
+      line: err.line,
+      offset: err.offset,
+      skipped: "",
+    });
+  }
+
   // decodeItemOrInnerList parses an item or an inner list according to RFC 8941 Section 4.2.1.1.
   decodeItemOrInnerList(): Item | InnerList {
-    if (this.peek() === "(") {
+    if (this.peek() === LPAREN) {
       return this.decodeInnerList();
     }
     return this.decodeItem();
@@ -919,58 +3324,79 @@ class DecodeState {
 
   // decodeInnerList parses an inner list according to RFC 8941 Section 4.2.1.2.
   decodeInnerList(): InnerList {
-    if (this.peek() !== "(") {
-      this.errUnexpectedCharacter();
+    if (this.peek() !== LPAREN) {
+      this.errUnexpectedCharacter('"("');
     }
+    this.trace?.open("inner-list", this.line, this.pos);
     this.next(); // skip "("
 
     const items: Item[] = [];
     for (;;) {
       this.skipSPs();
-      if (this.peek() === ")") {
+      if (this.peek() === RPAREN) {
         this.next(); // skip ")"
         break;
       }
+      if (items.length >= this.limits.maxInnerListLength) {
+        throw this.limitError(
+          "maxInnerListLength",
+          "too many inner list items",
+        );
+      }
       const item = this.decodeItem();
       items.push(item);
-      if (this.peek() !== " " && this.peek() !== ")") {
-        throw new SyntaxError("unexpected end of input");
+      const ch = this.peek();
+      if (ch !== SP && ch !== RPAREN) {
+        this.errUnexpectedCharacter('" "', '")"');
       }
     }
     const params = this.decodeParameters();
+    this.trace?.close(this.line, this.pos);
     return new InnerList(items, params);
   }
 
   // decodeDictionary parses a dictionary according to RFC 8941 Section 4.2.2.
-  decodeDictionary(): Dictionary {
+  // If diagnostics is given, malformed members are skipped and reported to it.
+  decodeDictionary(diagnostics?: DecodeDiagnostic[]): Dictionary {
     const dict = new Dictionary();
 
     if (this.peek() === END_OF_INPUT) {
       return dict;
     }
 
-    for (;;) {
-      const key = this.decodeKey();
-      if (this.peek() === "=") {
-        this.next(); // skip "="
-        const value = this.decodeItemOrInnerList();
+    for (let count = 1;; count++) {
+      if (count > this.limits.maxMembers) {
+        throw this.limitError("maxMembers", "too many dictionary members");
+      }
+      const line = this.line;
+      const pos = this.pos;
+      try {
+        this.trace?.open("dictionary-member", this.line, this.pos);
+        const key = this.decodeKey();
+        let value: Item | InnerList;
+        if (this.peek() === EQUALS) {
+          this.next(); // skip "="
+          value = this.decodeItemOrInnerList();
+        } else {
+          this.trace?.open("item", this.line, this.pos);
+          const params = this.decodeParameters();
+          this.trace?.close(this.line, this.pos);
+          value = new Item(true, params);
+        }
+        this.trace?.close(this.line, this.pos);
+        this.expectMemberEnd();
         dict.set(key, value);
-      } else {
-        const params = this.decodeParameters();
-        dict.set(key, new Item(true, params));
+      } catch (e) {
+        this.recover(e, line, pos, diagnostics);
       }
-
-      this.skipOWS();
       if (this.peek() === END_OF_INPUT) {
         break;
       }
-      if (this.peek() !== ",") {
-        this.errUnexpectedCharacter();
-      }
       this.next(); // skip ","
       this.skipOWS();
       if (this.peek() === END_OF_INPUT) {
-        throw new SyntaxError("unexpected end of input");
+        this.report(this.unexpectedCharacter("key"), diagnostics);
+        break;
       }
     }
     return dict;
@@ -979,225 +3405,294 @@ class DecodeState {
   // decodeParameters parses parameters according to RFC 8941 Section 4.2.3.2.
   decodeParameters(): Parameters {
     const params = new Parameters();
-    for (;;) {
-      if (this.peek() !== ";") {
-        break;
+    for (let count = 1; this.peek() === SEMICOLON; count++) {
+      if (count > this.limits.maxParameters) {
+        throw this.limitError("maxParameters", "too many parameters");
       }
+      this.trace?.open("parameter", this.line, this.pos);
       this.next(); // skip ";"
       this.skipSPs();
 
       const key = this.decodeKey();
-      if (this.peek() === "=") {
+      if (this.peek() === EQUALS) {
         this.next(); // skip "="
         const value = this.decodeBareItem();
         params.set(key, value);
       } else {
         params.set(key, true);
       }
+      this.trace?.close(this.line, this.pos);
     }
     return params;
   }
 
   // decodeKey parses a key according to RFC 8941 Section 4.2.3.3.
   decodeKey(): string {
-    if (!/^[a-zA-Z*]$/.test(this.peek())) {
-      this.errUnexpectedCharacter();
+    if (!is(this.peek(), KEY_START)) {
+      this.errUnexpectedCharacter("key");
     }
 
-    let key = "";
-    for (;;) {
-      const ch = this.peek();
-      if (!/^[-a-zA-Z0-9_.*]$/.test(ch)) {
-        break;
-      }
-      key += ch;
-      this.next();
+    // keys never contain ",", so they are always in the current field line.
+    const start = this.pos;
+    this.pos++;
+    while (is(this.peek(), KEY)) {
+      this.pos++;
     }
-    return key;
+    this.trace?.open("key", this.line, start);
+    this.trace?.close(this.line, this.pos);
+    return this.input.slice(start, this.pos);
   }
 
   // decodeString parses a string according to RFC 8941 Section 4.2.5.
   decodeString(): string {
-    if (this.peek() !== '"') {
-      this.errUnexpectedCharacter();
+    if (this.peek() !== DQUOTE) {
+      this.errUnexpectedCharacter(`'"'`);
     }
     this.next(); // skip '"'
 
+    // the characters between escape sequences are copied by slice.
+    const max = this.limits.maxStringLength;
     let str = "";
+    let start = this.pos;
     for (;;) {
-      const ch = this.peek();
-      if (ch === "\\") {
+      if (this.pos >= this.input.length) {
+        if (this.line >= this.lines.length - 1) {
+          this.errUnexpectedCharacter(`'"'`);
+        }
+        if (str.length + this.pos - start >= max) {
+          throw this.limitError("maxStringLength", "string is too long");
+        }
+        // the string continues to the next field line.
+        str += this.input.slice(start) + ",";
+        this.next(); // skip the separator
+        start = this.pos;
+        continue;
+      }
+
+      const ch = this.input.charCodeAt(this.pos);
+      if (ch !== DQUOTE && str.length + this.pos - start >= max) {
+        throw this.limitError("maxStringLength", "string is too long");
+      }
+      if (ch === BACKSLASH) {
+        str += this.input.slice(start, this.pos);
         this.next(); // skip "\\"
-        if (this.peek() === "\\" || this.peek() === '"') {
-          str += this.peek();
-          this.next();
-          continue;
+        const escaped = this.peek();
+        if (escaped !== BACKSLASH && escaped !== DQUOTE) {
+          this.errUnexpectedCharacter('"\\\\"', `'"'`);
         }
-        this.errUnexpectedCharacter();
+        str += String.fromCharCode(escaped);
+        this.next();
+        start = this.pos;
+        continue;
       }
-      if (ch === '"') {
+      if (ch === DQUOTE) {
+        str += this.input.slice(start, this.pos);
         this.next(); // skip '"'
         return str;
       }
-      if (/^[\x20-\x7e]$/.test(ch)) {
-        str += ch;
-        this.next();
-        continue;
+      if (!isVisible(ch)) {
+        this.errUnexpectedCharacter(`'"'`, "printable ASCII character");
       }
-      this.errUnexpectedCharacter();
+      this.pos++;
     }
   }
 
   // decodeToken parses a Token according to RFC 8941 Section 4.2.6.
   decodeToken(): Token {
-    let token = "";
-    for (;;) {
-      const ch = this.peek();
-      if (ch === END_OF_INPUT) {
-        break;
-      }
-      if (!/^[-0-9a-zA-Z!#$%&'*+.^_`|~:/]$/.test(ch)) {
-        break;
-      }
-      token += ch;
-      this.next();
+    // tokens never contain ",", so they are always in the current field line.
+    const start = this.pos;
+    this.pos++;
+    while (is(this.peek(), TOKEN)) {
+      this.pos++;
+    }
+    const max = this.limits.maxTokenLength;
+    if (this.pos - start > max) {
+      throw this.limitError(
+        "maxTokenLength",
+        "token is too long",
+        this.line,
+        start + max,
+      );
     }
-    return new Token(token);
+    return new Token(this.input.slice(start, this.pos));
   }
 
   // decodeByteSequence parses a byte sequence according to RFC 8941 Section 4.2.7.
   decodeByteSequence(): Uint8Array {
-    if (this.peek() !== ":") {
-      this.errUnexpectedCharacter();
+    if (this.peek() !== COLON) {
+      this.errUnexpectedCharacter('":"');
     }
     this.next(); // skip ":"
 
-    let bytes = "";
+    // byte sequences never contain ",", so they are always in the current field line.
+    const start = this.pos;
     for (;;) {
       const ch = this.peek();
-      if (ch === END_OF_INPUT) {
+      if (ch === COLON) {
         break;
       }
-      if (ch === ":") {
-        this.next(); // skip ":"
-        return new Uint8Array(
-          atob(bytes)
-            .split("")
-            .map((c) => c.charCodeAt(0)),
-        );
-      }
-      if (!/^[A-Za-z0-9+/=]$/.test(ch)) {
-        this.errUnexpectedCharacter();
+      if (!is(ch, BASE64)) {
+        this.errUnexpectedCharacter('":"', "base64 character");
       }
-      bytes += ch;
-      this.next();
+      this.pos++;
+    }
+    const end = this.pos;
+    this.next(); // skip ":"
+
+    // every 3 bytes are encoded into 4 characters,
+    // so the longer input is rejected before it is decoded.
+    const maxEncodedLength = Math.ceil(this.limits.maxBinaryLength / 3) * 4;
+    if (end - start > maxEncodedLength) {
+      throw this.limitError(
+        "maxBinaryLength",
+        "byte sequence is too long",
+        this.line,
+        start,
+      );
+    }
+
+    let decoded: string;
+    try {
+      decoded = atob(this.input.slice(start, end));
+    } catch (e) {
+      throw this.error("invalid base64 encoding", [], this.line, start, e);
+    }
+    if (decoded.length > this.limits.maxBinaryLength) {
+      throw this.limitError(
+        "maxBinaryLength",
+        "byte sequence is too long",
+        this.line,
+        start,
+      );
+    }
+    const bytes = new Uint8Array(decoded.length);
+    for (let i = 0; i < decoded.length; i++) {
+      bytes[i] = decoded.charCodeAt(i);
     }
-    throw new SyntaxError("unexpected end of input");
+    return bytes;
   }
 
   // decodeBoolean parses a boolean according to RFC 8941 Section 4.2.8.
   decodeBoolean(): boolean {
-    if (this.peek() !== "?") {
-      this.errUnexpectedCharacter();
+    if (this.peek() !== QUESTION) {
+      this.errUnexpectedCharacter('"?"');
     }
     this.next(); // skip "?"
     const ch = this.peek();
-    if (ch === "0") {
+    if (ch === DIGIT_0) {
       this.next();
       return false;
     }
-    if (ch === "1") {
+    if (ch === DIGIT_1) {
       this.next();
       return true;
     }
-    this.errUnexpectedCharacter();
+    this.errUnexpectedCharacter('"0"', '"1"');
   }
 
   // decodeDate parses a date according to https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-sfbis-06#name-parsing-a-date
-  decodeDate(): Date {
-    if (this.peek() !== "@") {
-      this.errUnexpectedCharacter();
+  decodeDate(): Date | SfDate {
+    if (this.peek() !== AT) {
+      this.errUnexpectedCharacter('"@"');
     }
     this.next(); // skip "@"
 
-    let neg = false;
-    if (this.peek() === "-") {
-      neg = true;
-      this.next(); // skip "-"
+    // dates never contain ",", so they are always in the current field line.
+    const start = this.pos;
+    if (this.peek() === MINUS) {
+      this.pos++;
     }
 
-    if (!isDigit(this.peek())) {
-      this.errUnexpectedCharacter();
+    if (!is(this.peek(), DIGIT)) {
+      this.errUnexpectedCharacter("digit");
     }
 
-    let num = 0;
-    let cnt = 0;
-    for (;;) {
-      const ch = this.peek();
-      if (!isDigit(ch)) {
-        break;
-      }
-      this.next();
-      num = num * 10 + Number(ch);
-      cnt++;
-      if (cnt > 15) {
-        throw new SyntaxError("number is too long");
+    const intStart = this.pos;
+    while (is(this.peek(), DIGIT)) {
+      this.pos++;
+      if (this.pos - intStart > 15) {
+        throw this.error("number is too long", [], this.line, this.pos - 1);
       }
     }
 
-    if (this.peek() === ".") {
+    if (this.peek() === DOT) {
+      // dates must be integers.
       this.errUnexpectedCharacter();
     }
-    if (neg) {
-      num *= -1;
+    const date = new SfDate(Number(this.input.slice(start, this.pos)));
+    if (this.dates === "sfdate") {
+      return date;
     }
-    return new Date(num * 1000);
+    if (!date.isDateCompatible()) {
+      throw this.error(
+        'date is out of the range of Date; use dates: "sfdate" to decode it',
+        [],
+        this.line,
+        start - 1,
+      );
+    }
+    return date.toDate();
   }
 
   // decodeDisplayString parses a display string according to https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-sfbis-06#name-parsing-a-display-string
   decodeDisplayString(): DisplayString {
-    if (this.peek() !== "%") {
-      this.errUnexpectedCharacter();
+    if (this.peek() !== PERCENT) {
+      this.errUnexpectedCharacter('"%"');
     }
     this.next(); // skip "%"
-    if (this.peek() !== '"') {
-      this.errUnexpectedCharacter();
+    if (this.peek() !== DQUOTE) {
+      this.errUnexpectedCharacter(`'"'`);
     }
     this.next(); // skip '"'
 
+    const line = this.line;
+    const start = this.pos;
+    const max = this.limits.maxStringLength;
     const bytes: number[] = [];
     for (;;) {
       const ch = this.peek();
-      if (!/^[\x20-\x7e]$/.test(ch)) {
-        this.errUnexpectedCharacter();
+      if (!isVisible(ch)) {
+        this.errUnexpectedCharacter(`'"'`, "printable ASCII character");
+      }
+      if (ch !== DQUOTE && bytes.length >= max) {
+        throw this.limitError("maxStringLength", "display string is too long");
       }
       this.next();
 
-      if (ch === "%") {
+      if (ch === PERCENT) {
         // %-encoded character
-        const hex = this.peek();
-        if (!/[0-9a-f]/.test(hex)) {
-          this.errUnexpectedCharacter();
+        const hi = this.peek();
+        if (!is(hi, LOWER_HEX)) {
+          this.errUnexpectedCharacter("lowercase hex digit");
         }
         this.next();
-        const hex2 = this.peek();
-        if (!/[0-9a-f]/.test(hex2)) {
-          this.errUnexpectedCharacter();
+        const lo = this.peek();
+        if (!is(lo, LOWER_HEX)) {
+          this.errUnexpectedCharacter("lowercase hex digit");
         }
         this.next();
-        const byte = parseInt(hex + hex2, 16);
-        bytes.push(byte);
+        bytes.push(hexValue(hi) << 4 | hexValue(lo));
         continue;
       }
 
-      if (ch === '"') {
+      if (ch === DQUOTE) {
         break;
       }
 
-      bytes.push(ch.codePointAt(0) ?? 0);
+      bytes.push(ch);
     }
     const decoder = new TextDecoder("utf-8", { fatal: true });
-    const str = decoder.decode(new Uint8Array(bytes));
+    let str: string;
+    try {
+      str = decoder.decode(new Uint8Array(bytes));
+    } catch (e) {
+      throw this.error("invalid UTF-8 sequence", [], line, start, e);
+    }
     return new DisplayString(str);
   }
 }
+
+// hexValue converts a lowercase hex digit into its value.
+function hexValue(ch: number): number {
+  return ch <= 0x39 ? ch - DIGIT_0 : ch - 0x61 + 10;
+}
@@ -0,0 +1,128 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  Decimal,
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  DisplayString,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  Integer,
+  Item,
+  Parameters,
+  Token,
+} from "./mod.ts";
+import { fromJS, toJS } from "./plain.ts";
+
+Deno.test("toJS: bare items", () => {
+  assertEquals(toJS(decodeItem("42")), 42);
+  assertEquals(toJS(decodeItem("4.2")), 4.2);
+  assertEquals(toJS(decodeItem('"foo"')), "foo");
+  assertEquals(toJS(decodeItem("foo")), { token: "foo" });
+  assertEquals(toJS(decodeItem(":AQID:")), new Uint8Array([1, 2, 3]));
+  assertEquals(toJS(decodeItem("?1")), true);
+  assertEquals(toJS(decodeItem("@1659578233")), new Date(1659578233000));
+  assertEquals(toJS(new Item(new DisplayString("füü"))), {
+    displayString: "füü",
+  });
+});
+
+Deno.test("toJS: parameters", () => {
+  assertEquals(toJS(decodeItem("foo;a=1;b")), {
+    value: { token: "foo" },
+    params: { a: 1, b: true },
+  });
+  assertEquals(toJS(new Parameters([["a", "b"]])), { a: "b" });
+});
+
+Deno.test("toJS: list", () => {
+  assertEquals(toJS(decodeList("1, (2 3), (4);a=5")), [
+    1,
+    [2, 3],
+    { value: [4], params: { a: 5 } },
+  ]);
+});
+
+Deno.test("toJS: dictionary", () => {
+  assertEquals(toJS(decodeDictionary('a=1, b="foo", c=bar;x, d=(1 2)')), {
+    a: 1,
+    b: "foo",
+    c: { value: { token: "bar" }, params: { x: true } },
+    d: [1, 2],
+  });
+});
+
+Deno.test("fromJS: round trip", () => {
+  const list = decodeList(
+    'a;q=0.5, "str", :AQID:, ?0, @1659578233, (1 2.5);x, ("a" b)',
+  );
+  assertEquals(encodeList(fromJS(toJS(list), "list")), encodeList(list));
+
+  const dict = decodeDictionary("a=1, b;x=?0, c=(:AA==: :AAE=:);y=z");
+  assertEquals(
+    encodeDictionary(fromJS(toJS(dict), "dictionary")),
+    encodeDictionary(dict),
+  );
+});
+
+Deno.test("fromJS: numbers", () => {
+  assertEquals(fromJS(1, "item").value, new Integer(1));
+  assertEquals(fromJS(1.5, "item").value, new Decimal(1.5));
+  assertEquals(fromJS(1, "item", { numbers: "decimal" }).value, new Decimal(1));
+  assertThrows(
+    () => fromJS(1.5, "item", { numbers: "integer" }),
+    TypeError,
+    "value must be an integer",
+  );
+});
+
+Deno.test("fromJS: strings", () => {
+  assertEquals(fromJS("foo", "item").value, "foo");
+  assertEquals(
+    fromJS("foo", "item", { strings: "token" }).value,
+    new Token("foo"),
+  );
+  assertEquals(
+    fromJS("foo", "item", { strings: "auto" }).value,
+    new Token("foo"),
+  );
+  assertEquals(
+    fromJS("foo bar", "item", { strings: "auto" }).value,
+    "foo bar",
+  );
+  assertThrows(
+    () => fromJS("foo bar", "item", { strings: "token" }),
+    TypeError,
+    "token contains invalid characters",
+  );
+  assertThrows(
+    () => fromJS("füü", "item"),
+    TypeError,
+    "string contains invalid characters",
+  );
+  assertEquals(
+    encodeItem(fromJS({ value: "text/html", params: { q: 0.5 } }, "item", {
+      strings: "auto",
+    })),
+    "text/html;q=0.5",
+  );
+});
+
+Deno.test("fromJS: invalid", () => {
+  assertThrows(
+    () => fromJS({ a: null }, "dictionary"),
+    TypeError,
+    "invalid bare item",
+  );
+  assertThrows(
+    () => fromJS({}, "list"),
+    TypeError,
+    "list must be an array",
+  );
+  assertThrows(
+    () => fromJS({ "A": 1 }, "dictionary"),
+    TypeError,
+    "key contains invalid characters",
+  );
+});
@@ -0,0 +1,394 @@
+/**
+ * Conversion between Structured Field Values and plain JavaScript values.
+ *
+ * | Type of SFV   | Plain JavaScript value                 |
+ * | ------------- | -------------------------------------- |
+ * | Integer       | `number`                               |
+ * | Decimal       | `number`                               |
+ * | String        | `string`                               |
+ * | Token         | `{ token: string }`                    |
+ * | Byte Sequence | `Uint8Array`                           |
+ * | Boolean       | `boolean`                              |
+ * | Date          | `Date` or `SfDate`                     |
+ * | DisplayString | `{ displayString: string }`            |
+ * | Inner List    | array of items                         |
+ * | Parameters    | object                                 |
+ * | List          | array of items and inner lists         |
+ * | Dictionary    | object                                 |
+ *
+ * Items and inner lists that have parameters are represented by `{ value, params }`.
+ *
+ * ```typescript
+ * import { decodeDictionary } from "@shogo82148/sfv";
+ * import { fromJS, toJS } from "@shogo82148/sfv/plain";
+ *
+ * toJS(decodeDictionary('a=1, b="foo", c=bar;x, d=(1 2)'));
+ * // { a: 1, b: "foo", c: { value: { token: "bar" }, params: { x: true } }, d: [1, 2] }
+ * fromJS({ a: 1, b: { token: "bar" } }, "dictionary"); // a=1, b=bar
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type BareItem,
+  Decimal,
+  Dictionary,
+  DisplayString,
+  InnerList,
+  Integer,
+  Item,
+  type List,
+  Parameters,
+  SfDate,
+  Token,
+} from "./mod.ts";
+
+/**
+ * JSBareItem is the plain JavaScript representation of a bare item.
+ */
+export type JSBareItem =
+  | number
+  | string
+  | boolean
+  | Uint8Array
+  | Date
+  | SfDate
+  | { token: string }
+  | { displayString: string };
+
+/**
+ * JSParameters is the plain JavaScript representation of parameters.
+ */
+export type JSParameters = { [key: string]: JSBareItem };
+
+/**
+ * JSItem is the plain JavaScript representation of an item.
+ */
+export type JSItem = JSBareItem | { value: JSBareItem; params?: JSParameters };
+
+/**
+ * JSInnerList is the plain JavaScript representation of an inner list.
+ */
+export type JSInnerList = JSItem[] | { value: JSItem[]; params?: JSParameters };
+
+/**
+ * JSList is the plain JavaScript representation of a list.
+ */
+export type JSList = (JSItem | JSInnerList)[];
+
+/**
+ * JSDictionary is the plain JavaScript representation of a dictionary.
+ */
+export type JSDictionary = { [key: string]: JSItem | JSInnerList };
+
+/**
+ * toJS converts the value into the plain JavaScript representation.
+ *
+ * @param value the value to convert
+ * @returns the plain JavaScript representation
+ */
+export function toJS(value: Item): JSItem;
+export function toJS(value: InnerList): JSInnerList;
+export function toJS(value: List): JSList;
+export function toJS(value: Dictionary): JSDictionary;
+export function toJS(value: Parameters): JSParameters;
+export function toJS(
+  value: Item | InnerList | List | Dictionary | Parameters,
+): JSItem | JSInnerList | JSList | JSDictionary | JSParameters;
+export function toJS(
+  value: Item | InnerList | List | Dictionary | Parameters,
+): JSItem | JSInnerList | JSList | JSDictionary | JSParameters {
+  if (value instanceof Item) {
+    return itemToJS(value);
+  }
+  if (value instanceof InnerList) {
+    return innerListToJS(value);
+  }
+  if (value instanceof Dictionary) {
+    const result: JSDictionary = {};
+    for (const [key, member] of value) {
+      result[key] = memberToJS(member);
+    }
+    return result;
+  }
+  if (value instanceof Parameters) {
+    return parametersToJS(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(memberToJS);
+  }
+  throw new TypeError("unsupported value type");
+}
+
+function itemToJS(item: Item): JSItem {
+  const value = bareItemToJS(item.value);
+  if (item.parameters.size === 0) {
+    return value;
+  }
+  return { value, params: parametersToJS(item.parameters) };
+}
+
+function innerListToJS(list: InnerList): JSInnerList {
+  const value = list.items.map(itemToJS);
+  if (list.parameters.size === 0) {
+    return value;
+  }
+  return { value, params: parametersToJS(list.parameters) };
+}
+
+function memberToJS(member: Item | InnerList): JSItem | JSInnerList {
+  if (member instanceof Item) {
+    return itemToJS(member);
+  }
+  if (member instanceof InnerList) {
+    return innerListToJS(member);
+  }
+  throw new TypeError("unsupported value type");
+}
+
+function parametersToJS(params: Parameters): JSParameters {
+  const result: JSParameters = {};
+  for (const [key, value] of params) {
+    result[key] = bareItemToJS(value);
+  }
+  return result;
+}
+
+function bareItemToJS(value: BareItem): JSBareItem {
+  if (value instanceof Integer || value instanceof Decimal) {
+    return value.valueOf();
+  }
+  if (value instanceof Token) {
+    return { token: value.valueOf() };
+  }
+  if (value instanceof DisplayString) {
+    return { displayString: value.valueOf() };
+  }
+  return value;
+}
+
+/**
+ * FromJSOptions is the options for fromJS.
+ */
+export interface FromJSOptions {
+  /**
+   * numbers is the rule to convert numbers.
+   *
+   * - "auto": integral numbers are converted into Integers, and others are converted into Decimals.
+   * - "integer": all numbers are converted into Integers. Non-integral numbers are rejected.
+   * - "decimal": all numbers are converted into Decimals.
+   *
+   * The default is "auto".
+   */
+  numbers?: "auto" | "integer" | "decimal";
+
+  /**
+   * strings is the rule to convert strings.
+   *
+   * - "string": all strings are converted into Strings.
+   * - "token": all strings are converted into Tokens. Invalid tokens are rejected.
+   * - "auto": strings that are valid tokens are converted into Tokens, and others are converted into Strings.
+   *
+   * The default is "string".
+   */
+  strings?: "string" | "token" | "auto";
+}
+
+/**
+ * fromJS converts the plain JavaScript representation into the value.
+ * It throws TypeError if the value is not a valid representation.
+ *
+ * @param value the plain JavaScript representation
+ * @param type the type of the value
+ * @param options the rules of the conversion
+ * @returns the converted value
+ */
+export function fromJS(
+  value: JSItem,
+  type: "item",
+  options?: FromJSOptions,
+): Item;
+export function fromJS(
+  value: JSInnerList,
+  type: "inner-list",
+  options?: FromJSOptions,
+): InnerList;
+export function fromJS(
+  value: JSList,
+  type: "list",
+  options?: FromJSOptions,
+): List;
+export function fromJS(
+  value: JSDictionary,
+  type: "dictionary",
+  options?: FromJSOptions,
+): Dictionary;
+export function fromJS(
+  value: JSParameters,
+  type: "parameters",
+  options?: FromJSOptions,
+): Parameters;
+export function fromJS(
+  value: unknown,
+  type: "item" | "inner-list" | "list" | "dictionary" | "parameters",
+  options?: FromJSOptions,
+): Item | InnerList | List | Dictionary | Parameters;
+export function fromJS(
+  value: unknown,
+  type: "item" | "inner-list" | "list" | "dictionary" | "parameters",
+  options: FromJSOptions = {},
+): Item | InnerList | List | Dictionary | Parameters {
+  const converter = new Converter(options);
+  switch (type) {
+    case "item":
+      return converter.item(value);
+    case "inner-list":
+      return converter.innerList(value);
+    case "list":
+      if (!Array.isArray(value)) {
+        throw new TypeError("list must be an array");
+      }
+      return value.map((member) => converter.member(member));
+    case "dictionary": {
+      if (!isPlainObject(value)) {
+        throw new TypeError("dictionary must be an object");
+      }
+      const dict = new Dictionary();
+      for (const [key, member] of Object.entries(value)) {
+        dict.set(key, converter.member(member));
+      }
+      return dict;
+    }
+    case "parameters":
+      return converter.parameters(value);
+  }
+  throw new TypeError(`unsupported type: ${type}`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// isParameterized reports whether the value is `{ value, params }`.
+function isParameterized(
+  value: unknown,
+): value is { value: unknown; params?: unknown } {
+  return isPlainObject(value) && "value" in value;
+}
+
+function isToken(value: string): boolean {
+  return /^[a-zA-Z*][-0-9a-zA-Z!#$%&'*+.^_`|~:/]*$/.test(value);
+}
+
+class Converter {
+  constructor(private readonly options: FromJSOptions) {}
+
+  member(value: unknown): Item | InnerList {
+    if (
+      Array.isArray(value) ||
+      (isParameterized(value) && Array.isArray(value.value))
+    ) {
+      return this.innerList(value);
+    }
+    return this.item(value);
+  }
+
+  item(value: unknown): Item {
+    if (isParameterized(value)) {
+      return new Item(
+        this.bareItem(value.value),
+        this.parameters(value.params ?? {}),
+      );
+    }
+    return new Item(this.bareItem(value));
+  }
+
+  innerList(value: unknown): InnerList {
+    let items: unknown = value;
+    let params: unknown = {};
+    if (isParameterized(value)) {
+      items = value.value;
+      params = value.params ?? {};
+    }
+    if (!Array.isArray(items)) {
+      throw new TypeError("inner list must be an array");
+    }
+    return new InnerList(
+      items.map((item) => this.item(item)),
+      this.parameters(params),
+    );
+  }
+
+  parameters(value: unknown): Parameters {
+    if (!isPlainObject(value)) {
+      throw new TypeError("parameters must be an object");
+    }
+    const params = new Parameters();
+    for (const [key, v] of Object.entries(value)) {
+      params.set(key, this.bareItem(v));
+    }
+    return params;
+  }
+
+  bareItem(value: unknown): BareItem {
+    switch (typeof value) {
+      case "number":
+        return this.number(value);
+      case "string":
+        return this.string(value);
+      case "boolean":
+        return value;
+    }
+    if (
+      value instanceof Uint8Array || value instanceof Date ||
+      value instanceof SfDate
+    ) {
+      return value;
+    }
+    if (isPlainObject(value)) {
+      const keys = Object.keys(value);
+      if (
+        keys.length === 1 && keys[0] === "token" &&
+        typeof value.token === "string"
+      ) {
+        return new Token(value.token);
+      }
+      if (
+        keys.length === 1 && keys[0] === "displayString" &&
+        typeof value.displayString === "string"
+      ) {
+        return new DisplayString(value.displayString);
+      }
+    }
+    throw new TypeError("invalid bare item");
+  }
+
+  number(value: number): Integer | Decimal {
+    switch (this.options.numbers ?? "auto") {
+      case "integer":
+        return new Integer(value);
+      case "decimal":
+        return new Decimal(value);
+      default:
+        return Number.isInteger(value)
+          ? new Integer(value)
+          : new Decimal(value);
+    }
+  }
+
+  string(value: string): string | Token {
+    const rule = this.options.strings ?? "string";
+    if (rule === "token" || (rule === "auto" && isToken(value))) {
+      return new Token(value);
+    }
+    if (!/^[\x20-\x7e]*$/.test(value)) {
+      throw new TypeError("string contains invalid characters");
+    }
+    return value;
+  }
+}
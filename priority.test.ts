@@ -0,0 +1,95 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  Dictionary,
+  InnerList,
+  Integer,
+  Item,
+  Parameters,
+  Token,
+} from "./mod.ts";
+import { mergePriority, parsePriority, serializePriority } from "./priority.ts";
+
+Deno.test("priority: parse", () => {
+  assertEquals(parsePriority("u=5, i"), { urgency: 5, incremental: true });
+  assertEquals(parsePriority("i=?0"), { urgency: 3, incremental: false });
+  assertEquals(parsePriority(null), { urgency: 3, incremental: false });
+  assertEquals(parsePriority(""), { urgency: 3, incremental: false });
+
+  // the out-of-range or mistyped members are ignored.
+  assertEquals(parsePriority("u=8, i=1"), { urgency: 3, incremental: false });
+  assertEquals(parsePriority("u=-1"), { urgency: 3, incremental: false });
+  assertEquals(parsePriority("u=1.0, i=(?1)"), {
+    urgency: 3,
+    incremental: false,
+  });
+
+  // the invalid field is ignored.
+  assertEquals(parsePriority("u=1, i=?2"), { urgency: 3, incremental: false });
+
+  // the extensions are kept.
+  assertEquals(parsePriority("u=0, x=tok;p, y=(1 2)"), {
+    urgency: 0,
+    incremental: false,
+    extensions: new Dictionary([
+      ["x", new Item(new Token("tok"), new Parameters([["p", true]]))],
+      [
+        "y",
+        new InnerList([new Item(new Integer(1)), new Item(new Integer(2))]),
+      ],
+    ]),
+  });
+});
+
+Deno.test("priority: serialize", () => {
+  assertEquals(serializePriority({ urgency: 3, incremental: false }), "");
+  assertEquals(serializePriority({ urgency: 0, incremental: true }), "u=0, i");
+  assertEquals(
+    serializePriority(parsePriority("x=tok;p, u=7, i")),
+    "u=7, i, x=tok;p",
+  );
+  assertThrows(
+    () => serializePriority({ urgency: 8, incremental: false }),
+    RangeError,
+    "urgency must be an integer from 0 to 7",
+  );
+  assertThrows(
+    () =>
+      serializePriority({
+        urgency: 3,
+        incremental: false,
+        extensions: new Dictionary([["u", new Item(new Integer(1))]]),
+      }),
+    TypeError,
+    "extension member u is defined in RFC 9218",
+  );
+});
+
+Deno.test("priority: merge", () => {
+  // the members in the server's field override the client's ones.
+  assertEquals(mergePriority("u=5, i", "u=1"), {
+    urgency: 1,
+    incremental: true,
+  });
+  assertEquals(mergePriority("u=5", "i"), { urgency: 5, incremental: true });
+  assertEquals(mergePriority("u=5, i", "i=?0"), {
+    urgency: 5,
+    incremental: false,
+  });
+  assertEquals(mergePriority(null, "u=2"), { urgency: 2, incremental: false });
+  assertEquals(mergePriority("u=2", null), { urgency: 2, incremental: false });
+
+  // the invalid members of the server don't override the client's ones.
+  assertEquals(mergePriority("u=5", "u=10"), {
+    urgency: 5,
+    incremental: false,
+  });
+  assertEquals(mergePriority("u=5", "u=1, ?"), {
+    urgency: 5,
+    incremental: false,
+  });
+
+  assertEquals(
+    serializePriority(mergePriority("a=1, b=2", "b=3, c=4")),
+    "a=1, b=3, c=4",
+  );
+});
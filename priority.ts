@@ -0,0 +1,195 @@
+/**
+ * Helpers for the `Priority` field defined in RFC 9218.
+ *
+ * ```typescript
+ * import {
+ *   mergePriority,
+ *   parsePriority,
+ *   serializePriority,
+ * } from "@shogo82148/sfv/priority";
+ *
+ * parsePriority("u=5, i"); // { urgency: 5, incremental: true }
+ * parsePriority("u=9"); // { urgency: 3, incremental: false }
+ *
+ * // the server's priority overrides the client's.
+ * mergePriority("u=5, i", "u=1"); // { urgency: 1, incremental: true }
+ * serializePriority({ urgency: 1, incremental: true }); // "u=1, i"
+ * ```
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9218.html | RFC 9218}
+ * @module
+ */
+
+import {
+  decodeDictionary,
+  Dictionary,
+  encodeDictionary,
+  Integer,
+  Item,
+  SfvParseError,
+} from "./mod.ts";
+
+/**
+ * Priority is the priority of a response.
+ */
+export interface Priority {
+  /**
+   * urgency is the `u` parameter, from 0 (the highest) to 7 (the lowest).
+   * The default is 3.
+   */
+  urgency: number;
+
+  /**
+   * incremental is the `i` parameter.
+   * If it is true, the response can be processed incrementally.
+   * The default is false.
+   */
+  incremental: boolean;
+
+  /**
+   * extensions is the members other than `u` and `i`.
+   */
+  extensions?: Dictionary;
+}
+
+/**
+ * DEFAULT_URGENCY is the urgency when the `u` parameter is absent.
+ */
+export const DEFAULT_URGENCY = 3;
+
+// PriorityMembers is the valid members of the field.
+interface PriorityMembers {
+  urgency?: number;
+  incremental?: boolean;
+  extensions: Dictionary;
+}
+
+/**
+ * parsePriority parses the `Priority` field, and applies the defaults.
+ * As RFC 9218 requires, the invalid field and the out-of-range or mistyped members are ignored.
+ *
+ * @param field the value of the field. null or undefined means the field is absent.
+ * @returns the priority
+ */
+export function parsePriority(field: string | null | undefined): Priority {
+  const members = parseMembers(field);
+  return toPriority(
+    members.urgency,
+    members.incremental,
+    members.extensions,
+  );
+}
+
+/**
+ * serializePriority serializes the priority into the `Priority` field.
+ * The parameters that have the default values are omitted.
+ *
+ * @param priority the priority
+ * @returns the field value
+ * @throws RangeError if the urgency is not an integer from 0 to 7
+ */
+export function serializePriority(priority: Priority): string {
+  const { urgency, incremental, extensions } = priority;
+  if (!isUrgency(urgency)) {
+    throw new RangeError("urgency must be an integer from 0 to 7");
+  }
+  const dict = new Dictionary();
+  if (urgency !== DEFAULT_URGENCY) {
+    dict.set("u", new Item(new Integer(urgency)));
+  }
+  if (incremental) {
+    dict.set("i", new Item(true));
+  }
+  for (const [key, value] of extensions ?? []) {
+    if (key === "u" || key === "i") {
+      throw new TypeError(`extension member ${key} is defined in RFC 9218`);
+    }
+    dict.set(key, value);
+  }
+  return encodeDictionary(dict);
+}
+
+/**
+ * mergePriority combines the priority of the client's request and the server's response.
+ * The members in the server's field override the client's ones,
+ * and the members absent from the server's field keep the client's values.
+ *
+ * @param client the `Priority` field of the request. null or undefined means the field is absent.
+ * @param server the `Priority` field of the response. null or undefined means the field is absent.
+ * @returns the merged priority
+ */
+export function mergePriority(
+  client: string | null | undefined,
+  server: string | null | undefined,
+): Priority {
+  const c = parseMembers(client);
+  const s = parseMembers(server);
+  const extensions = new Dictionary(c.extensions);
+  for (const [key, value] of s.extensions) {
+    extensions.set(key, value);
+  }
+  return toPriority(
+    s.urgency ?? c.urgency,
+    s.incremental ?? c.incremental,
+    extensions,
+  );
+}
+
+// parseMembers returns the valid members of the field.
+function parseMembers(field: string | null | undefined): PriorityMembers {
+  const members: PriorityMembers = { extensions: new Dictionary() };
+  if (field === null || field === undefined) {
+    return members;
+  }
+
+  let dict: Dictionary;
+  try {
+    dict = decodeDictionary(field);
+  } catch (e) {
+    if (e instanceof SfvParseError) {
+      // ignore the invalid field.
+      return members;
+    }
+    throw e;
+  }
+
+  for (const [key, value] of dict) {
+    if (key === "u") {
+      const urgency = value instanceof Item ? value.getInteger() : undefined;
+      if (urgency !== undefined && isUrgency(urgency)) {
+        members.urgency = urgency;
+      }
+    } else if (key === "i") {
+      const incremental = value instanceof Item
+        ? value.getBoolean()
+        : undefined;
+      if (incremental !== undefined) {
+        members.incremental = incremental;
+      }
+    } else {
+      members.extensions.set(key, value);
+    }
+  }
+  return members;
+}
+
+// toPriority applies the defaults.
+function toPriority(
+  urgency: number | undefined,
+  incremental: boolean | undefined,
+  extensions: Dictionary,
+): Priority {
+  const priority: Priority = {
+    urgency: urgency ?? DEFAULT_URGENCY,
+    incremental: incremental ?? false,
+  };
+  if (extensions.size > 0) {
+    priority.extensions = extensions;
+  }
+  return priority;
+}
+
+// isUrgency reports whether the value is a valid urgency.
+function isUrgency(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= 7;
+}
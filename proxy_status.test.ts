@@ -0,0 +1,188 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { Integer, Parameters, SfvParseError, Token } from "./mod.ts";
+import { SchemaError } from "./schema.ts";
+import {
+  appendProxyStatus,
+  decodeProxyStatus,
+  encodeProxyStatus,
+  proxyErrorTypes,
+  type ProxyStatusEntry,
+} from "./proxy_status.ts";
+
+Deno.test("proxy-status: decode", () => {
+  assertEquals(
+    decodeProxyStatus(
+      'r34.example.net; error=http_response_timeout; received-status=504, ExampleCDN; next-hop="192.0.2.1"; next-protocol=h2',
+    ),
+    [
+      {
+        proxy: new Token("r34.example.net"),
+        error: "http_response_timeout",
+        receivedStatus: 504,
+      },
+      {
+        proxy: new Token("ExampleCDN"),
+        nextHop: "192.0.2.1",
+        nextProtocol: new Token("h2"),
+      },
+    ],
+  );
+  assertEquals(
+    decodeProxyStatus(
+      'ExampleCDN; error=dns_error; rcode="NXDOMAIN"; info-code=3; x-trace=abc',
+    ),
+    [{
+      proxy: new Token("ExampleCDN"),
+      error: "dns_error",
+      rcode: "NXDOMAIN",
+      infoCode: 3,
+      extensions: new Parameters([["x-trace", new Token("abc")]]),
+    }],
+  );
+  assertEquals(
+    decodeProxyStatus(
+      'a; error=tls_alert_received; alert-id=42; alert-message=bad_certificate; details="chain"',
+    ),
+    [{
+      proxy: new Token("a"),
+      error: "tls_alert_received",
+      alertId: 42,
+      alertMessage: new Token("bad_certificate"),
+      details: "chain",
+    }],
+  );
+  assertEquals(
+    decodeProxyStatus("a; error=http_response_content_coding; coding=br"),
+    [{
+      proxy: new Token("a"),
+      error: "http_response_content_coding",
+      coding: "br",
+    }],
+  );
+  assertEquals(decodeProxyStatus(""), []);
+
+  // the unregistered error types are kept.
+  assertEquals(decodeProxyStatus('a, b;error=oops;details="x"'), [
+    { proxy: new Token("a") },
+    { proxy: new Token("b"), error: "oops", details: "x" },
+  ]);
+  // their error-specific parameters are kept in extensions.
+  assertEquals(decodeProxyStatus('a;error=oops;rcode="NXDOMAIN";x=1'), [{
+    proxy: new Token("a"),
+    error: "oops",
+    extensions: new Parameters([["rcode", "NXDOMAIN"], ["x", new Integer(1)]]),
+  }]);
+});
+
+Deno.test("proxy-status: invalid", () => {
+  assertThrows(() => decodeProxyStatus("a;error="), SfvParseError);
+  assertThrows(
+    () => decodeProxyStatus('a;error="dns_error"'),
+    SchemaError,
+    "[0];error: must be a Token",
+  );
+  assertThrows(
+    () => decodeProxyStatus('a;error=dns_error;info-code="3"'),
+    SchemaError,
+    "[0];info-code: must be an Integer",
+  );
+  assertThrows(
+    () => decodeProxyStatus("a;next-protocol=1"),
+    SchemaError,
+    "[0];next-protocol: must be a Token or a Byte Sequence",
+  );
+  assertThrows(
+    () => decodeProxyStatus('a;error=dns_timeout;rcode="NXDOMAIN"'),
+    SchemaError,
+    "[0];rcode: is not a parameter of dns_timeout",
+  );
+  assertThrows(
+    () => decodeProxyStatus("a;body-size=10"),
+    SchemaError,
+    "[0];body-size: requires the error parameter",
+  );
+  assertThrows(
+    () => decodeProxyStatus("(a b)"),
+    SchemaError,
+    "[0]: expected an item, got an inner list",
+  );
+  assertThrows(
+    () => decodeProxyStatus("1;error=dns_timeout"),
+    SchemaError,
+    "[0]: the proxy identifier must be a Token or a String",
+  );
+});
+
+Deno.test("proxy-status: encode", () => {
+  const field =
+    'a;error=http_response_header_size;next-hop=origin;header-name="x-large";x=1, "Proxy B";next-protocol=:aDI=:;details="ok"';
+  assertEquals(encodeProxyStatus(decodeProxyStatus(field)), field);
+
+  // the defined parameters are serialized in order.
+  const entry: ProxyStatusEntry = {
+    proxy: "cdn",
+    extensions: new Parameters([["x", true]]),
+    bodySize: 1024,
+    receivedStatus: 200,
+    error: "http_response_body_size",
+  };
+  assertEquals(
+    encodeProxyStatus([entry]),
+    '"cdn";error=http_response_body_size;received-status=200;body-size=1024;x',
+  );
+
+  assertEquals(
+    encodeProxyStatus([{ proxy: "a", error: "oops", receivedStatus: 502 }]),
+    '"a";error=oops;received-status=502',
+  );
+  assertThrows(
+    () => encodeProxyStatus([{ proxy: "a", error: "oops", coding: "gzip" }]),
+    TypeError,
+    "coding is not a parameter of oops",
+  );
+  const unregistered = 'a;error=oops;rcode="NXDOMAIN"';
+  assertEquals(
+    encodeProxyStatus(decodeProxyStatus(unregistered)),
+    unregistered,
+  );
+  assertThrows(
+    () => encodeProxyStatus([{ proxy: "a", error: "dns_timeout", alertId: 1 }]),
+    TypeError,
+    "alert-id is not a parameter of dns_timeout",
+  );
+  assertThrows(
+    () => encodeProxyStatus([{ proxy: "a", coding: "gzip" }]),
+    TypeError,
+    "coding requires the error parameter",
+  );
+  assertThrows(
+    () =>
+      encodeProxyStatus([
+        { proxy: "a", extensions: new Parameters([["rcode", "x"]]) },
+      ]),
+    TypeError,
+    "extension parameter rcode is defined in RFC 9209",
+  );
+});
+
+Deno.test("proxy-status: append", () => {
+  const entry: ProxyStatusEntry = {
+    proxy: new Token("ExampleCDN"),
+    error: "connection_timeout",
+    nextHop: "origin.example.com",
+  };
+  const appended =
+    'ExampleCDN;error=connection_timeout;next-hop="origin.example.com"';
+  assertEquals(appendProxyStatus(undefined, entry), appended);
+  assertEquals(
+    appendProxyStatus("origin-lb; x-unknown=1", entry),
+    `origin-lb; x-unknown=1, ${appended}`,
+  );
+  assertThrows(() => appendProxyStatus("a,", entry), SfvParseError);
+});
+
+Deno.test("proxy-status: error types", () => {
+  assertEquals(proxyErrorTypes.size, 32);
+  assertEquals(proxyErrorTypes.get("dns_error"), ["rcode", "info-code"]);
+  assertEquals(proxyErrorTypes.get("proxy_loop_detected"), []);
+});
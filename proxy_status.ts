@@ -0,0 +1,553 @@
+/**
+ * Typed helpers for the `Proxy-Status` field defined in RFC 9209.
+ *
+ * ```typescript
+ * import { Token } from "@shogo82148/sfv";
+ * import {
+ *   appendProxyStatus,
+ *   decodeProxyStatus,
+ * } from "@shogo82148/sfv/proxy-status";
+ *
+ * // a proxy appends its own entry.
+ * const field = appendProxyStatus("origin-lb", {
+ *   proxy: new Token("ExampleCDN"),
+ *   error: "dns_error",
+ *   rcode: "NXDOMAIN",
+ *   nextHop: "origin.example.com",
+ * }); // 'origin-lb, ExampleCDN;error=dns_error;next-hop="origin.example.com";rcode="NXDOMAIN"'
+ *
+ * const entries = decodeProxyStatus(field);
+ * entries[1].error; // "dns_error"
+ * entries[1].rcode; // "NXDOMAIN"
+ * ```
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9209.html | RFC 9209}
+ * @module
+ */
+
+import {
+  type BareItem,
+  decodeList,
+  encodeList,
+  type InnerList,
+  Integer,
+  Item,
+  Parameters,
+  Token,
+} from "./mod.ts";
+import { appendMember, identifiedItem } from "./list_member.ts";
+import { SchemaError } from "./schema.ts";
+
+/**
+ * ProxyErrorType is the error type registered in the HTTP Proxy Error Types registry.
+ */
+export type ProxyErrorType =
+  | "dns_timeout"
+  | "dns_error"
+  | "destination_not_found"
+  | "destination_unavailable"
+  | "destination_ip_prohibited"
+  | "destination_ip_unroutable"
+  | "connection_refused"
+  | "connection_terminated"
+  | "connection_timeout"
+  | "connection_read_timeout"
+  | "connection_write_timeout"
+  | "connection_limit_reached"
+  | "tls_protocol_error"
+  | "tls_certificate_error"
+  | "tls_alert_received"
+  | "http_request_error"
+  | "http_request_denied"
+  | "http_response_incomplete"
+  | "http_response_header_section_size"
+  | "http_response_header_size"
+  | "http_response_body_size"
+  | "http_response_trailer_section_size"
+  | "http_response_trailer_size"
+  | "http_response_transfer_coding"
+  | "http_response_content_coding"
+  | "http_response_timeout"
+  | "http_upgrade_failed"
+  | "http_protocol_error"
+  | "proxy_internal_response"
+  | "proxy_internal_error"
+  | "proxy_configuration_error"
+  | "proxy_loop_detected";
+
+/**
+ * ProxyStatusEntry is a member of the `Proxy-Status` field,
+ * which describes how an intermediary handled the response.
+ */
+export interface ProxyStatusEntry {
+  /**
+   * proxy is the identifier of the intermediary.
+   */
+  proxy: Token | string;
+
+  /**
+   * error is the type of the error that the intermediary encountered.
+   * It is one of ProxyErrorType, or a type that isn't registered yet.
+   * The entries of the unregistered types have only the common parameters,
+   * and their other parameters are kept in extensions.
+   */
+  error?: string;
+
+  /**
+   * nextHop is the identity of the next hop server, e.g. its hostname or IP address.
+   */
+  nextHop?: Token | string;
+
+  /**
+   * nextProtocol is the ALPN protocol identifier used to connect to the next hop.
+   */
+  nextProtocol?: Token | Uint8Array;
+
+  /**
+   * receivedStatus is the status code that the next hop server returned.
+   */
+  receivedStatus?: number;
+
+  /**
+   * details is the implementation-specific information about the error.
+   */
+  details?: string;
+
+  /**
+   * rcode is the DNS RCODE of dns_error.
+   */
+  rcode?: string;
+
+  /**
+   * infoCode is the Extended DNS Error code of dns_error.
+   */
+  infoCode?: number;
+
+  /**
+   * alertId is the TLS alert number of tls_alert_received.
+   */
+  alertId?: number;
+
+  /**
+   * alertMessage is the TLS alert message of tls_alert_received.
+   */
+  alertMessage?: Token | string;
+
+  /**
+   * headerSectionSize is the header section size of http_response_header_section_size.
+   */
+  headerSectionSize?: number;
+
+  /**
+   * headerName is the name of the too large header field of http_response_header_size.
+   */
+  headerName?: string;
+
+  /**
+   * bodySize is the body size of http_response_body_size.
+   */
+  bodySize?: number;
+
+  /**
+   * trailerSectionSize is the trailer section size of http_response_trailer_section_size.
+   */
+  trailerSectionSize?: number;
+
+  /**
+   * trailerName is the name of the too large trailer field of http_response_trailer_size.
+   */
+  trailerName?: string;
+
+  /**
+   * coding is the coding of http_response_transfer_coding and http_response_content_coding.
+   */
+  coding?: string;
+
+  /**
+   * extensions is the parameters that aren't defined in RFC 9209.
+   * They are serialized after the defined parameters.
+   */
+  extensions?: Parameters;
+}
+
+// ParameterSpec maps a parameter into a property of ProxyStatusEntry.
+// The type of the parameter value determines the properties that it can map into.
+type ParameterSpec =
+  | {
+    key: string;
+    property:
+      | "receivedStatus"
+      | "infoCode"
+      | "alertId"
+      | "headerSectionSize"
+      | "bodySize"
+      | "trailerSectionSize";
+    type: "integer";
+  }
+  | {
+    key: string;
+    property: "details" | "rcode" | "headerName" | "trailerName";
+    type: "string";
+  }
+  | { key: string; property: "coding"; type: "token" }
+  | {
+    key: string;
+    property: "nextHop" | "alertMessage";
+    type: "token-or-string";
+  }
+  | { key: string; property: "nextProtocol"; type: "token-or-bytes" };
+
+// ParameterType is the type of the parameter value.
+type ParameterType = ParameterSpec["type"];
+
+// the parameters that any entries can have.
+const COMMON_PARAMETERS: readonly ParameterSpec[] = [
+  { key: "next-hop", property: "nextHop", type: "token-or-string" },
+  { key: "next-protocol", property: "nextProtocol", type: "token-or-bytes" },
+  { key: "received-status", property: "receivedStatus", type: "integer" },
+  { key: "details", property: "details", type: "string" },
+];
+
+const RCODE: ParameterSpec = {
+  key: "rcode",
+  property: "rcode",
+  type: "string",
+};
+const INFO_CODE: ParameterSpec = {
+  key: "info-code",
+  property: "infoCode",
+  type: "integer",
+};
+const ALERT_ID: ParameterSpec = {
+  key: "alert-id",
+  property: "alertId",
+  type: "integer",
+};
+const ALERT_MESSAGE: ParameterSpec = {
+  key: "alert-message",
+  property: "alertMessage",
+  type: "token-or-string",
+};
+const HEADER_SECTION_SIZE: ParameterSpec = {
+  key: "header-section-size",
+  property: "headerSectionSize",
+  type: "integer",
+};
+const HEADER_NAME: ParameterSpec = {
+  key: "header-name",
+  property: "headerName",
+  type: "string",
+};
+const BODY_SIZE: ParameterSpec = {
+  key: "body-size",
+  property: "bodySize",
+  type: "integer",
+};
+const TRAILER_SECTION_SIZE: ParameterSpec = {
+  key: "trailer-section-size",
+  property: "trailerSectionSize",
+  type: "integer",
+};
+const TRAILER_NAME: ParameterSpec = {
+  key: "trailer-name",
+  property: "trailerName",
+  type: "string",
+};
+const CODING: ParameterSpec = {
+  key: "coding",
+  property: "coding",
+  type: "token",
+};
+
+// the extra parameters of the error types.
+const ERROR_TYPES: Readonly<
+  Record<ProxyErrorType, readonly ParameterSpec[]>
+> = {
+  "dns_timeout": [],
+  "dns_error": [RCODE, INFO_CODE],
+  "destination_not_found": [],
+  "destination_unavailable": [],
+  "destination_ip_prohibited": [],
+  "destination_ip_unroutable": [],
+  "connection_refused": [],
+  "connection_terminated": [],
+  "connection_timeout": [],
+  "connection_read_timeout": [],
+  "connection_write_timeout": [],
+  "connection_limit_reached": [],
+  "tls_protocol_error": [],
+  "tls_certificate_error": [],
+  "tls_alert_received": [ALERT_ID, ALERT_MESSAGE],
+  "http_request_error": [],
+  "http_request_denied": [],
+  "http_response_incomplete": [],
+  "http_response_header_section_size": [HEADER_SECTION_SIZE],
+  "http_response_header_size": [HEADER_NAME],
+  "http_response_body_size": [BODY_SIZE],
+  "http_response_trailer_section_size": [TRAILER_SECTION_SIZE],
+  "http_response_trailer_size": [TRAILER_NAME],
+  "http_response_transfer_coding": [CODING],
+  "http_response_content_coding": [CODING],
+  "http_response_timeout": [],
+  "http_upgrade_failed": [],
+  "http_protocol_error": [],
+  "proxy_internal_response": [],
+  "proxy_internal_error": [],
+  "proxy_configuration_error": [],
+  "proxy_loop_detected": [],
+};
+
+// the parameters that only some error types can have.
+const ERROR_PARAMETERS: readonly ParameterSpec[] = [
+  RCODE,
+  INFO_CODE,
+  ALERT_ID,
+  ALERT_MESSAGE,
+  HEADER_SECTION_SIZE,
+  HEADER_NAME,
+  BODY_SIZE,
+  TRAILER_SECTION_SIZE,
+  TRAILER_NAME,
+  CODING,
+];
+
+// the parameters defined in RFC 9209.
+const KNOWN_PARAMETERS: ReadonlySet<string> = new Set([
+  "error",
+  ...COMMON_PARAMETERS.map((spec) => spec.key),
+  ...ERROR_PARAMETERS.map((spec) => spec.key),
+]);
+
+/**
+ * proxyErrorTypes maps the registered error types to the keys of their extra parameters.
+ */
+export const proxyErrorTypes: ReadonlyMap<ProxyErrorType, readonly string[]> =
+  new Map(
+    Object.keys(ERROR_TYPES).filter(isProxyErrorType).map((type) => [
+      type,
+      ERROR_TYPES[type].map((spec) => spec.key),
+    ]),
+  );
+
+/**
+ * decodeProxyStatus decodes the `Proxy-Status` field.
+ *
+ * @param input the field lines of the field
+ * @returns the entries in order, the closest to the origin first
+ * @throws SfvParseError if the field is not a valid List
+ * @throws SchemaError if the members don't match RFC 9209
+ */
+export function decodeProxyStatus(...input: string[]): ProxyStatusEntry[] {
+  return decodeList(...input).map((member, index) =>
+    toEntry(member, `[${index}]`)
+  );
+}
+
+/**
+ * encodeProxyStatus encodes the entries into the `Proxy-Status` field.
+ *
+ * @param entries the entries in order, the closest to the origin first
+ * @returns the encoded field value
+ * @throws TypeError if the parameters don't match the error type
+ */
+export function encodeProxyStatus(entries: ProxyStatusEntry[]): string {
+  return encodeList(entries.map(fromEntry));
+}
+
+/**
+ * appendProxyStatus appends the entry of the intermediary to the `Proxy-Status` field.
+ * An intermediary adds its entry after the entries of the intermediaries closer to the origin,
+ * e.g. to report the error it generated the response for.
+ * The entries that are already in the field are not re-encoded.
+ *
+ * @param field the value of the field in the response from the next hop, or null or undefined if it has no `Proxy-Status` field
+ * @param entry the entry of the intermediary
+ * @returns the new field value
+ * @throws SfvParseError if the current field is not a valid List
+ * @throws TypeError if the parameters of the entry don't match the error type
+ */
+export function appendProxyStatus(
+  field: string | null | undefined,
+  entry: ProxyStatusEntry,
+): string {
+  return appendMember(field, encodeProxyStatus([entry]));
+}
+
+// toEntry converts the member of the list into the entry.
+function toEntry(member: Item | InnerList, path: string): ProxyStatusEntry {
+  const [proxy, params] = identifiedItem(member, path, "proxy identifier");
+  const entry: ProxyStatusEntry = { proxy };
+  const error = params.get("error");
+  if (error !== undefined) {
+    if (!(error instanceof Token)) {
+      throw new SchemaError(`${path};error`, "must be a Token");
+    }
+    entry.error = error.toString();
+  }
+
+  const specs = parameterSpecs(entry.error);
+  for (const spec of specs) {
+    const value = params.get(spec.key);
+    if (value === undefined) {
+      continue;
+    }
+    if (!setParameter(entry, spec, value)) {
+      throw new SchemaError(
+        `${path};${spec.key}`,
+        `must be ${describeType(spec.type)}`,
+      );
+    }
+  }
+
+  const extensions: [string, BareItem][] = [];
+  for (const [key, value] of params) {
+    if (key === "error" || specs.some((spec) => spec.key === key)) {
+      continue;
+    }
+    if (!isExtensionKey(key, entry.error)) {
+      throw new SchemaError(`${path};${key}`, notAllowed(entry.error));
+    }
+    extensions.push([key, value]);
+  }
+  if (extensions.length > 0) {
+    entry.extensions = new Parameters(extensions);
+  }
+  return entry;
+}
+
+// fromEntry converts the entry into the member of the list.
+function fromEntry(entry: ProxyStatusEntry): Item {
+  const specs = parameterSpecs(entry.error);
+  for (const spec of ERROR_PARAMETERS) {
+    if (entry[spec.property] !== undefined && !specs.includes(spec)) {
+      throw new TypeError(`${spec.key} ${notAllowed(entry.error)}`);
+    }
+  }
+
+  const params = new Parameters();
+  if (entry.error !== undefined) {
+    params.set("error", new Token(entry.error));
+  }
+  for (const spec of specs) {
+    const value = getParameter(entry, spec);
+    if (value !== undefined) {
+      params.set(spec.key, value);
+    }
+  }
+  for (const [key, value] of entry.extensions ?? []) {
+    if (!isExtensionKey(key, entry.error)) {
+      throw new TypeError(`extension parameter ${key} is defined in RFC 9209`);
+    }
+    params.set(key, value);
+  }
+  return new Item(entry.proxy, params);
+}
+
+// parameterSpecs returns the parameters that the entry of the error type can have.
+function parameterSpecs(error: string | undefined): ParameterSpec[] {
+  if (error === undefined || !isProxyErrorType(error)) {
+    return [...COMMON_PARAMETERS];
+  }
+  return [...COMMON_PARAMETERS, ...ERROR_TYPES[error]];
+}
+
+// isProxyErrorType reports whether the error type is registered.
+function isProxyErrorType(error: string): error is ProxyErrorType {
+  return Object.hasOwn(ERROR_TYPES, error);
+}
+
+// isExtensionKey reports whether the parameter can be an extension of the entry of the error type.
+// The error-specific parameters of the unregistered types are extensions,
+// because a future registration may define them with the same names.
+function isExtensionKey(key: string, error: string | undefined): boolean {
+  if (!KNOWN_PARAMETERS.has(key)) {
+    return true;
+  }
+  return error !== undefined && !isProxyErrorType(error) &&
+    ERROR_PARAMETERS.some((spec) => spec.key === key);
+}
+
+// notAllowed returns the reason why the error-specific parameter is not allowed.
+function notAllowed(error: string | undefined): string {
+  if (error === undefined) {
+    return "requires the error parameter";
+  }
+  return `is not a parameter of ${error}`;
+}
+
+// setParameter converts the parameter value and sets it to the property.
+// It returns false if the type of the value doesn't match.
+function setParameter(
+  entry: ProxyStatusEntry,
+  spec: ParameterSpec,
+  value: BareItem,
+): boolean {
+  switch (spec.type) {
+    case "integer":
+      if (!(value instanceof Integer)) {
+        return false;
+      }
+      entry[spec.property] = value.valueOf();
+      return true;
+    case "string":
+      if (typeof value !== "string") {
+        return false;
+      }
+      entry[spec.property] = value;
+      return true;
+    case "token":
+      if (!(value instanceof Token)) {
+        return false;
+      }
+      entry[spec.property] = value.toString();
+      return true;
+    case "token-or-string":
+      if (!(value instanceof Token) && typeof value !== "string") {
+        return false;
+      }
+      entry[spec.property] = value;
+      return true;
+    case "token-or-bytes":
+      if (!(value instanceof Token) && !(value instanceof Uint8Array)) {
+        return false;
+      }
+      entry[spec.property] = value;
+      return true;
+  }
+}
+
+// getParameter converts the property value into the parameter value.
+// It returns undefined if the property is omitted.
+function getParameter(
+  entry: ProxyStatusEntry,
+  spec: ParameterSpec,
+): BareItem | undefined {
+  switch (spec.type) {
+    case "integer": {
+      const value = entry[spec.property];
+      return value === undefined ? undefined : new Integer(value);
+    }
+    case "token": {
+      const value = entry[spec.property];
+      return value === undefined ? undefined : new Token(value);
+    }
+    default:
+      return entry[spec.property];
+  }
+}
+
+// describeType returns the name of the type with an article.
+function describeType(type: ParameterType): string {
+  switch (type) {
+    case "integer":
+      return "an Integer";
+    case "string":
+      return "a String";
+    case "token":
+      return "a Token";
+    case "token-or-string":
+      return "a Token or a String";
+    case "token-or-bytes":
+      return "a Token or a Byte Sequence";
+  }
+}
@@ -0,0 +1,165 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  InnerList,
+  Integer,
+  Item,
+  Token,
+} from "./mod.ts";
+import { compileQuery } from "./query.ts";
+
+Deno.test("query: dictionary members and parameters", () => {
+  const dict = decodeDictionary(
+    'sig1=("@method" "@path");keyid="k1", sig2=("@query");keyid="k2"',
+  );
+  assertEquals(compileQuery("sig1;keyid").get(dict), "k1");
+  assertEquals(compileQuery("sig3;keyid").get(dict), undefined);
+  assertEquals(compileQuery("sig1[1]").evaluate(dict), [
+    { path: "sig1[1]", value: new Item("@path") },
+  ]);
+  assertEquals(compileQuery("[*];keyid").evaluate(dict), [
+    { path: "sig1;keyid", value: "k1" },
+    { path: "sig2;keyid", value: "k2" },
+  ]);
+  assertEquals(compileQuery("[-1];keyid").get(dict), "k2");
+});
+
+Deno.test("query: lists", () => {
+  const list = decodeList("a, (b c);x, d;q=0.5");
+  assertEquals(compileQuery("[1][0]").get(list), new Item(new Token("b")));
+  assertEquals(compileQuery("[1];x").evaluate(list), [
+    { path: "[1];x", value: true },
+  ]);
+  assertEquals(compileQuery("[5]").evaluate(list), []);
+  assertEquals(compileQuery("[*][*]").evaluate(list).map((m) => m.path), [
+    "[1][0]",
+    "[1][1]",
+  ]);
+  assertEquals(compileQuery("").evaluate(list), [{ path: "", value: list }]);
+});
+
+Deno.test("query: filters", () => {
+  const list = decodeList("gzip;q=0.8, br;q=0.2, zstd;q=1, x;q=tok, deflate");
+  const paths = (query: string) =>
+    compileQuery(query).evaluate(list).map((m) => m.path);
+  assertEquals(paths("[?;q > 0.5]"), ["[0]", "[2]"]);
+  assertEquals(paths("[?;q>=1]"), ["[2]"]);
+  assertEquals(paths("[?;q == 1.0]"), ["[2]"]);
+  assertEquals(paths("[?;q != 1]"), ["[0]", "[1]", "[3]"]);
+  assertEquals(paths("[?;q]"), ["[0]", "[1]", "[2]", "[3]"]);
+  assertEquals(paths("[?;q == tok]"), ["[3]"]);
+  assertEquals(paths("[?;q < tok]"), []);
+  assertEquals(paths("[?== br]"), ["[1]"]);
+  assertEquals(paths("[?;q > 0.5];q"), ["[0];q", "[2];q"]);
+
+  const dates = decodeList("a;t=@100, b;t=@200");
+  assertEquals(
+    compileQuery("[?;t > @150]").evaluate(dates).map((m) => m.path),
+    ["[1]"],
+  );
+  const strings = decodeList('"a]", "b"');
+  assertEquals(compileQuery('[?== "a]"]').get(strings), new Item("a]"));
+});
+
+Deno.test("query: set", () => {
+  const dict = decodeDictionary("a=1;x, b=(1 2)");
+  assertEquals(compileQuery("a;x").set(dict, new Integer(2)), 1);
+  assertEquals(compileQuery("a;y").set(dict, new Token("z")), 1);
+  assertEquals(compileQuery("c").set(dict, new Item(true)), 1);
+  assertEquals(compileQuery("b[*]").set(dict, new Item(new Integer(0))), 2);
+  assertEquals(encodeDictionary(dict), "a=1;x=2;y=z, b=(0 0), c");
+  // each location has its own copy of the value.
+  assertEquals(compileQuery("b[0];x").set(dict, true), 1);
+  assertEquals(encodeDictionary(dict), "a=1;x=2;y=z, b=(0;x 0), c");
+
+  const list = decodeList("a, b");
+  assertEquals(compileQuery("[-1]").set(list, new InnerList()), 1);
+  assertEquals(compileQuery("[5]").set(list, new InnerList()), 0);
+  assertEquals(encodeList(list), "a, ()");
+
+  assertThrows(
+    () => compileQuery("[0]").set(list, new Integer(1)),
+    TypeError,
+    "a member of a List or a Dictionary must be an Item or an Inner List",
+  );
+  assertThrows(
+    () => compileQuery("[1][0]").set(decodeList("a, (b)"), new InnerList()),
+    TypeError,
+    "a member of an Inner List must be an Item",
+  );
+  assertThrows(
+    () => compileQuery(";a").set(decodeItem("a"), new Item(true)),
+    TypeError,
+    "a parameter must be a bare item",
+  );
+  assertThrows(
+    () => compileQuery("").set(list, new Item(true)),
+    TypeError,
+    "the root can't be set",
+  );
+});
+
+Deno.test("query: delete", () => {
+  const list = decodeList("gzip;q=0.8, br;q=0.2, zstd;q=1, deflate");
+  assertEquals(compileQuery("[?;q < 1]").delete(list), 2);
+  assertEquals(encodeList(list), "zstd;q=1, deflate");
+  assertEquals(compileQuery("[*];q").delete(list), 1);
+  assertEquals(encodeList(list), "zstd, deflate");
+
+  const dict = decodeDictionary("a=(1 2 3), b=2");
+  assertEquals(compileQuery("a[*]").delete(dict), 3);
+  assertEquals(compileQuery("b").delete(dict), 1);
+  assertEquals(encodeDictionary(dict), "a=()");
+
+  const item = decodeItem("a;x;y");
+  assertEquals(compileQuery(";x").delete(item), 1);
+  assertEquals(encodeItem(item), "a;y");
+});
+
+Deno.test("query: syntax errors", () => {
+  assertThrows(
+    () => compileQuery("sig1;"),
+    SyntaxError,
+    "unexpected end of query at 5: expected a key",
+  );
+  assertThrows(
+    () => compileQuery("[x]"),
+    SyntaxError,
+    'unexpected character "x" at 1: expected an index or "*" or "?"',
+  );
+  assertThrows(
+    () => compileQuery("[0"),
+    SyntaxError,
+    'unexpected end of query at 2: expected "]"',
+  );
+  assertThrows(
+    () => compileQuery("a b"),
+    SyntaxError,
+    'unexpected character " " at 1',
+  );
+  assertThrows(
+    () => compileQuery("[?;q ~ 1]"),
+    SyntaxError,
+    'unexpected character "~" at 5',
+  );
+  assertThrows(
+    () => compileQuery("[?;q == ]"),
+    SyntaxError,
+    'unexpected character "]" at 8: expected a bare item',
+  );
+  assertThrows(
+    () => compileQuery("[?;q == (1)]"),
+    SyntaxError,
+    'invalid bare item "(1)" at 8',
+  );
+  assertThrows(
+    () => compileQuery("[?;q == 1;x]"),
+    SyntaxError,
+    "parameters are not allowed in filters at 8",
+  );
+});
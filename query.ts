@@ -0,0 +1,611 @@
+/**
+ * Path queries over Structured Field Values.
+ *
+ * ```typescript
+ * import { decodeDictionary, decodeList } from "@shogo82148/sfv";
+ * import { compileQuery } from "@shogo82148/sfv/query";
+ *
+ * const signature = decodeDictionary('sig1=("@method");keyid="k1"');
+ * compileQuery("sig1;keyid").get(signature); // "k1"
+ *
+ * const accept = decodeList("gzip;q=0.8, br;q=0.2, zstd");
+ * compileQuery("[?;q > 0.5]").evaluate(accept); // [{ path: "[0]", value: gzip;q=0.8 }]
+ * compileQuery("[*];q").delete(accept); // 2: accept is "gzip, br, zstd"
+ * ```
+ *
+ * A query is a sequence of steps:
+ *
+ * | Step        | Example         | Selects                                              |
+ * | ----------- | --------------- | ---------------------------------------------------- |
+ * | `key`       | `sig1`          | the member of a Dictionary. Only the first step.     |
+ * | `[n]`       | `[0]`, `[-1]`   | the n-th member of a List, Inner List or Dictionary  |
+ * | `[*]`       | `[*]`           | every member of a List, Inner List or Dictionary     |
+ * | `[?filter]` | `[?;q > 0.5]`   | the members that match the filter                    |
+ * | `;key`      | `;q`            | the parameter of an Item or Inner List               |
+ *
+ * A filter is a query relative to the member, optionally followed by
+ * a comparison operator (`==`, `!=`, `<`, `<=`, `>`, `>=`) and a bare item.
+ * The member matches if any value selected by the relative query satisfies the comparison,
+ * or if the relative query selects anything when the comparison is omitted.
+ * Items are compared by their bare items, e.g. `[?== gzip]` selects the Items whose value is the Token gzip.
+ *
+ * - Integers and Decimals are compared by their values.
+ * - Dates are compared in seconds.
+ * - The other bare items only support `==` and `!=`, and they are compared as `equals` of `@shogo82148/sfv/equal` does.
+ *
+ * @module
+ */
+
+import {
+  type BareItem,
+  Decimal,
+  decodeItem,
+  Dictionary,
+  InnerList,
+  Integer,
+  Item,
+  type List,
+  Parameters,
+  SfDate,
+  SfvParseError,
+} from "./mod.ts";
+import { equals } from "./equal.ts";
+
+/**
+ * QueryRoot is a value that queries are evaluated against.
+ */
+export type QueryRoot = List | Dictionary | InnerList | Item;
+
+/**
+ * QueryValue is a value that queries select.
+ */
+export type QueryValue = QueryRoot | BareItem;
+
+/**
+ * QueryMatch is a value selected by a query.
+ */
+export interface QueryMatch {
+  /**
+   * path is the location of the value, e.g. `sig1;keyid` or `[0][1]`.
+   * It is also a query that selects only the value.
+   */
+  path: string;
+
+  /**
+   * value is the selected value.
+   */
+  value: QueryValue;
+}
+
+// Operator is a comparison operator of filters.
+type Operator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+const OPERATORS: readonly Operator[] = ["==", "!=", "<=", ">=", "<", ">"];
+
+// Step is a step of compiled queries.
+type Step =
+  | { kind: "member"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "filter"; query: Step[]; operator?: Operator; operand?: BareItem }
+  | { kind: "parameter"; key: string };
+
+// Slot is where a selected value is stored.
+interface Slot {
+  container: List | InnerList | Dictionary | Parameters;
+  key: string | number;
+}
+
+// Found is a selected value with its slot. The root has no slot.
+interface Found {
+  path: string;
+  value: QueryValue;
+  slot?: Slot;
+}
+
+/**
+ * compileQuery compiles the query.
+ * It throws SyntaxError if the query is invalid.
+ *
+ * @param query the query, e.g. `sig1;keyid` or `[*];q`
+ * @returns the compiled query
+ */
+export function compileQuery(query: string): Query {
+  return new Query(query);
+}
+
+/**
+ * Query is a compiled query.
+ */
+export class Query {
+  /**
+   * source is the query that is compiled.
+   */
+  readonly source: string;
+
+  private readonly steps: Step[];
+
+  /**
+   * Create a new Query.
+   * It throws SyntaxError if the query is invalid.
+   *
+   * @param query the query, e.g. `sig1;keyid` or `[*];q`
+   */
+  constructor(query: string) {
+    this.source = query;
+    this.steps = new QueryParser(query).parse();
+  }
+
+  /**
+   * evaluate returns all the values selected by the query, in the order of the root.
+   *
+   * @param root the value to query
+   * @returns the selected values with their locations
+   */
+  evaluate(root: QueryRoot): QueryMatch[] {
+    const found = run({ path: "", value: root }, this.steps);
+    return found.map((f) => ({ path: f.path, value: f.value }));
+  }
+
+  /**
+   * get returns the first value selected by the query.
+   *
+   * @param root the value to query
+   * @returns the first selected value, or undefined if nothing is selected
+   */
+  get(root: QueryRoot): QueryValue | undefined {
+    return run({ path: "", value: root }, this.steps)[0]?.value;
+  }
+
+  /**
+   * set replaces the values selected by the query.
+   * If the last step is a key of a member or a parameter, the missing member or parameter is added.
+   * It throws TypeError if the value can't be stored in the location,
+   * e.g. a bare item as a member of a List.
+   * Each location gets its own copy of the value,
+   * so that changing one of them doesn't change the others.
+   *
+   * @param root the value to modify
+   * @param value the new value
+   * @returns the number of the replaced or added values
+   */
+  set(root: QueryRoot, value: Item | InnerList | BareItem): number {
+    const last = this.steps[this.steps.length - 1];
+    if (last === undefined) {
+      throw new TypeError("the root can't be set");
+    }
+    const parents = run({ path: "", value: root }, this.steps.slice(0, -1));
+    const slots: Slot[] = [];
+    for (const parent of parents) {
+      if (last.kind === "member") {
+        if (parent.value instanceof Dictionary) {
+          slots.push({ container: parent.value, key: last.key });
+        }
+      } else if (last.kind === "parameter") {
+        if (
+          parent.value instanceof Item || parent.value instanceof InnerList
+        ) {
+          slots.push({ container: parent.value.parameters, key: last.key });
+        }
+      } else {
+        for (const child of apply(parent, last)) {
+          if (child.slot !== undefined) {
+            slots.push(child.slot);
+          }
+        }
+      }
+    }
+    for (const slot of slots) {
+      store(slot, copy(value));
+    }
+    return slots.length;
+  }
+
+  /**
+   * delete removes the values selected by the query.
+   *
+   * @param root the value to modify
+   * @returns the number of the removed values
+   */
+  delete(root: QueryRoot): number {
+    if (this.steps.length === 0) {
+      throw new TypeError("the root can't be deleted");
+    }
+    const found = run({ path: "", value: root }, this.steps);
+
+    // remove from the last one, so that the indices of the others are kept.
+    let count = 0;
+    for (let i = found.length - 1; i >= 0; i--) {
+      const slot = found[i].slot;
+      if (slot === undefined) {
+        continue;
+      }
+      const { container, key } = slot;
+      if (Array.isArray(container)) {
+        container.splice(key as number, 1);
+      } else if (container instanceof InnerList) {
+        container.items.splice(key as number, 1);
+      } else {
+        container.delete(key as string);
+      }
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * toString returns the source of the query.
+   *
+   * @returns the source of the query
+   */
+  toString(): string {
+    return this.source;
+  }
+}
+
+// run applies the steps to the value.
+function run(start: Found, steps: Step[]): Found[] {
+  let found = [start];
+  for (const step of steps) {
+    found = found.flatMap((f) => apply(f, step));
+  }
+  return found;
+}
+
+// apply applies the step to the value.
+function apply(found: Found, step: Step): Found[] {
+  const value = found.value;
+  switch (step.kind) {
+    case "member": {
+      if (!(value instanceof Dictionary)) {
+        return [];
+      }
+      const member = value.get(step.key);
+      if (member === undefined) {
+        return [];
+      }
+      return [{
+        path: found.path + step.key,
+        value: member,
+        slot: { container: value, key: step.key },
+      }];
+    }
+    case "index": {
+      const all = members(found);
+      const index = step.index < 0 ? all.length + step.index : step.index;
+      return index >= 0 && index < all.length ? [all[index]] : [];
+    }
+    case "wildcard":
+      return members(found);
+    case "filter":
+      return members(found).filter((member) => test(member, step));
+    case "parameter": {
+      if (!(value instanceof Item || value instanceof InnerList)) {
+        return [];
+      }
+      const param = value.parameters.get(step.key);
+      if (param === undefined) {
+        return [];
+      }
+      return [{
+        path: `${found.path};${step.key}`,
+        value: param,
+        slot: { container: value.parameters, key: step.key },
+      }];
+    }
+  }
+}
+
+// members returns the members of Lists, Inner Lists and Dictionaries.
+function members(found: Found): Found[] {
+  const value = found.value;
+  if (Array.isArray(value)) {
+    return value.map((member, i) => ({
+      path: `${found.path}[${i}]`,
+      value: member,
+      slot: { container: value, key: i },
+    }));
+  }
+  if (value instanceof InnerList) {
+    return value.items.map((item, i) => ({
+      path: `${found.path}[${i}]`,
+      value: item,
+      slot: { container: value, key: i },
+    }));
+  }
+  if (value instanceof Dictionary) {
+    return [...value].map(([key, member]) => ({
+      path: found.path + key,
+      value: member,
+      slot: { container: value, key },
+    }));
+  }
+  return [];
+}
+
+// test reports whether the member matches the filter.
+function test(member: Found, filter: Step & { kind: "filter" }): boolean {
+  const found = run({ path: "", value: member.value }, filter.query);
+  const { operator, operand } = filter;
+  if (operator === undefined || operand === undefined) {
+    return found.length > 0;
+  }
+  return found.some(({ value }) =>
+    compare(value instanceof Item ? value.value : value, operator, operand)
+  );
+}
+
+// compare compares the value with the operand of the filter.
+function compare(
+  value: QueryValue,
+  operator: Operator,
+  operand: BareItem,
+): boolean {
+  let order: number | undefined = undefined;
+  if (isNumber(value) && isNumber(operand)) {
+    order = Math.sign(value.valueOf() - operand.valueOf());
+  } else if (isDate(value) && isDate(operand)) {
+    order = Math.sign(dateSeconds(value) - dateSeconds(operand));
+  }
+  if (order === undefined) {
+    const equal = isBareItem(value) && equals(value, operand);
+    switch (operator) {
+      case "==":
+        return equal;
+      case "!=":
+        return !equal;
+      default:
+        return false;
+    }
+  }
+  switch (operator) {
+    case "==":
+      return order === 0;
+    case "!=":
+      return order !== 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+  }
+}
+
+function isNumber(value: QueryValue): value is Integer | Decimal {
+  return value instanceof Integer || value instanceof Decimal;
+}
+
+function isDate(value: QueryValue): value is Date | SfDate {
+  return value instanceof Date || value instanceof SfDate;
+}
+
+// dateSeconds returns the seconds of the date, as it is serialized.
+function dateSeconds(date: Date | SfDate): number {
+  if (date instanceof SfDate) {
+    return date.valueOf();
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+function isBareItem(value: QueryValue): value is BareItem {
+  return !(Array.isArray(value) || value instanceof Dictionary ||
+    value instanceof InnerList || value instanceof Item);
+}
+
+// store stores the value in the slot.
+// copy returns a deep copy of the value.
+function copy<T extends Item | InnerList | BareItem>(value: T): T;
+function copy(value: Item | InnerList | BareItem): Item | InnerList | BareItem {
+  if (value instanceof Item) {
+    return new Item(copy(value.value), copyParameters(value.parameters));
+  }
+  if (value instanceof InnerList) {
+    return new InnerList(
+      value.items.map((item) => copy(item)),
+      copyParameters(value.parameters),
+    );
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (value instanceof Uint8Array) {
+    return value.slice();
+  }
+  // the other bare items are immutable.
+  return value;
+}
+
+// copyParameters returns a deep copy of the parameters.
+function copyParameters(params: Parameters): Parameters {
+  return new Parameters([...params].map(([key, value]) => [key, copy(value)]));
+}
+
+function store(slot: Slot, value: Item | InnerList | BareItem): void {
+  const { container, key } = slot;
+  if (container instanceof Parameters) {
+    if (value instanceof Item || value instanceof InnerList) {
+      throw new TypeError("a parameter must be a bare item");
+    }
+    container.set(key as string, value);
+    return;
+  }
+  if (container instanceof InnerList) {
+    if (!(value instanceof Item)) {
+      throw new TypeError("a member of an Inner List must be an Item");
+    }
+    container.items[key as number] = value;
+    return;
+  }
+  if (!(value instanceof Item || value instanceof InnerList)) {
+    throw new TypeError(
+      "a member of a List or a Dictionary must be an Item or an Inner List",
+    );
+  }
+  if (container instanceof Dictionary) {
+    container.set(key as string, value);
+  } else {
+    container[key as number] = value;
+  }
+}
+
+const KEY = /[a-z*][a-z0-9_\-.*]*/y;
+const INDEX = /-?[0-9]+/y;
+
+// QueryParser parses queries.
+class QueryParser {
+  private readonly input: string;
+  private pos = 0;
+
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  // parse parses the whole query.
+  parse(): Step[] {
+    const steps: Step[] = [];
+    KEY.lastIndex = this.pos;
+    if (KEY.test(this.input)) {
+      steps.push({ kind: "member", key: this.parseKey() });
+    }
+    steps.push(...this.parseRelative());
+    if (this.pos < this.input.length) {
+      this.errUnexpectedCharacter();
+    }
+    return steps;
+  }
+
+  // parseRelative parses the steps except members of Dictionaries.
+  parseRelative(): Step[] {
+    const steps: Step[] = [];
+    for (;;) {
+      const ch = this.input[this.pos];
+      if (ch === ";") {
+        this.pos++;
+        steps.push({ kind: "parameter", key: this.parseKey() });
+      } else if (ch === "[") {
+        this.pos++;
+        steps.push(this.parseBracket());
+      } else {
+        return steps;
+      }
+    }
+  }
+
+  // parseBracket parses the step in the brackets after "[".
+  parseBracket(): Step {
+    let step: Step;
+    const ch = this.input[this.pos];
+    if (ch === "*") {
+      this.pos++;
+      step = { kind: "wildcard" };
+    } else if (ch === "?") {
+      this.pos++;
+      step = this.parseFilter();
+    } else {
+      INDEX.lastIndex = this.pos;
+      const match = INDEX.exec(this.input);
+      if (match === null) {
+        this.errUnexpectedCharacter("an index", '"*"', '"?"');
+      }
+      this.pos += match[0].length;
+      step = { kind: "index", index: Number.parseInt(match[0], 10) };
+    }
+    if (this.input[this.pos] !== "]") {
+      this.errUnexpectedCharacter('"]"');
+    }
+    this.pos++;
+    return step;
+  }
+
+  // parseFilter parses the filter after "[?".
+  parseFilter(): Step {
+    const query = this.parseRelative();
+    this.skipSPs();
+    if (this.input[this.pos] === "]") {
+      return { kind: "filter", query };
+    }
+    const operator = OPERATORS.find((op) =>
+      this.input.startsWith(op, this.pos)
+    );
+    if (operator === undefined) {
+      this.errUnexpectedCharacter('"["', '";"', "an operator", '"]"');
+    }
+    this.pos += operator.length;
+    this.skipSPs();
+    return { kind: "filter", query, operator, operand: this.parseOperand() };
+  }
+
+  // parseOperand parses the bare item in the filter.
+  parseOperand(): BareItem {
+    // find the end of the filter. "]" may be in a string.
+    const start = this.pos;
+    let quoted = false;
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos];
+      if (quoted && ch === "\\") {
+        this.pos++;
+      } else if (ch === '"') {
+        quoted = !quoted;
+      } else if (!quoted && ch === "]") {
+        break;
+      }
+      this.pos++;
+    }
+    const text = this.input.slice(start, this.pos).trimEnd();
+    if (text === "") {
+      this.pos = start;
+      this.errUnexpectedCharacter("a bare item");
+    }
+    let item: Item;
+    try {
+      item = decodeItem(text);
+    } catch (e) {
+      if (e instanceof SfvParseError) {
+        throw new SyntaxError(
+          `invalid bare item ${JSON.stringify(text)} at ${start}`,
+          { cause: e },
+        );
+      }
+      throw e;
+    }
+    if (item.parameters.size > 0) {
+      throw new SyntaxError(
+        `parameters are not allowed in filters at ${start}`,
+      );
+    }
+    return item.value;
+  }
+
+  // parseKey parses a key of a member or a parameter.
+  parseKey(): string {
+    KEY.lastIndex = this.pos;
+    const match = KEY.exec(this.input);
+    if (match === null) {
+      this.errUnexpectedCharacter("a key");
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  skipSPs(): void {
+    while (this.input[this.pos] === " ") {
+      this.pos++;
+    }
+  }
+
+  errUnexpectedCharacter(...expected: string[]): never {
+    const ch = this.input.codePointAt(this.pos);
+    let message = ch === undefined
+      ? `unexpected end of query at ${this.pos}`
+      : `unexpected character ${
+        JSON.stringify(String.fromCodePoint(ch))
+      } at ${this.pos}`;
+    if (expected.length > 0) {
+      message += `: expected ${expected.join(" or ")}`;
+    }
+    throw new SyntaxError(message);
+  }
+}
@@ -0,0 +1,133 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { Dictionary, Integer, Item, SfvParseError, Token } from "./mod.ts";
+import {
+  decodeRetrofitField,
+  encodeRetrofitField,
+  parseHTTPDate,
+  retrofitType,
+} from "./retrofit.ts";
+
+Deno.test("retrofitType", () => {
+  assertEquals(retrofitType("Cache-Control"), "dictionary");
+  assertEquals(retrofitType("content-length"), "list");
+  assertEquals(retrofitType("Access-Control-Max-Age"), "item");
+  assertEquals(retrofitType("Last-Modified"), "item");
+  assertEquals(retrofitType("Last-Modified-SF"), "item");
+  assertEquals(retrofitType("X-Unknown"), undefined);
+});
+
+Deno.test("decodeRetrofitField: compatible fields", () => {
+  const cacheControl = decodeRetrofitField(
+    "Cache-Control",
+    "max-age=3600, must-revalidate",
+  );
+  assertEquals(
+    cacheControl,
+    new Dictionary([
+      ["max-age", new Item(new Integer(3600))],
+      ["must-revalidate", new Item(true)],
+    ]),
+  );
+
+  const vary = decodeRetrofitField("Vary", "Accept-Encoding", "Origin");
+  assertEquals(vary, [
+    new Item(new Token("Accept-Encoding")),
+    new Item(new Token("Origin")),
+  ]);
+
+  const contentLength = decodeRetrofitField("Content-Length", "42");
+  assertEquals(contentLength, [new Item(new Integer(42))]);
+
+  assertEquals(decodeRetrofitField("X-Unknown", "foo"), undefined);
+});
+
+Deno.test("decodeRetrofitField: incompatible values", () => {
+  // Retry-After is compatible only if it is delay-seconds.
+  assertThrows(
+    () => decodeRetrofitField("Retry-After", "Wed, 21 Oct 2015 07:28:00 GMT"),
+    SyntaxError,
+  );
+});
+
+Deno.test("decodeRetrofitField: mapped fields", () => {
+  const lastModified = decodeRetrofitField(
+    "Last-Modified",
+    "Sun, 06 Nov 1994 08:49:37 GMT",
+  );
+  assertEquals(lastModified, new Item(new Date(784111777000)));
+
+  const location = decodeRetrofitField("Location", "/foo?bar=baz");
+  assertEquals(location, new Item("/foo?bar=baz"));
+
+  const mapped = decodeRetrofitField("Last-Modified-SF", "@784111777");
+  assertEquals(mapped, new Item(new Date(784111777000)));
+
+  assertThrows(
+    () => decodeRetrofitField("Expires", "0"),
+    SfvParseError,
+    "invalid HTTP-date at 0",
+  );
+  const err = assertThrows(
+    () => decodeRetrofitField("Location", " /foo bar"),
+    SfvParseError,
+    "Location contains invalid characters at 5",
+  );
+  assertEquals(err.character, " ");
+  assertThrows(
+    () => decodeRetrofitField("Date", "Sun, 06 Nov 1994 08:49:37 GMT", "x"),
+    SfvParseError,
+    "Date must have exactly one field line at 0 in field line 1",
+  );
+});
+
+Deno.test("encodeRetrofitField", () => {
+  assertEquals(
+    encodeRetrofitField("Last-Modified", new Item(new Date(784111777000))),
+    { name: "Last-Modified-SF", value: "@784111777" },
+  );
+  assertEquals(
+    encodeRetrofitField("Location", new Item("/foo")),
+    { name: "Location-SF", value: '"/foo"' },
+  );
+  assertEquals(
+    encodeRetrofitField("Vary", [new Item(new Token("Origin"))]),
+    { name: "Vary", value: "Origin" },
+  );
+  assertThrows(
+    () => encodeRetrofitField("Vary", new Item(new Token("Origin"))),
+    TypeError,
+    "Vary must be a List",
+  );
+  assertThrows(
+    () => encodeRetrofitField("X-Unknown", new Item(true)),
+    TypeError,
+    "X-Unknown is not a retrofitted field",
+  );
+});
+
+Deno.test("parseHTTPDate", () => {
+  const want = new Date(784111777000);
+  assertEquals(parseHTTPDate("Sun, 06 Nov 1994 08:49:37 GMT"), want);
+  assertEquals(parseHTTPDate("Sunday, 06-Nov-94 08:49:37 GMT"), want);
+  assertEquals(parseHTTPDate("Sun Nov  6 08:49:37 1994"), want);
+  assertThrows(
+    () => parseHTTPDate("Sun, 30 Feb 1994 08:49:37 GMT"),
+    SfvParseError,
+    "invalid HTTP-date at 0",
+  );
+  // years below 100 are not shifted into the 1900s.
+  assertEquals(
+    parseHTTPDate("Sun, 06 Nov 0050 08:49:37 GMT"),
+    new Date("0050-11-06T08:49:37Z"),
+  );
+  assertThrows(() => parseHTTPDate("Sun, 30 Feb 0050 08:49:37 GMT"));
+  // leap seconds roll over into the next minute, but not on invalid days.
+  assertEquals(
+    parseHTTPDate("Wed, 31 Dec 2008 23:59:60 GMT"),
+    new Date("2009-01-01T00:00:00Z"),
+  );
+  assertThrows(() => parseHTTPDate("Tue, 30 Feb 2021 23:59:60 GMT"));
+  assertThrows(() => parseHTTPDate("Fri, 31 Apr 2021 12:00:60 GMT"));
+  assertThrows(() => parseHTTPDate("Foo, 06 Nov 1994 08:49:37 GMT"));
+  assertThrows(() => parseHTTPDate("Sun, 06 Nov 1994 08:49:37 JST"));
+});
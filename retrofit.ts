@@ -0,0 +1,376 @@
+/**
+ * Retrofit Structured Fields for HTTP.
+ *
+ * Some of existing HTTP fields can be parsed as Structured Fields,
+ * and others can be mapped into new Structured Fields that have the `-SF` suffix.
+ * See https://datatracker.ietf.org/doc/draft-ietf-httpbis-retrofit/ for details.
+ *
+ * ```typescript
+ * import { decodeRetrofitField, encodeRetrofitField } from "@shogo82148/sfv/retrofit";
+ *
+ * const value = decodeRetrofitField("Last-Modified", "Sun, 06 Nov 1994 08:49:37 GMT");
+ * encodeRetrofitField("Last-Modified", value!); // { name: "Last-Modified-SF", value: "@784111777" }
+ * ```
+ *
+ * @module
+ */
+
+import {
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  Dictionary,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  Item,
+  type List,
+  SfvParseError,
+} from "./mod.ts";
+
+/**
+ * StructuredType is the top-level type of a Structured Field.
+ */
+export type StructuredType = "list" | "dictionary" | "item";
+
+/**
+ * compatibleFields is the list of existing fields that can be parsed as Structured Fields.
+ * The keys are lowercase field names.
+ * See draft-ietf-httpbis-retrofit Section 2.
+ */
+export const compatibleFields: ReadonlyMap<string, StructuredType> = new Map<
+  string,
+  StructuredType
+>([
+  ["accept", "list"],
+  ["accept-encoding", "list"],
+  ["accept-language", "list"],
+  ["accept-patch", "list"],
+  ["accept-post", "list"],
+  ["accept-ranges", "list"],
+  ["access-control-allow-credentials", "item"],
+  ["access-control-allow-headers", "list"],
+  ["access-control-allow-methods", "list"],
+  ["access-control-allow-origin", "item"],
+  ["access-control-expose-headers", "list"],
+  ["access-control-max-age", "item"],
+  ["access-control-request-headers", "list"],
+  ["access-control-request-method", "item"],
+  ["age", "item"],
+  ["allow", "list"],
+  ["alpn", "list"],
+  ["alt-svc", "dictionary"],
+  ["alt-used", "item"],
+  ["cache-control", "dictionary"],
+  ["cdn-loop", "list"],
+  ["clear-site-data", "list"],
+  ["connection", "list"],
+  ["content-encoding", "list"],
+  ["content-language", "list"],
+  ["content-length", "list"],
+  ["content-type", "item"],
+  ["cross-origin-resource-policy", "item"],
+  ["dnt", "item"],
+  ["expect", "dictionary"],
+  ["expect-ct", "dictionary"],
+  ["host", "item"],
+  ["keep-alive", "dictionary"],
+  ["max-forwards", "item"],
+  ["origin", "item"],
+  ["pragma", "dictionary"],
+  ["prefer", "dictionary"],
+  ["preference-applied", "dictionary"],
+  ["retry-after", "item"],
+  ["sec-websocket-extensions", "list"],
+  ["sec-websocket-protocol", "list"],
+  ["sec-websocket-version", "item"],
+  ["server-timing", "list"],
+  ["surrogate-control", "dictionary"],
+  ["te", "list"],
+  ["timing-allow-origin", "list"],
+  ["trailer", "list"],
+  ["transfer-encoding", "list"],
+  ["upgrade-insecure-requests", "item"],
+  ["vary", "list"],
+  ["x-content-type-options", "item"],
+  ["x-frame-options", "item"],
+  ["x-xss-protection", "list"],
+]);
+
+/**
+ * MappedField describes an existing field that is mapped into a new Structured Field.
+ */
+export interface MappedField {
+  /**
+   * name is the name of the mapped field.
+   */
+  name: string;
+
+  /**
+   * type is the type of the value.
+   * URI references are mapped into Strings, and HTTP-dates are mapped into Dates.
+   */
+  type: "uri" | "date";
+}
+
+/**
+ * mappedFields is the list of existing fields that can be mapped into Structured Fields.
+ * The keys are lowercase field names. The values of the mapped fields are Items.
+ * See draft-ietf-httpbis-retrofit Section 3.
+ *
+ * The mappings of Cookie and Set-Cookie are out of scope:
+ * they map cookies into Lists of Inner Lists with typed attributes, not into Items.
+ */
+export const mappedFields: ReadonlyMap<string, MappedField> = new Map<
+  string,
+  MappedField
+>([
+  ["content-location", { name: "Content-Location-SF", type: "uri" }],
+  ["location", { name: "Location-SF", type: "uri" }],
+  ["referer", { name: "Referer-SF", type: "uri" }],
+  ["date", { name: "Date-SF", type: "date" }],
+  ["expires", { name: "Expires-SF", type: "date" }],
+  ["if-modified-since", { name: "If-Modified-Since-SF", type: "date" }],
+  ["if-unmodified-since", { name: "If-Unmodified-Since-SF", type: "date" }],
+  ["last-modified", { name: "Last-Modified-SF", type: "date" }],
+]);
+
+const mappedFieldNames = new Set(
+  [...mappedFields.values()].map((field) => field.name.toLowerCase()),
+);
+
+/**
+ * retrofitType returns the top-level type of the field.
+ * Both of the existing field names and the mapped field names are accepted.
+ *
+ * @param name the field name
+ * @returns the top-level type, or undefined if the field is not retrofitted
+ */
+export function retrofitType(name: string): StructuredType | undefined {
+  const key = name.toLowerCase();
+  const type = compatibleFields.get(key);
+  if (type !== undefined) {
+    return type;
+  }
+  if (mappedFields.has(key) || mappedFieldNames.has(key)) {
+    return "item";
+  }
+  return undefined;
+}
+
+/**
+ * decodeRetrofitField decodes the value of an existing field.
+ *
+ * The compatible fields are decoded as Structured Fields.
+ * The values of the mapped fields are converted into Items in accordance with the mapping:
+ * HTTP-dates are converted into Dates, and URI references are converted into Strings.
+ * The mapped field names, e.g. `Last-Modified-SF`, are decoded as Items.
+ * It throws SfvParseError if the value is not valid, in both cases.
+ *
+ * @param name the field name
+ * @param input the field lines
+ * @returns the decoded value, or undefined if the field is not retrofitted
+ */
+export function decodeRetrofitField(
+  name: string,
+  ...input: string[]
+): List | Dictionary | Item | undefined {
+  const key = name.toLowerCase();
+  const mapped = mappedFields.get(key);
+  if (mapped !== undefined) {
+    // the mapped fields are singletons.
+    if (input.length !== 1) {
+      throw new SfvParseError(`${name} must have exactly one field line`, {
+        input,
+        line: input.length === 0 ? 0 : 1,
+        offset: 0,
+        character: input[1]?.[0],
+      });
+    }
+    const value = input[0].trim();
+    switch (mapped.type) {
+      case "date":
+        return new Item(parseHTTPDate(value));
+      case "uri": {
+        const start = input[0].length - input[0].trimStart().length;
+        const invalid = value === "" ? 0 : value.search(/[^\x21-\x7e]/);
+        if (invalid >= 0) {
+          throw new SfvParseError(`${name} contains invalid characters`, {
+            input,
+            line: 0,
+            offset: start + invalid,
+            character: value[invalid],
+          });
+        }
+        return new Item(value);
+      }
+    }
+  }
+
+  switch (retrofitType(key)) {
+    case "list":
+      return decodeList(...input);
+    case "dictionary":
+      return decodeDictionary(...input);
+    case "item":
+      return decodeItem(...input);
+  }
+  return undefined;
+}
+
+/**
+ * EncodedField is a field name and its serialized value.
+ */
+export interface EncodedField {
+  name: string;
+  value: string;
+}
+
+/**
+ * encodeRetrofitField serializes the value decoded by decodeRetrofitField.
+ * The mapped fields are emitted with their mapped names, e.g. `Last-Modified-SF`.
+ *
+ * @param name the field name
+ * @param value the value to serialize
+ * @returns the field name and the serialized value
+ */
+export function encodeRetrofitField(
+  name: string,
+  value: List | Dictionary | Item,
+): EncodedField {
+  const key = name.toLowerCase();
+  const mapped = mappedFields.get(key);
+  const type = retrofitType(key);
+  if (type === undefined) {
+    throw new TypeError(`${name} is not a retrofitted field`);
+  }
+  switch (type) {
+    case "list":
+      if (!Array.isArray(value)) {
+        throw new TypeError(`${name} must be a List`);
+      }
+      return { name, value: encodeList(value) };
+    case "dictionary":
+      if (!(value instanceof Dictionary)) {
+        throw new TypeError(`${name} must be a Dictionary`);
+      }
+      return { name, value: encodeDictionary(value) };
+    case "item":
+      if (!(value instanceof Item)) {
+        throw new TypeError(`${name} must be an Item`);
+      }
+      return { name: mapped?.name ?? name, value: encodeItem(value) };
+  }
+}
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const LONG_DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+const MONTH_NAMES = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * parseHTTPDate parses an HTTP-date defined in RFC 9110 Section 5.6.7.
+ * All of IMF-fixdate, the obsolete RFC 850 format and the ANSI C's asctime() format are accepted.
+ * It throws SfvParseError if the input is not a valid HTTP-date.
+ *
+ * @param input the HTTP-date
+ * @returns the parsed date
+ */
+export function parseHTTPDate(input: string): Date {
+  let m: RegExpExecArray | null;
+
+  // IMF-fixdate: Sun, 06 Nov 1994 08:49:37 GMT
+  m =
+    /^([A-Za-z]{3}), (\d{2}) ([A-Za-z]{3}) (\d{4}) (\d{2}):(\d{2}):(\d{2}) GMT$/
+      .exec(input);
+  if (m !== null && DAY_NAMES.includes(m[1])) {
+    return buildDate(input, m[4], m[3], m[2], m[5], m[6], m[7]);
+  }
+
+  // rfc850-date: Sunday, 06-Nov-94 08:49:37 GMT
+  m = /^([A-Za-z]+), (\d{2})-([A-Za-z]{3})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) GMT$/
+    .exec(input);
+  if (m !== null && LONG_DAY_NAMES.includes(m[1])) {
+    // RFC 9110 Section 5.6.7: a two-digit year that appears to be more than
+    // 50 years in the future is the most recent year in the past with the same last two digits.
+    const thisYear = new Date().getUTCFullYear();
+    let year = thisYear - (thisYear % 100) + Number(m[4]);
+    if (year > thisYear + 50) {
+      year -= 100;
+    }
+    return buildDate(input, `${year}`, m[3], m[2], m[5], m[6], m[7]);
+  }
+
+  // asctime-date: Sun Nov  6 08:49:37 1994
+  m = /^([A-Za-z]{3}) ([A-Za-z]{3}) ([ \d]\d) (\d{2}):(\d{2}):(\d{2}) (\d{4})$/
+    .exec(input);
+  if (m !== null && DAY_NAMES.includes(m[1])) {
+    return buildDate(input, m[7], m[2], m[3].trim(), m[4], m[5], m[6]);
+  }
+
+  throw invalidHTTPDate(input);
+}
+
+// invalidHTTPDate returns the error for the input that is not a valid HTTP-date.
+// The position is the start of the input, because the date is validated as a whole.
+function invalidHTTPDate(input: string): SfvParseError {
+  return new SfvParseError("invalid HTTP-date", {
+    input: [input],
+    line: 0,
+    offset: 0,
+    character: input[0],
+  });
+}
+
+function buildDate(
+  input: string,
+  year: string,
+  month: string,
+  day: string,
+  hour: string,
+  minute: string,
+  second: string,
+): Date {
+  const mon = MONTH_NAMES.indexOf(month);
+  const d = Number(day);
+  const h = Number(hour);
+  const min = Number(minute);
+  const s = Number(second);
+  // leap seconds (s = 60) are allowed by RFC 9110.
+  if (mon < 0 || d < 1 || d > 31 || h > 23 || min > 59 || s > 60) {
+    throw invalidHTTPDate(input);
+  }
+  // validate the calendar date without the leap second,
+  // which rolls over into the next minute.
+  // Date.UTC maps the years 0-99 to 1900-1999, so set the full year separately.
+  const date = new Date(Date.UTC(2000, mon, d, h, min, Math.min(s, 59)));
+  date.setUTCFullYear(Number(year), mon, d);
+  if (date.getUTCDate() !== d) {
+    // e.g. Feb 30
+    throw invalidHTTPDate(input);
+  }
+  if (s === 60) {
+    date.setTime(date.getTime() + 1000);
+  }
+  return date;
+}
@@ -0,0 +1,219 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import * as sfv from "./schema.ts";
+import { SchemaError } from "./schema.ts";
+import { SfvLimitError, SfvParseError } from "./mod.ts";
+
+Deno.test("dictionary", () => {
+  const schema = sfv.dictionary({
+    u: sfv.integer({ min: 0, max: 7 }),
+    i: sfv.boolean().optional(),
+    v: sfv.token().optional(),
+  });
+  const value = schema.decode("u=5, i, x=unknown");
+  assertEquals(value, { u: 5, i: true });
+
+  // the types are inferred from the schema.
+  const u: number = value.u;
+  const i: boolean | undefined = value.i;
+  const v: string | undefined = value.v;
+  assertEquals([u, i, v], [5, true, undefined]);
+
+  assertEquals(schema.encode(value), "u=5, i");
+  assertEquals(schema.encode({ u: 1, v: "foo" }), "u=1, v=foo");
+});
+
+Deno.test("dictionary: default", () => {
+  const schema = sfv.dictionary({
+    u: sfv.integer().default(3),
+    i: sfv.boolean().default(false),
+  });
+  assertEquals(schema.decode(""), { u: 3, i: false });
+  assertEquals(schema.decode("u=1"), { u: 1, i: false });
+});
+
+Deno.test("dictionary: required key is missing", () => {
+  const schema = sfv.dictionary({ u: sfv.integer() });
+  assertThrows(
+    () => schema.decode("i"),
+    SchemaError,
+    "u: required key is missing",
+  );
+  assertThrows(
+    () => schema.encode({} as unknown as { u: number }),
+    SchemaError,
+    "u: required key is missing",
+  );
+});
+
+Deno.test("dictionary: type mismatch", () => {
+  const schema = sfv.dictionary({ u: sfv.integer() });
+  const err = assertThrows(
+    () => schema.decode("u=1.5"),
+    SchemaError,
+    "u: expected Integer, got Decimal",
+  );
+  assertEquals(err.path, "u");
+  assertThrows(
+    () => schema.decode("u=(1 2)"),
+    SchemaError,
+    "u: expected an item, got an inner list",
+  );
+});
+
+Deno.test("dictionary: out of range", () => {
+  const schema = sfv.dictionary({ u: sfv.integer({ min: 0, max: 7 }) });
+  assertThrows(
+    () => schema.decode("u=8"),
+    SchemaError,
+    "u: must be less than or equal to 7",
+  );
+  assertThrows(
+    () => schema.encode({ u: -1 }),
+    SchemaError,
+    "u: must be greater than or equal to 0",
+  );
+
+  // the limits of the bare items are reported with the path, too.
+  assertThrows(
+    () => sfv.dictionary({ u: sfv.integer() }).encode({ u: 1e16 }),
+    SchemaError,
+    "u: value must be between -999999999999999 and 999999999999999",
+  );
+  assertThrows(
+    () =>
+      sfv.item(sfv.token(), { d: sfv.decimal() }).encode({
+        value: "a",
+        params: { d: 1e13 },
+      }),
+    SchemaError,
+    ";d: value must be between",
+  );
+  assertThrows(
+    () => sfv.list(sfv.token()).encode(["a b"]),
+    SchemaError,
+    "[0]: ",
+  );
+});
+
+Deno.test("item with parameters", () => {
+  const schema = sfv.item(sfv.token(), {
+    q: sfv.decimal({ min: 0, max: 1 }).default(1),
+    charset: sfv.string().optional(),
+  });
+  assertEquals(schema.decode("text;q=0.5"), {
+    value: "text",
+    params: { q: 0.5 },
+  });
+  assertEquals(schema.decode("text"), { value: "text", params: { q: 1 } });
+  assertThrows(
+    () => schema.decode("text;q=2.0"),
+    SchemaError,
+    ";q: must be less than or equal to 1",
+  );
+  assertEquals(
+    schema.encode({ value: "text", params: { q: 0.5, charset: "utf-8" } }),
+    'text;q=0.5;charset="utf-8"',
+  );
+});
+
+Deno.test("list", () => {
+  const schema = sfv.list(sfv.item(sfv.token(), { q: sfv.number() }));
+  const value = schema.decode("a;q=1, b;q=0.5");
+  assertEquals(value, [
+    { value: "a", params: { q: 1 } },
+    { value: "b", params: { q: 0.5 } },
+  ]);
+  assertEquals(schema.encode(value), "a;q=1, b;q=0.5");
+  assertThrows(
+    () => schema.decode("a;q=1, b"),
+    SchemaError,
+    "[1];q: required key is missing",
+  );
+});
+
+Deno.test("inner list", () => {
+  const schema = sfv.dictionary({
+    sig1: sfv.innerList(sfv.string(), {
+      created: sfv.integer(),
+      keyid: sfv.string().optional(),
+    }),
+  });
+  const value = schema.decode(
+    'sig1=("@method" "@authority");created=1618884473;keyid="test-key"',
+  );
+  assertEquals(value, {
+    sig1: {
+      items: ["@method", "@authority"],
+      params: { created: 1618884473, keyid: "test-key" },
+    },
+  });
+  assertEquals(
+    schema.encode(value),
+    'sig1=("@method" "@authority");created=1618884473;keyid="test-key"',
+  );
+  assertThrows(
+    () => schema.decode('sig1=("@method" 1);created=1'),
+    SchemaError,
+    "sig1[1]: expected String, got Integer",
+  );
+});
+
+Deno.test("bare items", () => {
+  assertEquals(sfv.integer().decode("42"), 42);
+  assertEquals(sfv.decimal().decode("4.2"), 4.2);
+  assertEquals(sfv.number().decode("42"), 42);
+  assertEquals(sfv.number().encode(4.2), "4.2");
+  assertEquals(sfv.string().decode('"foo"'), "foo");
+  assertEquals(sfv.token().decode("foo"), "foo");
+  assertEquals(sfv.binary().decode(":AQID:"), new Uint8Array([1, 2, 3]));
+  assertEquals(sfv.boolean().decode("?0"), false);
+  assertEquals(sfv.date().decode("@0"), new Date(0));
+  assertEquals(sfv.displayString().decode('%"f%c3%bc"'), "fü");
+
+  assertEquals(sfv.token().encode("foo"), "foo");
+  assertEquals(sfv.binary().encode(new Uint8Array([1, 2, 3])), ":AQID:");
+  assertThrows(
+    () => sfv.integer().encode(4.2),
+    SchemaError,
+    "must be an integer",
+  );
+  assertThrows(
+    () => sfv.token().decode('"foo"'),
+    SchemaError,
+    "expected Token, got String",
+  );
+});
+
+Deno.test("options", () => {
+  // the options are passed to the decoders and the encoders.
+  assertThrows(
+    () => sfv.date().decode("@0", { version: "rfc8941" }),
+    SfvParseError,
+    "date requires RFC 9651",
+  );
+  assertThrows(
+    () => sfv.date().encode(new Date(0), { version: "rfc8941" }),
+    TypeError,
+  );
+  assertEquals(sfv.integer().encode(1, { version: "rfc8941" }), "1");
+  assertThrows(
+    () => sfv.list(sfv.token()).decode("a, b", { limits: { maxMembers: 1 } }),
+    SfvLimitError,
+  );
+  assertThrows(
+    () =>
+      sfv.dictionary({ d: sfv.date() }).decode("d=@999999999999999", {
+        dates: "sfdate",
+      }),
+    SchemaError,
+    "d: date is out of the range of Date",
+  );
+  assertThrows(
+    () =>
+      sfv.item(sfv.token(), { d: sfv.date() }).encode(
+        { value: "a", params: { d: new Date(0) } },
+        { version: "rfc8941" },
+      ),
+    TypeError,
+  );
+});
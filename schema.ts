@@ -0,0 +1,1020 @@
+/**
+ * Declarative schemas for Structured Field Values.
+ *
+ * ```typescript
+ * import * as sfv from "@shogo82148/sfv/schema";
+ *
+ * const schema = sfv.dictionary({
+ *   u: sfv.integer({ min: 0, max: 7 }),
+ *   i: sfv.boolean().optional(),
+ * });
+ * const value = schema.decode("u=5, i"); // { u: 5, i: true }
+ * schema.encode(value); // "u=5, i"
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type BareItem,
+  Decimal,
+  decodeDictionary,
+  decodeItem,
+  type DecodeItemOptions,
+  decodeList,
+  Dictionary,
+  DisplayString,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  type EncodeOptions,
+  InnerList,
+  Integer,
+  Item,
+  type List,
+  Parameters,
+  SfDate,
+  type StrictDecodeOptions,
+  Token,
+} from "./mod.ts";
+import { splitDecodeArgs } from "./decode_args.ts";
+
+/**
+ * SchemaError is thrown when a value doesn't match the schema.
+ */
+export class SchemaError extends TypeError {
+  /**
+   * path is the location of the value that doesn't match the schema.
+   * e.g. `u`, `sig1;keyid`, `[0]`.
+   */
+  readonly path: string;
+
+  /**
+   * Create a new SchemaError.
+   *
+   * @param path the location of the value
+   * @param reason the reason of the error
+   */
+  constructor(path: string, reason: string) {
+    super(path === "" ? reason : `${path}: ${reason}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+/**
+ * Infer extracts the decoded type from a schema.
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Schema describes a member of a List or a Dictionary.
+ */
+export abstract class Schema<T> {
+  /**
+   * decodeMember converts a decoded member into the value.
+   *
+   * @param member the member of a List or a Dictionary
+   * @param path the location of the member, used in error messages
+   * @returns the converted value
+   */
+  abstract decodeMember(member: Item | InnerList, path: string): T;
+
+  /**
+   * encodeMember converts the value into a member.
+   *
+   * @param value the value to convert
+   * @param path the location of the member, used in error messages
+   * @returns the member of a List or a Dictionary
+   */
+  abstract encodeMember(value: T, path: string): Item | InnerList;
+
+  /**
+   * optional marks the key as optional in a Dictionary or Parameters.
+   *
+   * @returns the optional schema
+   */
+  optional(): OptionalSchema<T, this> {
+    return new OptionalSchema(this);
+  }
+
+  /**
+   * default marks the key as optional in a Dictionary or Parameters,
+   * and uses the value when the key is missing.
+   *
+   * @param value the default value
+   * @returns the schema with the default value
+   */
+  default(value: T): DefaultSchema<T, this> {
+    return new DefaultSchema(this, value);
+  }
+}
+
+/**
+ * OptionalSchema is a schema for an optional key.
+ */
+export class OptionalSchema<T, S extends Schema<T> = Schema<T>>
+  extends Schema<T> {
+  // distinguishes OptionalSchema from DefaultSchema in InferShape.
+  private readonly isOptional = true;
+  readonly inner: S;
+
+  constructor(inner: S) {
+    super();
+    this.inner = inner;
+  }
+
+  decodeMember(member: Item | InnerList, path: string): T {
+    return this.inner.decodeMember(member, path);
+  }
+
+  encodeMember(value: T, path: string): Item | InnerList {
+    return this.inner.encodeMember(value, path);
+  }
+}
+
+/**
+ * DefaultSchema is a schema for a key that has a default value.
+ */
+export class DefaultSchema<T, S extends Schema<T> = Schema<T>>
+  extends Schema<T> {
+  readonly inner: S;
+  readonly defaultValue: T;
+
+  constructor(inner: S, defaultValue: T) {
+    super();
+    this.inner = inner;
+    this.defaultValue = defaultValue;
+  }
+
+  decodeMember(member: Item | InnerList, path: string): T {
+    return this.inner.decodeMember(member, path);
+  }
+
+  encodeMember(value: T, path: string): Item | InnerList {
+    return this.inner.encodeMember(value, path);
+  }
+}
+
+/**
+ * BareItemSchema describes a bare item.
+ * Parameters of the item are ignored.
+ */
+export abstract class BareItemSchema<T> extends Schema<T> {
+  /**
+   * decodeBareItem converts a bare item into the value.
+   *
+   * @param value the bare item
+   * @param path the location of the bare item, used in error messages
+   * @returns the converted value
+   */
+  abstract decodeBareItem(value: BareItem, path: string): T;
+
+  /**
+   * encodeBareItem converts the value into a bare item.
+   *
+   * @param value the value to convert
+   * @param path the location of the bare item, used in error messages
+   * @returns the bare item
+   */
+  abstract encodeBareItem(value: T, path: string): BareItem;
+
+  decodeMember(member: Item | InnerList, path: string): T {
+    if (!(member instanceof Item)) {
+      throw new SchemaError(path, "expected an item, got an inner list");
+    }
+    return this.decodeBareItem(member.value, path);
+  }
+
+  encodeMember(value: T, path: string): Item | InnerList {
+    return new Item(this.encodeBareItem(value, path));
+  }
+
+  /**
+   * decode parses an Item and converts it into the value.
+   *
+   * @param args SFV-encoded string, and the options of the decoder
+   * @returns the decoded value
+   */
+  decode(...input: string[]): T;
+  decode(...args: [...input: string[], options: DecodeItemOptions]): T;
+  decode(...args: (string | DecodeItemOptions)[]): T {
+    const [input, options] = splitDecodeArgs(args);
+    return this.decodeBareItem(decodeItem(...input, options).value, "");
+  }
+
+  /**
+   * encode serializes the value as an Item.
+   *
+   * @param value the value to encode
+   * @param options the options of encoding
+   * @returns SFV-encoded string
+   */
+  encode(value: T, options: EncodeOptions = {}): string {
+    return encodeItem(new Item(this.encodeBareItem(value, "")), options);
+  }
+}
+
+/**
+ * RangeOptions is the options for numeric schemas.
+ */
+export interface RangeOptions {
+  /**
+   * min is the minimum value (inclusive).
+   */
+  min?: number;
+
+  /**
+   * max is the maximum value (inclusive).
+   */
+  max?: number;
+}
+
+function validateRange(value: number, options: RangeOptions, path: string) {
+  if (options.min !== undefined && value < options.min) {
+    throw new SchemaError(
+      path,
+      `must be greater than or equal to ${options.min}`,
+    );
+  }
+  if (options.max !== undefined && value > options.max) {
+    throw new SchemaError(path, `must be less than or equal to ${options.max}`);
+  }
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number") {
+    throw new SchemaError(path, `expected a number, got ${typeof value}`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new SchemaError(path, `expected a string, got ${typeof value}`);
+  }
+  return value;
+}
+
+// construct calls the constructor of the bare item,
+// and converts its errors, e.g. RangeError for out-of-range numbers, into SchemaError.
+function construct<T extends BareItem>(path: string, fn: () => T): T {
+  try {
+    return fn();
+  } catch (e) {
+    if (e instanceof Error) {
+      throw new SchemaError(path, e.message);
+    }
+    throw e;
+  }
+}
+
+// typeName returns the name of the type of the bare item for error messages.
+function typeName(value: BareItem): string {
+  if (value instanceof Integer) {
+    return "Integer";
+  }
+  if (value instanceof Decimal) {
+    return "Decimal";
+  }
+  if (typeof value === "string") {
+    return "String";
+  }
+  if (value instanceof Token) {
+    return "Token";
+  }
+  if (value instanceof Uint8Array) {
+    return "Byte Sequence";
+  }
+  if (typeof value === "boolean") {
+    return "Boolean";
+  }
+  if (value instanceof Date || value instanceof SfDate) {
+    return "Date";
+  }
+  if (value instanceof DisplayString) {
+    return "Display String";
+  }
+  return "unknown";
+}
+
+class IntegerSchema extends BareItemSchema<number> {
+  constructor(private readonly options: RangeOptions) {
+    super();
+  }
+
+  decodeBareItem(value: BareItem, path: string): number {
+    if (!(value instanceof Integer)) {
+      throw new SchemaError(path, `expected Integer, got ${typeName(value)}`);
+    }
+    const num = value.valueOf();
+    validateRange(num, this.options, path);
+    return num;
+  }
+
+  encodeBareItem(value: number, path: string): BareItem {
+    const num = expectNumber(value, path);
+    if (!Number.isInteger(num)) {
+      throw new SchemaError(path, "must be an integer");
+    }
+    validateRange(num, this.options, path);
+    return construct(path, () => new Integer(num));
+  }
+}
+
+class DecimalSchema extends BareItemSchema<number> {
+  constructor(private readonly options: RangeOptions) {
+    super();
+  }
+
+  decodeBareItem(value: BareItem, path: string): number {
+    if (!(value instanceof Decimal)) {
+      throw new SchemaError(path, `expected Decimal, got ${typeName(value)}`);
+    }
+    const num = value.valueOf();
+    validateRange(num, this.options, path);
+    return num;
+  }
+
+  encodeBareItem(value: number, path: string): BareItem {
+    const num = expectNumber(value, path);
+    validateRange(num, this.options, path);
+    return construct(path, () => new Decimal(num));
+  }
+}
+
+class NumberSchema extends BareItemSchema<number> {
+  constructor(private readonly options: RangeOptions) {
+    super();
+  }
+
+  decodeBareItem(value: BareItem, path: string): number {
+    if (!(value instanceof Integer) && !(value instanceof Decimal)) {
+      throw new SchemaError(
+        path,
+        `expected Integer or Decimal, got ${typeName(value)}`,
+      );
+    }
+    const num = value.valueOf();
+    validateRange(num, this.options, path);
+    return num;
+  }
+
+  encodeBareItem(value: number, path: string): BareItem {
+    const num = expectNumber(value, path);
+    validateRange(num, this.options, path);
+    return construct(
+      path,
+      () => Number.isInteger(num) ? new Integer(num) : new Decimal(num),
+    );
+  }
+}
+
+class StringSchema extends BareItemSchema<string> {
+  decodeBareItem(value: BareItem, path: string): string {
+    if (typeof value !== "string") {
+      throw new SchemaError(path, `expected String, got ${typeName(value)}`);
+    }
+    return value;
+  }
+
+  encodeBareItem(value: string, path: string): BareItem {
+    return expectString(value, path);
+  }
+}
+
+class TokenSchema extends BareItemSchema<string> {
+  decodeBareItem(value: BareItem, path: string): string {
+    if (!(value instanceof Token)) {
+      throw new SchemaError(path, `expected Token, got ${typeName(value)}`);
+    }
+    return value.valueOf();
+  }
+
+  encodeBareItem(value: string, path: string): BareItem {
+    const str = expectString(value, path);
+    return construct(path, () => new Token(str));
+  }
+}
+
+class BinarySchema extends BareItemSchema<Uint8Array> {
+  decodeBareItem(value: BareItem, path: string): Uint8Array {
+    if (!(value instanceof Uint8Array)) {
+      throw new SchemaError(
+        path,
+        `expected Byte Sequence, got ${typeName(value)}`,
+      );
+    }
+    return value;
+  }
+
+  encodeBareItem(value: Uint8Array, path: string): BareItem {
+    if (!(value instanceof Uint8Array)) {
+      throw new SchemaError(path, "expected a Uint8Array");
+    }
+    return value;
+  }
+}
+
+class BooleanSchema extends BareItemSchema<boolean> {
+  decodeBareItem(value: BareItem, path: string): boolean {
+    if (typeof value !== "boolean") {
+      throw new SchemaError(path, `expected Boolean, got ${typeName(value)}`);
+    }
+    return value;
+  }
+
+  encodeBareItem(value: boolean, path: string): BareItem {
+    if (typeof value !== "boolean") {
+      throw new SchemaError(path, `expected a boolean, got ${typeof value}`);
+    }
+    return value;
+  }
+}
+
+class DateSchema extends BareItemSchema<Date> {
+  decodeBareItem(value: BareItem, path: string): Date {
+    if (value instanceof SfDate) {
+      if (!value.isDateCompatible()) {
+        throw new SchemaError(path, "date is out of the range of Date");
+      }
+      return value.toDate();
+    }
+    if (!(value instanceof Date)) {
+      throw new SchemaError(path, `expected Date, got ${typeName(value)}`);
+    }
+    return value;
+  }
+
+  encodeBareItem(value: Date, path: string): BareItem {
+    if (!(value instanceof Date)) {
+      throw new SchemaError(path, "expected a Date");
+    }
+    return value;
+  }
+}
+
+class DisplayStringSchema extends BareItemSchema<string> {
+  decodeBareItem(value: BareItem, path: string): string {
+    if (!(value instanceof DisplayString)) {
+      throw new SchemaError(
+        path,
+        `expected Display String, got ${typeName(value)}`,
+      );
+    }
+    return value.valueOf();
+  }
+
+  encodeBareItem(value: string, path: string): BareItem {
+    const str = expectString(value, path);
+    return construct(path, () => new DisplayString(str));
+  }
+}
+
+/**
+ * integer returns a schema for Integers.
+ *
+ * @param options the range of the integer
+ * @returns the schema
+ */
+export function integer(options: RangeOptions = {}): BareItemSchema<number> {
+  return new IntegerSchema(options);
+}
+
+/**
+ * decimal returns a schema for Decimals.
+ *
+ * @param options the range of the decimal
+ * @returns the schema
+ */
+export function decimal(options: RangeOptions = {}): BareItemSchema<number> {
+  return new DecimalSchema(options);
+}
+
+/**
+ * number returns a schema that accepts both of Integers and Decimals.
+ * Integral numbers are encoded as Integers, and others are encoded as Decimals.
+ *
+ * @param options the range of the number
+ * @returns the schema
+ */
+export function number(options: RangeOptions = {}): BareItemSchema<number> {
+  return new NumberSchema(options);
+}
+
+/**
+ * string returns a schema for Strings.
+ *
+ * @returns the schema
+ */
+export function string(): BareItemSchema<string> {
+  return new StringSchema();
+}
+
+/**
+ * token returns a schema for Tokens.
+ * The tokens are converted into strings.
+ *
+ * @returns the schema
+ */
+export function token(): BareItemSchema<string> {
+  return new TokenSchema();
+}
+
+/**
+ * binary returns a schema for Byte Sequences.
+ *
+ * @returns the schema
+ */
+export function binary(): BareItemSchema<Uint8Array> {
+  return new BinarySchema();
+}
+
+/**
+ * boolean returns a schema for Booleans.
+ *
+ * @returns the schema
+ */
+export function boolean(): BareItemSchema<boolean> {
+  return new BooleanSchema();
+}
+
+/**
+ * date returns a schema for Dates.
+ *
+ * @returns the schema
+ */
+export function date(): BareItemSchema<Date> {
+  return new DateSchema();
+}
+
+/**
+ * displayString returns a schema for Display Strings.
+ * The display strings are converted into strings.
+ *
+ * @returns the schema
+ */
+export function displayString(): BareItemSchema<string> {
+  return new DisplayStringSchema();
+}
+
+/**
+ * Shape is a set of keys and their schemas.
+ */
+export type Shape<S extends Schema<unknown> = Schema<unknown>> = Record<
+  string,
+  S | OptionalSchema<unknown, S> | DefaultSchema<unknown, S>
+>;
+
+/**
+ * ParametersShape is a set of parameter keys and their schemas.
+ */
+export type ParametersShape = Shape<BareItemSchema<unknown>>;
+
+/**
+ * InferShape extracts the decoded type from a shape.
+ * The keys marked by optional() become optional properties.
+ */
+export type InferShape<S extends Shape> =
+  & {
+    [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<
+      S[K]
+    >;
+  }
+  & {
+    [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Infer<
+      S[K]
+    >;
+  };
+
+// decodeShape looks up the keys of the shape by get,
+// and converts the values by decode.
+function decodeShape<M extends Schema<unknown>, V, S extends Shape<M>>(
+  shape: S,
+  get: (key: string) => V | undefined,
+  decode: (schema: M, value: V, key: string) => unknown,
+  path: (key: string) => string,
+): InferShape<S> {
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(shape)) {
+    const schema = shape[key];
+    const value = get(key);
+    if (value === undefined) {
+      if (schema instanceof OptionalSchema) {
+        continue;
+      }
+      if (schema instanceof DefaultSchema) {
+        result[key] = schema.defaultValue;
+        continue;
+      }
+      throw new SchemaError(path(key), "required key is missing");
+    }
+    result[key] = decode(unwrap(schema), value, key);
+  }
+  if (!isShapeValue(shape, result)) {
+    throw new SchemaError(path(""), "required key is missing");
+  }
+  return result;
+}
+
+// isShapeValue reports whether the object has all the required keys of the shape.
+function isShapeValue<S extends Shape>(
+  shape: S,
+  value: Record<string, unknown>,
+): value is InferShape<S> {
+  return Object.keys(shape).every((key) =>
+    Object.hasOwn(value, key) || shape[key] instanceof OptionalSchema
+  );
+}
+
+// encodeShape converts the properties of the object by encode.
+function encodeShape<M extends Schema<unknown>, S extends Shape<M>>(
+  shape: S,
+  value: InferShape<S>,
+  encode: (schema: M, value: unknown, key: string) => void,
+  path: (key: string) => string,
+): void {
+  if (typeof value !== "object" || value === null) {
+    throw new SchemaError(path(""), "expected an object");
+  }
+  const entries: [string, unknown][] = Object.entries(value);
+  const obj = new Map(entries);
+  for (const key of Object.keys(shape)) {
+    const schema = shape[key];
+    const v = obj.get(key);
+    if (v === undefined) {
+      if (schema instanceof OptionalSchema || schema instanceof DefaultSchema) {
+        continue;
+      }
+      throw new SchemaError(path(key), "required key is missing");
+    }
+    encode(unwrap(schema), v, key);
+  }
+}
+
+function unwrap<M extends Schema<unknown>>(
+  schema: M | OptionalSchema<unknown, M> | DefaultSchema<unknown, M>,
+): M {
+  if (schema instanceof OptionalSchema || schema instanceof DefaultSchema) {
+    return schema.inner;
+  }
+  return schema;
+}
+
+function decodeParameters<P extends ParametersShape>(
+  shape: P,
+  params: Parameters,
+  path: string,
+): InferShape<P> {
+  return decodeShape(
+    shape,
+    (key) => params.get(key),
+    (schema: BareItemSchema<unknown>, value, key) =>
+      schema.decodeBareItem(value, `${path};${key}`),
+    (key) => `${path};${key}`,
+  );
+}
+
+function encodeParameters<P extends ParametersShape>(
+  shape: P,
+  value: InferShape<P>,
+  path: string,
+): Parameters {
+  const params = new Parameters();
+  encodeShape(
+    shape,
+    value,
+    (schema: BareItemSchema<unknown>, v, key) => {
+      const bare = schema.encodeBareItem(v, `${path};${key}`);
+      params.set(key, bare);
+    },
+    (key) => key === "" ? path : `${path};${key}`,
+  );
+  return params;
+}
+
+/**
+ * ItemValue is the decoded value of an item with parameters.
+ */
+export interface ItemValue<T, P> {
+  value: T;
+  params: P;
+}
+
+/**
+ * ItemSchema describes an item with parameters.
+ */
+export class ItemSchema<T, P extends ParametersShape>
+  extends Schema<ItemValue<T, InferShape<P>>> {
+  readonly bareItem: BareItemSchema<T>;
+  readonly params: P;
+
+  constructor(bareItem: BareItemSchema<T>, params: P) {
+    super();
+    this.bareItem = bareItem;
+    this.params = params;
+  }
+
+  decodeMember(
+    member: Item | InnerList,
+    path: string,
+  ): ItemValue<T, InferShape<P>> {
+    if (!(member instanceof Item)) {
+      throw new SchemaError(path, "expected an item, got an inner list");
+    }
+    return {
+      value: this.bareItem.decodeBareItem(member.value, path),
+      params: decodeParameters(this.params, member.parameters, path),
+    };
+  }
+
+  encodeMember(value: ItemValue<T, InferShape<P>>, path: string): Item {
+    if (typeof value !== "object" || value === null) {
+      throw new SchemaError(path, "expected an object");
+    }
+    return new Item(
+      this.bareItem.encodeBareItem(value.value, path),
+      encodeParameters(this.params, value.params ?? {}, path),
+    );
+  }
+
+  /**
+   * decode parses an Item and converts it into the value.
+   *
+   * @param args SFV-encoded string, and the options of the decoder
+   * @returns the decoded value
+   */
+  decode(...input: string[]): ItemValue<T, InferShape<P>>;
+  decode(
+    ...args: [...input: string[], options: DecodeItemOptions]
+  ): ItemValue<T, InferShape<P>>;
+  decode(...args: (string | DecodeItemOptions)[]): ItemValue<T, InferShape<P>> {
+    const [input, options] = splitDecodeArgs(args);
+    return this.decodeMember(decodeItem(...input, options), "");
+  }
+
+  /**
+   * encode serializes the value as an Item.
+   *
+   * @param value the value to encode
+   * @param options the options of encoding
+   * @returns SFV-encoded string
+   */
+  encode(
+    value: ItemValue<T, InferShape<P>>,
+    options: EncodeOptions = {},
+  ): string {
+    return encodeItem(this.encodeMember(value, ""), options);
+  }
+}
+
+/**
+ * item returns a schema for an item with parameters.
+ *
+ * @param bareItem the schema of the bare item
+ * @param params the schemas of the parameters
+ * @returns the schema
+ */
+export function item<T>(
+  bareItem: BareItemSchema<T>,
+): ItemSchema<T, Record<string, never>>;
+export function item<T, P extends ParametersShape>(
+  bareItem: BareItemSchema<T>,
+  params: P,
+): ItemSchema<T, P>;
+export function item<T, P extends ParametersShape>(
+  bareItem: BareItemSchema<T>,
+  params?: P,
+): ItemSchema<T, P | Record<string, never>> {
+  return new ItemSchema(bareItem, params ?? {});
+}
+
+/**
+ * InnerListValue is the decoded value of an inner list with parameters.
+ */
+export interface InnerListValue<T, P> {
+  items: T[];
+  params: P;
+}
+
+/**
+ * InnerListSchema describes an inner list with parameters.
+ */
+export class InnerListSchema<T, P extends ParametersShape>
+  extends Schema<InnerListValue<T, InferShape<P>>> {
+  readonly item: Schema<T>;
+  readonly params: P;
+
+  constructor(item: Schema<T>, params: P) {
+    super();
+    this.item = item;
+    this.params = params;
+  }
+
+  decodeMember(
+    member: Item | InnerList,
+    path: string,
+  ): InnerListValue<T, InferShape<P>> {
+    if (!(member instanceof InnerList)) {
+      throw new SchemaError(path, "expected an inner list, got an item");
+    }
+    return {
+      items: member.items.map((item, i) =>
+        this.item.decodeMember(item, `${path}[${i}]`)
+      ),
+      params: decodeParameters(this.params, member.parameters, path),
+    };
+  }
+
+  encodeMember(
+    value: InnerListValue<T, InferShape<P>>,
+    path: string,
+  ): InnerList {
+    if (typeof value !== "object" || value === null) {
+      throw new SchemaError(path, "expected an object");
+    }
+    if (!Array.isArray(value.items)) {
+      throw new SchemaError(path, "expected an array of items");
+    }
+    const items = value.items.map((item, i) => {
+      const member = this.item.encodeMember(item, `${path}[${i}]`);
+      if (!(member instanceof Item)) {
+        throw new SchemaError(`${path}[${i}]`, "inner lists can't be nested");
+      }
+      return member;
+    });
+    return new InnerList(
+      items,
+      encodeParameters(this.params, value.params ?? {}, path),
+    );
+  }
+}
+
+/**
+ * innerList returns a schema for an inner list with parameters.
+ *
+ * @param item the schema of the items in the inner list
+ * @param params the schemas of the parameters
+ * @returns the schema
+ */
+export function innerList<T>(
+  item: Schema<T>,
+): InnerListSchema<T, Record<string, never>>;
+export function innerList<T, P extends ParametersShape>(
+  item: Schema<T>,
+  params: P,
+): InnerListSchema<T, P>;
+export function innerList<T, P extends ParametersShape>(
+  item: Schema<T>,
+  params?: P,
+): InnerListSchema<T, P | Record<string, never>> {
+  return new InnerListSchema(item, params ?? {});
+}
+
+/**
+ * ListSchema describes a List.
+ */
+export class ListSchema<T> {
+  readonly member: Schema<T>;
+
+  constructor(member: Schema<T>) {
+    this.member = member;
+  }
+
+  /**
+   * decodeList converts a decoded List into the value.
+   *
+   * @param list the decoded List
+   * @returns the converted value
+   */
+  decodeList(list: List): T[] {
+    return list.map((member, i) => this.member.decodeMember(member, `[${i}]`));
+  }
+
+  /**
+   * encodeList converts the value into a List.
+   *
+   * @param value the value to convert
+   * @returns the List
+   */
+  encodeList(value: T[]): List {
+    if (!Array.isArray(value)) {
+      throw new SchemaError("", "expected an array");
+    }
+    return value.map((member, i) => this.member.encodeMember(member, `[${i}]`));
+  }
+
+  /**
+   * decode parses a List and converts it into the value.
+   *
+   * @param args SFV-encoded string, and the options of the decoder
+   * @returns the decoded value
+   */
+  decode(...input: string[]): T[];
+  decode(...args: [...input: string[], options: StrictDecodeOptions]): T[];
+  decode(...args: (string | StrictDecodeOptions)[]): T[] {
+    const [input, options] = splitDecodeArgs(args);
+    return this.decodeList(decodeList(...input, options));
+  }
+
+  /**
+   * encode serializes the value as a List.
+   *
+   * @param value the value to encode
+   * @param options the options of encoding
+   * @returns SFV-encoded string
+   */
+  encode(value: T[], options: EncodeOptions = {}): string {
+    return encodeList(this.encodeList(value), options);
+  }
+}
+
+/**
+ * list returns a schema for a List.
+ *
+ * @param member the schema of the members
+ * @returns the schema
+ */
+export function list<T>(member: Schema<T>): ListSchema<T> {
+  return new ListSchema(member);
+}
+
+/**
+ * DictionarySchema describes a Dictionary.
+ * The keys that are not in the shape are ignored.
+ */
+export class DictionarySchema<S extends Shape> {
+  readonly shape: S;
+
+  constructor(shape: S) {
+    this.shape = shape;
+  }
+
+  /**
+   * decodeDictionary converts a decoded Dictionary into the value.
+   *
+   * @param dict the decoded Dictionary
+   * @returns the converted value
+   */
+  decodeDictionary(dict: Dictionary): InferShape<S> {
+    return decodeShape(
+      this.shape,
+      (key) => dict.get(key),
+      (schema, value, key) => schema.decodeMember(value, key),
+      (key) => key,
+    );
+  }
+
+  /**
+   * encodeDictionary converts the value into a Dictionary.
+   *
+   * @param value the value to convert
+   * @returns the Dictionary
+   */
+  encodeDictionary(value: InferShape<S>): Dictionary {
+    const dict = new Dictionary();
+    encodeShape(
+      this.shape,
+      value,
+      (schema, v, key) => dict.set(key, schema.encodeMember(v, key)),
+      (key) => key,
+    );
+    return dict;
+  }
+
+  /**
+   * decode parses a Dictionary and converts it into the value.
+   *
+   * @param args SFV-encoded string, and the options of the decoder
+   * @returns the decoded value
+   */
+  decode(...input: string[]): InferShape<S>;
+  decode(
+    ...args: [...input: string[], options: StrictDecodeOptions]
+  ): InferShape<S>;
+  decode(...args: (string | StrictDecodeOptions)[]): InferShape<S> {
+    const [input, options] = splitDecodeArgs(args);
+    return this.decodeDictionary(decodeDictionary(...input, options));
+  }
+
+  /**
+   * encode serializes the value as a Dictionary.
+   *
+   * @param value the value to encode
+   * @param options the options of encoding
+   * @returns SFV-encoded string
+   */
+  encode(value: InferShape<S>, options: EncodeOptions = {}): string {
+    return encodeDictionary(this.encodeDictionary(value), options);
+  }
+}
+
+/**
+ * dictionary returns a schema for a Dictionary.
+ *
+ * @param shape the keys and their schemas
+ * @returns the schema
+ */
+export function dictionary<S extends Shape>(shape: S): DictionarySchema<S> {
+  return new DictionarySchema(shape);
+}
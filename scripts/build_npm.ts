@@ -3,7 +3,23 @@ import { build, emptyDir } from "@deno/dnt";
 await emptyDir("./npm");
 
 await build({
-  entryPoints: ["./mod.ts"],
+  entryPoints: [
+    "./mod.ts",
+    { name: "./schema", path: "./schema.ts" },
+    { name: "./retrofit", path: "./retrofit.ts" },
+    { name: "./headers", path: "./headers.ts" },
+    { name: "./json", path: "./json.ts" },
+    { name: "./plain", path: "./plain.ts" },
+    { name: "./equal", path: "./equal.ts" },
+    { name: "./cst", path: "./cst.ts" },
+    { name: "./query", path: "./query.ts" },
+    { name: "./testing", path: "./testing.ts" },
+    { name: "./cache-status", path: "./cache_status.ts" },
+    { name: "./priority", path: "./priority.ts" },
+    { name: "./message-signatures", path: "./message_signatures.ts" },
+    { name: "./proxy-status", path: "./proxy_status.ts" },
+    { kind: "bin", name: "sfv", path: "./cli.ts" },
+  ],
   outDir: "./npm",
   shims: {
     deno: true,
@@ -1,22 +1,17 @@
-import { assertEquals } from "jsr:@std/assert";
+import { assertEquals, assertInstanceOf } from "jsr:@std/assert";
 import {
-  type BareItem,
-  Decimal,
   decodeDictionary,
   decodeItem,
   decodeList,
   type Dictionary,
-  DisplayString,
   encodeDictionary,
   encodeItem,
   encodeList,
-  InnerList,
-  Integer,
-  Item,
+  type Item,
   type List,
-  type Parameters,
-  Token,
+  SfvParseError,
 } from "./mod.ts";
+import { toTestJSON } from "./json.ts";
 import testDataExamples from "./structured-field-tests/examples.json" with {
   type: "json",
 };
@@ -209,6 +204,7 @@ function test(data: TestData) {
             throw e;
           }
           if (data.must_fail) {
+            assertInstanceOf(e, SfvParseError, data.name);
             return;
           }
           throw e;
@@ -216,7 +212,7 @@ function test(data: TestData) {
         if (data.must_fail) {
           throw new Error("unexpected success");
         }
-        const actual = convertItem(item);
+        const actual = toTestJSON(item);
         assertEquals(actual, data.expected, data.name);
         if (data.canonical) {
           const encoded = encodeItem(item);
@@ -235,6 +231,7 @@ function test(data: TestData) {
             throw e;
           }
           if (data.must_fail) {
+            assertInstanceOf(e, SfvParseError, data.name);
             return;
           }
           throw e;
@@ -242,7 +239,7 @@ function test(data: TestData) {
         if (data.must_fail) {
           throw new Error("unexpected success");
         }
-        const actual = convertList(list);
+        const actual = toTestJSON(list);
         assertEquals(actual, data.expected, data.name);
         if (data.canonical) {
           const encoded = encodeList(list);
@@ -261,6 +258,7 @@ function test(data: TestData) {
             throw e;
           }
           if (data.must_fail) {
+            assertInstanceOf(e, SfvParseError, data.name);
             return;
           }
           throw e;
@@ -268,7 +266,7 @@ function test(data: TestData) {
         if (data.must_fail) {
           throw new Error("unexpected success");
         }
-        const actual = convertDictionary(dict);
+        const actual = toTestJSON(dict);
         assertEquals(actual, data.expected, data.name);
         if (data.canonical) {
           const canonical = data.canonical.join(", ");
@@ -281,170 +279,3 @@ function test(data: TestData) {
       throw new DataSetError(`unsupported header type: ${data.header_type}`);
   }
 }
-
-function convertItem(item: Item) {
-  return [
-    convertBareItem(item.value),
-    convertParameters(item.parameters),
-  ];
-}
-
-function convertBareItem(item: BareItem) {
-  switch (typeof item) {
-    case "string":
-      return item;
-    case "boolean":
-      return item;
-    case "object":
-      if (item instanceof Integer) {
-        return item.valueOf();
-      }
-      if (item instanceof Decimal) {
-        return item.valueOf();
-      }
-      if (item instanceof Token) {
-        return {
-          __type: "token",
-          value: item.valueOf(),
-        };
-      }
-      if (item instanceof Uint8Array) {
-        return {
-          __type: "binary",
-          value: base32encode(item),
-        };
-      }
-      if (item instanceof Date) {
-        return {
-          __type: "date",
-          value: item.getTime() / 1000,
-        };
-      }
-      if (item instanceof DisplayString) {
-        return {
-          __type: "displaystring",
-          value: item.valueOf(),
-        };
-      }
-      throw new DataSetError(`unsupported type: ${typeof item}`);
-    default:
-      throw new DataSetError(`unsupported type: ${typeof item}`);
-  }
-}
-
-function convertParameters(params: Parameters) {
-  const result = [];
-  for (const [key, value] of params) {
-    result.push([key, convertBareItem(value)]);
-  }
-  return result;
-}
-
-function convertList(list: List) {
-  return list.map(convertItemOrInnerList);
-}
-
-function convertItemOrInnerList(item: Item | InnerList) {
-  if (item instanceof Item) {
-    return convertItem(item);
-  }
-  if (item instanceof InnerList) {
-    return convertInnerList(item);
-  }
-  throw new DataSetError(`unsupported type: ${typeof item}`);
-}
-
-function convertInnerList(list: InnerList) {
-  return [
-    list.items.map(convertItem),
-    convertParameters(list.parameters),
-  ];
-}
-
-function convertDictionary(dict: Dictionary) {
-  const result = [];
-  for (const [key, value] of dict) {
-    result.push([key, convertItemOrInnerList(value)]);
-  }
-  return result;
-}
-
-// base32encode is minimum implementation for encoding base32.
-function base32encode(data: Uint8Array): string {
-  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
-  let dst = "";
-  let si = 0;
-  const n = data.length - (data.length % 5);
-  while (si < n) {
-    const hi = data[si + 0] << 24 | data[si + 1] << 16 | data[si + 2] << 8 |
-      data[si + 3];
-    const lo = hi << 8 | data[si + 4];
-    dst += alphabet[(hi >> 27) & 0x1F];
-    dst += alphabet[(hi >> 22) & 0x1F];
-    dst += alphabet[(hi >> 17) & 0x1F];
-    dst += alphabet[(hi >> 12) & 0x1F];
-    dst += alphabet[(hi >> 7) & 0x1F];
-    dst += alphabet[(hi >> 2) & 0x1F];
-    dst += alphabet[(lo >> 5) & 0x1F];
-    dst += alphabet[lo & 0x1F];
-    si += 5;
-  }
-
-  switch (data.length % 5) {
-    case 4:
-      {
-        const hi = data[si + 0] << 24 | data[si + 1] << 16 | data[si + 2] << 8 |
-          data[si + 3];
-        const lo = hi << 8;
-        dst += alphabet[(hi >> 27) & 0x1F];
-        dst += alphabet[(hi >> 22) & 0x1F];
-        dst += alphabet[(hi >> 17) & 0x1F];
-        dst += alphabet[(hi >> 12) & 0x1F];
-        dst += alphabet[(hi >> 7) & 0x1F];
-        dst += alphabet[(hi >> 2) & 0x1F];
-        dst += alphabet[(lo >> 5) & 0x1F];
-        dst += "=";
-      }
-      break;
-    case 3:
-      {
-        const hi = data[si + 0] << 24 | data[si + 1] << 16 | data[si + 2] << 8;
-        dst += alphabet[(hi >> 27) & 0x1F];
-        dst += alphabet[(hi >> 22) & 0x1F];
-        dst += alphabet[(hi >> 17) & 0x1F];
-        dst += alphabet[(hi >> 12) & 0x1F];
-        dst += alphabet[(hi >> 7) & 0x1F];
-        dst += "=";
-        dst += "=";
-        dst += "=";
-      }
-      break;
-    case 2:
-      {
-        const hi = data[si + 0] << 24 | data[si + 1] << 16;
-        dst += alphabet[(hi >> 27) & 0x1F];
-        dst += alphabet[(hi >> 22) & 0x1F];
-        dst += alphabet[(hi >> 17) & 0x1F];
-        dst += alphabet[(hi >> 12) & 0x1F];
-        dst += "=";
-        dst += "=";
-        dst += "=";
-        dst += "=";
-      }
-      break;
-    case 1:
-      {
-        const hi = data[si + 0] << 24;
-        dst += alphabet[(hi >> 27) & 0x1F];
-        dst += alphabet[(hi >> 22) & 0x1F];
-        dst += "=";
-        dst += "=";
-        dst += "=";
-        dst += "=";
-        dst += "=";
-        dst += "=";
-      }
-      break;
-  }
-  return dst;
-}
@@ -2,12 +2,19 @@ import { assertEquals } from "jsr:@std/assert";
 import {
   type BareItem,
   Decimal,
+  decodeDictionary,
+  decodeItem,
+  decodeList,
   Dictionary,
-  Integer,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  InnerList,
   Item,
+  type List,
   Parameters,
-  Token,
 } from "./mod.ts";
+import { fromTestJSON, type FromTestJSONOptions } from "./json.ts";
 import testDataNumber from "./structured-field-tests/serialisation-tests/number.json" with {
   type: "json",
 };
@@ -20,6 +27,66 @@ import testDataTokenGenerated from "./structured-field-tests/serialisation-tests
 import testDataKeyGenerated from "./structured-field-tests/serialisation-tests/key-generated.json" with {
   type: "json",
 };
+import testDataDecodeExamples from "./structured-field-tests/examples.json" with {
+  type: "json",
+};
+import testDataDecodeList from "./structured-field-tests/list.json" with {
+  type: "json",
+};
+import testDataDecodeParamList from "./structured-field-tests/param-list.json" with {
+  type: "json",
+};
+import testDataDecodeListlist from "./structured-field-tests/listlist.json" with {
+  type: "json",
+};
+import testDataDecodeParamListlist from "./structured-field-tests/param-listlist.json" with {
+  type: "json",
+};
+import testDataDecodeDictionary from "./structured-field-tests/dictionary.json" with {
+  type: "json",
+};
+import testDataDecodeParamDict from "./structured-field-tests/param-dict.json" with {
+  type: "json",
+};
+import testDataDecodeNumber from "./structured-field-tests/number.json" with {
+  type: "json",
+};
+import testDataDecodeNumberGenerated from "./structured-field-tests/number-generated.json" with {
+  type: "json",
+};
+import testDataDecodeString from "./structured-field-tests/string.json" with {
+  type: "json",
+};
+import testDataDecodeStringGenerated from "./structured-field-tests/string-generated.json" with {
+  type: "json",
+};
+import testDataDecodeToken from "./structured-field-tests/token.json" with {
+  type: "json",
+};
+import testDataDecodeTokenGenerated from "./structured-field-tests/token-generated.json" with {
+  type: "json",
+};
+import testDataDecodeBinary from "./structured-field-tests/binary.json" with {
+  type: "json",
+};
+import testDataDecodeBoolean from "./structured-field-tests/boolean.json" with {
+  type: "json",
+};
+import testDataDecodeLargeGenerated from "./structured-field-tests/large-generated.json" with {
+  type: "json",
+};
+import testDataDecodeDate from "./structured-field-tests/date.json" with {
+  type: "json",
+};
+import testDataDecodeDisplayString from "./structured-field-tests/display-string.json" with {
+  type: "json",
+};
+import testDataDecodeItem from "./structured-field-tests/item.json" with {
+  type: "json",
+};
+import testDataDecodeKeyGenerated from "./structured-field-tests/key-generated.json" with {
+  type: "json",
+};
 
 class DataSetError extends Error {
   constructor(message: string) {
@@ -30,20 +97,17 @@ class DataSetError extends Error {
 
 interface TestData {
   name: string;
+  raw?: string[];
   header_type: string;
-  expected: unknown;
+  expected?: unknown;
   canonical?: string[];
   must_fail?: boolean;
 }
 
-interface SFObject {
-  __type: string;
-  value: string | number;
-}
-
 Deno.test("number", () => {
   for (const data of testDataNumber) {
-    test(data);
+    // these tests check that the serializer rounds the decimals.
+    test(data, { roundDecimals: true });
   }
 });
 
@@ -65,19 +129,102 @@ Deno.test("key-generated", () => {
   }
 });
 
-function test(data: TestData) {
+// every decode test that succeeds is also a serialization test:
+// its expected value must be serialized into its canonical form.
+const decodeTests: Record<string, TestData[]> = {
+  "examples": testDataDecodeExamples,
+  "list": testDataDecodeList,
+  "param-list": testDataDecodeParamList,
+  "listlist": testDataDecodeListlist,
+  "param-listlist": testDataDecodeParamListlist,
+  "dictionary": testDataDecodeDictionary,
+  "param-dict": testDataDecodeParamDict,
+  "number": testDataDecodeNumber,
+  "number-generated": testDataDecodeNumberGenerated,
+  "string": testDataDecodeString,
+  "string-generated": testDataDecodeStringGenerated,
+  "token": testDataDecodeToken,
+  "token-generated": testDataDecodeTokenGenerated,
+  "binary": testDataDecodeBinary,
+  "boolean": testDataDecodeBoolean,
+  "large-generated": testDataDecodeLargeGenerated,
+  "date": testDataDecodeDate,
+  "display-string": testDataDecodeDisplayString,
+  "item": testDataDecodeItem,
+  "key-generated": testDataDecodeKeyGenerated,
+};
+
+for (const [name, suite] of Object.entries(decodeTests)) {
+  Deno.test(`decode-tests/${name}`, async (t) => {
+    for (const data of suite) {
+      if (data.must_fail) {
+        continue;
+      }
+      await t.step({
+        name: data.name,
+        // JSON can't distinguish integral Decimals from Integers,
+        // so the expected values of these tests are serialized as Integers.
+        ignore: hasIntegralDecimal(decode(data)),
+        fn: () => test(data),
+      });
+    }
+  });
+}
+
+// decode decodes the canonical form of the test data.
+function decode(data: TestData): Item | List | Dictionary {
+  const raw = data.canonical ?? data.raw ?? [];
+  switch (data.header_type) {
+    case "item":
+      return decodeItem(...raw);
+    case "list":
+      return decodeList(...raw);
+    case "dictionary":
+      return decodeDictionary(...raw);
+    default:
+      throw new DataSetError("unknown header");
+  }
+}
+
+// hasIntegralDecimal reports whether the value contains Decimals that have no fractional part.
+function hasIntegralDecimal(
+  value: Item | InnerList | List | Dictionary | Parameters | BareItem,
+): boolean {
+  if (value instanceof Decimal) {
+    return Number.isInteger(value.valueOf());
+  }
+  if (value instanceof Item) {
+    return hasIntegralDecimal(value.value) ||
+      hasIntegralDecimal(value.parameters);
+  }
+  if (value instanceof InnerList) {
+    return value.items.some(hasIntegralDecimal) ||
+      hasIntegralDecimal(value.parameters);
+  }
+  if (value instanceof Dictionary || value instanceof Parameters) {
+    return [...value].some(([, member]) => hasIntegralDecimal(member));
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasIntegralDecimal);
+  }
+  return false;
+}
+
+function test(data: TestData, options: FromTestJSONOptions = {}) {
   let failed = false;
   let canonical: string = "";
   try {
     switch (data.header_type) {
       case "item":
-        canonical = convertToItem(data.expected).toString();
+        canonical = encodeItem(fromTestJSON(data.expected, "item", options));
         break;
       case "dictionary":
-        canonical = convertToDictionary(data.expected).toString();
+        canonical = encodeDictionary(
+          fromTestJSON(data.expected, "dictionary", options),
+        );
         break;
       case "list":
-        canonical = convertToList(data.expected).toString();
+        canonical = encodeList(fromTestJSON(data.expected, "list", options));
         break;
       default:
         throw new DataSetError("unknown header");
@@ -94,92 +241,8 @@ function test(data: TestData) {
     assertEquals(failed, false, `${data.name}: failed`);
     assertEquals(
       canonical,
-      data.canonical?.join(", "),
+      (data.canonical ?? data.raw)?.join(", "),
       `${data.name}: canonical form doesn't match`,
     );
   }
 }
-
-function convertToItem(data: unknown): Item {
-  if (!Array.isArray(data)) {
-    throw new DataSetError("invalid item");
-  }
-  if (data.length !== 2) {
-    throw new DataSetError("invalid item");
-  }
-  const [bareItem, params] = data;
-  const item = new Item(convertToBareItem(bareItem), convertParameters(params));
-  return item;
-}
-
-function convertToBareItem(data: unknown): BareItem {
-  switch (typeof data) {
-    case "number":
-      if (Number.isInteger(data)) {
-        return new Integer(data);
-      } else {
-        return new Decimal(data);
-      }
-    case "string":
-      return data;
-    case "object":
-      if (data === null) {
-        throw new DataSetError("unknown type");
-      }
-      {
-        const obj = data as SFObject;
-        switch (obj.__type) {
-          case "token":
-            return new Token(obj.value as string);
-        }
-      }
-  }
-  throw new DataSetError("unknown type");
-}
-
-function convertParameters(data: unknown): Parameters {
-  if (!Array.isArray(data)) {
-    throw new DataSetError("invalid parameters");
-  }
-  const params = new Parameters();
-  for (const item of data) {
-    if (!Array.isArray(item)) {
-      throw new DataSetError("invalid parameters");
-    }
-    if (item.length !== 2) {
-      throw new DataSetError("invalid parameters");
-    }
-    const [key, value] = item;
-    params.set(key, convertToBareItem(value));
-  }
-  return params;
-}
-
-function convertToList(data: unknown): Item[] {
-  if (!Array.isArray(data)) {
-    throw new DataSetError("invalid list");
-  }
-  const list: Item[] = [];
-  for (const item of data) {
-    list.push(convertToItem(item));
-  }
-  return list;
-}
-
-function convertToDictionary(data: unknown): Dictionary {
-  if (!Array.isArray(data)) {
-    throw new DataSetError("invalid dictionary");
-  }
-  const dict = new Dictionary();
-  for (const item of data) {
-    if (!Array.isArray(item)) {
-      throw new DataSetError("invalid dictionary");
-    }
-    if (item.length !== 2) {
-      throw new DataSetError("invalid dictionary");
-    }
-    const [key, value] = item;
-    dict.set(key, convertToItem(value));
-  }
-  return dict;
-}
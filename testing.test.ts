@@ -0,0 +1,90 @@
+import { assert, assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  encodeList,
+  Integer,
+  Item,
+  SfvParseError,
+} from "./mod.ts";
+import {
+  bareItem,
+  type BareItemType,
+  check,
+  checkRoundTrip,
+  dictionary,
+  invalidField,
+  list,
+  PropertyError,
+  Random,
+} from "./testing.ts";
+
+Deno.test("testing: round trip", () => {
+  for (const seed of [1, 2, 3]) {
+    checkRoundTrip({ seed, runs: 200 });
+  }
+  checkRoundTrip({
+    seed: 4,
+    depth: 1,
+    maxMembers: 16,
+    maxParameters: 8,
+    maxStringLength: 64,
+  });
+});
+
+Deno.test("testing: seeded", () => {
+  const a = list().generate(new Random(42));
+  const b = list().generate(new Random(42));
+  assertEquals(encodeList(a), encodeList(b));
+});
+
+Deno.test("testing: options", () => {
+  const types: BareItemType[] = ["integer", "boolean"];
+  check(bareItem({ bareItemTypes: types }), (value) => {
+    return value instanceof Integer || typeof value === "boolean";
+  }, { seed: 1 });
+  check(dictionary({ depth: 1, maxMembers: 2 }), (value) => {
+    return value.size <= 2 && [...value].every(([, v]) => v instanceof Item);
+  }, { seed: 1 });
+  assertThrows(() => bareItem({ bareItemTypes: [] }), RangeError);
+});
+
+Deno.test("testing: invalid fields", () => {
+  const decoders = {
+    item: decodeItem,
+    list: decodeList,
+    dictionary: decodeDictionary,
+  };
+  for (const [type, decode] of Object.entries(decoders)) {
+    check(
+      invalidField(type as keyof typeof decoders),
+      (field) => {
+        assertThrows(() => decode(field, { dates: "sfdate" }), SfvParseError);
+      },
+      { seed: 1, runs: 200 },
+    );
+  }
+});
+
+Deno.test("testing: shrinking", () => {
+  const error = assertThrows(
+    () =>
+      check(
+        list({ bareItemTypes: ["integer"], depth: 1 }),
+        (value) => value.length < 2,
+        { seed: 1 },
+      ),
+    PropertyError,
+  );
+  assertEquals(error.seed, 1);
+  assertEquals(encodeList(error.counterexample as Item[]), "0, 0");
+
+  // the shrunk field is still invalid.
+  const invalid = assertThrows(
+    () => check(invalidField("item"), () => false, { seed: 1 }),
+    PropertyError,
+  );
+  assert(typeof invalid.counterexample === "string");
+  assertThrows(() => decodeItem(invalid.counterexample as string));
+});
@@ -0,0 +1,898 @@
+/**
+ * Seeded random generators of Structured Field Values for property-based testing.
+ *
+ * ```typescript
+ * import { encodeList } from "@shogo82148/sfv";
+ * import { check, invalidField, list } from "@shogo82148/sfv/testing";
+ *
+ * // every generated List can be handled.
+ * check(list({ maxMembers: 8 }), (value) => {
+ *   myHandler(encodeList(value));
+ * }, { seed: 42, runs: 1000 });
+ *
+ * // every generated field is rejected.
+ * check(invalidField("dictionary"), (field) => {
+ *   assertThrows(() => myHandler(field));
+ * });
+ * ```
+ *
+ * The generators are `Arbitrary` objects, which generate values from a seeded `Random`,
+ * and shrink the values into smaller candidates.
+ * When a property fails, `check` shrinks the counterexample as small as possible,
+ * and throws `PropertyError` with the seed to reproduce the failure.
+ *
+ * @module
+ */
+
+import {
+  type BareItem,
+  Decimal,
+  decodeDictionary,
+  decodeItem,
+  decodeList,
+  Dictionary,
+  DisplayString,
+  encodeDictionary,
+  encodeItem,
+  encodeList,
+  InnerList,
+  Integer,
+  Item,
+  type List,
+  Parameters,
+  SfDate,
+  SfvParseError,
+  Token,
+} from "./mod.ts";
+import { equals } from "./equal.ts";
+
+/**
+ * Random is a seeded pseudo-random number generator.
+ * The same seed always generates the same sequence.
+ */
+export class Random {
+  /**
+   * seed is the seed of the generator.
+   */
+  readonly seed: number;
+
+  private state: number;
+
+  /**
+   * Create a new Random.
+   *
+   * @param seed the seed of the generator. It is truncated into 32 bits.
+   */
+  constructor(seed: number) {
+    this.seed = seed;
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * next returns a random number in [0, 1).
+   *
+   * @returns the random number
+   */
+  next(): number {
+    // combine two outputs of mulberry32 into 53 bits.
+    const high = this.next32() >>> 5;
+    const low = this.next32() >>> 6;
+    return (high * 67108864 + low) / 9007199254740992;
+  }
+
+  /**
+   * int returns a random integer in [min, max].
+   *
+   * @param min the minimum value
+   * @param max the maximum value
+   * @returns the random integer
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * pick returns a random element of the items.
+   *
+   * @param items the non-empty candidates
+   * @returns the picked element
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  // next32 is mulberry32.
+  private next32(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+}
+
+/**
+ * Arbitrary generates random values and shrinks them.
+ */
+export interface Arbitrary<T> {
+  /**
+   * generate returns a random value.
+   *
+   * @param random the source of randomness
+   * @returns the generated value
+   */
+  generate(random: Random): T;
+
+  /**
+   * shrink returns the smaller candidates of the value, the simplest first.
+   * It never modifies the value.
+   *
+   * @param value the value to shrink
+   * @returns the candidates
+   */
+  shrink(value: T): Iterable<T>;
+}
+
+/**
+ * BareItemType is a type of bare items that the generators generate.
+ */
+export type BareItemType =
+  | "integer"
+  | "decimal"
+  | "string"
+  | "token"
+  | "binary"
+  | "boolean"
+  | "date"
+  | "displaystring";
+
+/**
+ * ArbitraryOptions is the options of the generators.
+ */
+export interface ArbitraryOptions {
+  /**
+   * bareItemTypes is the types of the generated bare items.
+   * The default is all the types.
+   */
+  bareItemTypes?: readonly BareItemType[];
+
+  /**
+   * depth is the maximum depth of Lists and Dictionaries.
+   * Their members are only Items at 1, and they can be Inner Lists at 2.
+   * The default is 2.
+   */
+  depth?: number;
+
+  /**
+   * maxMembers is the maximum number of the members of Lists and Dictionaries.
+   * The default is 5.
+   */
+  maxMembers?: number;
+
+  /**
+   * maxInnerListLength is the maximum number of the items of Inner Lists.
+   * The default is 3.
+   */
+  maxInnerListLength?: number;
+
+  /**
+   * maxParameters is the maximum number of the parameters.
+   * The default is 3.
+   */
+  maxParameters?: number;
+
+  /**
+   * maxStringLength is the maximum length of Strings, Tokens, Byte Sequences, Display Strings and keys.
+   * The default is 16.
+   */
+  maxStringLength?: number;
+}
+
+const ALL_BARE_ITEM_TYPES: readonly BareItemType[] = [
+  "integer",
+  "decimal",
+  "string",
+  "token",
+  "binary",
+  "boolean",
+  "date",
+  "displaystring",
+];
+
+const LCALPHA = "abcdefghijklmnopqrstuvwxyz";
+const ALPHA = LCALPHA + "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const DIGIT = "0123456789";
+const KEY_START = LCALPHA + "*";
+const KEY_CHARS = LCALPHA + DIGIT + "_-.*";
+const TOKEN_START = ALPHA + "*";
+const TOKEN_CHARS = ALPHA + DIGIT + "!#$%&'*+-.^_`|~:/";
+
+// the seconds that Date can represent.
+const DATE_MAX_SECONDS = 8640000000000;
+
+// resolve fills the defaults of the options.
+function resolve(options: ArbitraryOptions): Required<ArbitraryOptions> {
+  const resolved = {
+    bareItemTypes: options.bareItemTypes ?? ALL_BARE_ITEM_TYPES,
+    depth: options.depth ?? 2,
+    maxMembers: options.maxMembers ?? 5,
+    maxInnerListLength: options.maxInnerListLength ?? 3,
+    maxParameters: options.maxParameters ?? 3,
+    maxStringLength: options.maxStringLength ?? 16,
+  };
+  if (resolved.bareItemTypes.length === 0) {
+    throw new RangeError("bareItemTypes must not be empty");
+  }
+  return resolved;
+}
+
+/**
+ * bareItem returns the generator of bare items.
+ *
+ * @param options the options of the generator
+ * @returns the generator
+ */
+export function bareItem(options: ArbitraryOptions = {}): Arbitrary<BareItem> {
+  const opts = resolve(options);
+  return {
+    generate: (random) => generateBareItem(random, opts),
+    shrink: shrinkBareItem,
+  };
+}
+
+/**
+ * parameters returns the generator of Parameters.
+ *
+ * @param options the options of the generator
+ * @returns the generator
+ */
+export function parameters(
+  options: ArbitraryOptions = {},
+): Arbitrary<Parameters> {
+  const opts = resolve(options);
+  return {
+    generate: (random) => generateParameters(random, opts),
+    shrink: shrinkParameters,
+  };
+}
+
+/**
+ * item returns the generator of Items.
+ *
+ * @param options the options of the generator
+ * @returns the generator
+ */
+export function item(options: ArbitraryOptions = {}): Arbitrary<Item> {
+  const opts = resolve(options);
+  return {
+    generate: (random) => generateItem(random, opts),
+    shrink: shrinkItem,
+  };
+}
+
+/**
+ * innerList returns the generator of Inner Lists.
+ *
+ * @param options the options of the generator
+ * @returns the generator
+ */
+export function innerList(
+  options: ArbitraryOptions = {},
+): Arbitrary<InnerList> {
+  const opts = resolve(options);
+  return {
+    generate: (random) => generateInnerList(random, opts),
+    shrink: shrinkInnerList,
+  };
+}
+
+/**
+ * list returns the generator of Lists.
+ *
+ * @param options the options of the generator
+ * @returns the generator
+ */
+export function list(options: ArbitraryOptions = {}): Arbitrary<List> {
+  const opts = resolve(options);
+  return {
+    generate: (random) => {
+      const length = random.int(0, opts.maxMembers);
+      const members: List = [];
+      for (let i = 0; i < length; i++) {
+        members.push(generateMember(random, opts));
+      }
+      return members;
+    },
+    shrink: (value) =>
+      shrinkArray(value, shrinkMember) as Iterable<(Item | InnerList)[]>,
+  };
+}
+
+/**
+ * dictionary returns the generator of Dictionaries.
+ *
+ * @param options the options of the generator
+ * @returns the generator
+ */
+export function dictionary(
+  options: ArbitraryOptions = {},
+): Arbitrary<Dictionary> {
+  const opts = resolve(options);
+  return {
+    generate: (random) => {
+      const length = random.int(0, opts.maxMembers);
+      const dict = new Dictionary();
+      for (let i = 0; i < length; i++) {
+        dict.set(generateKey(random, opts), generateMember(random, opts));
+      }
+      return dict;
+    },
+    shrink: function* (value) {
+      for (
+        const entries of shrinkArray([...value], shrinkEntry(shrinkMember))
+      ) {
+        yield new Dictionary(entries);
+      }
+    },
+  };
+}
+
+/**
+ * InvalidFieldType is the top-level type of invalid fields.
+ */
+export type InvalidFieldType = "item" | "list" | "dictionary";
+
+/**
+ * invalidField returns the generator of invalid field values.
+ * The values are generated by corrupting valid serializations,
+ * and decoding them as the type always throws SfvParseError.
+ *
+ * @param type the top-level type that the values are invalid as
+ * @param options the options of the generator of the original values
+ * @returns the generator
+ */
+export function invalidField(
+  type: InvalidFieldType,
+  options: ArbitraryOptions = {},
+): Arbitrary<string> {
+  const opts = resolve(options);
+  const isInvalid = (field: string): boolean => {
+    try {
+      decodeAs(type, field);
+    } catch (e) {
+      if (e instanceof SfvParseError) {
+        return true;
+      }
+      throw e;
+    }
+    return false;
+  };
+  return {
+    generate: (random) => {
+      for (let i = 0; i < 100; i++) {
+        let field = encodeAs(type, random, opts);
+        const mutations = random.int(1, 3);
+        for (let j = 0; j < mutations; j++) {
+          field = mutate(random, field);
+        }
+        if (isInvalid(field)) {
+          return field;
+        }
+      }
+      // an empty item and a trailing comma are always invalid.
+      return type === "item" ? "" : ",";
+    },
+    shrink: function* (value) {
+      for (let i = 0; i < value.length; i++) {
+        const candidate = value.slice(0, i) + value.slice(i + 1);
+        if (isInvalid(candidate)) {
+          yield candidate;
+        }
+      }
+    },
+  };
+}
+
+// the characters that are likely to break serializations.
+const MUTATION_CHARS = [
+  ...'"\\;=,()?:@%*-. \t',
+  "\u0000",
+  "\u007f",
+  "é",
+  "A",
+  "0",
+];
+
+// mutate inserts, replaces, deletes a character, or truncates the field.
+function mutate(random: Random, field: string): string {
+  const pos = random.int(0, field.length);
+  switch (random.int(0, 3)) {
+    case 0:
+      return field.slice(0, pos) + random.pick(MUTATION_CHARS) +
+        field.slice(pos);
+    case 1:
+      return field.slice(0, pos) + random.pick(MUTATION_CHARS) +
+        field.slice(pos + 1);
+    case 2:
+      return field.slice(0, pos) + field.slice(pos + 1);
+    default:
+      return field.slice(0, pos);
+  }
+}
+
+// encodeAs generates a valid serialization of the type.
+function encodeAs(
+  type: InvalidFieldType,
+  random: Random,
+  opts: Required<ArbitraryOptions>,
+): string {
+  switch (type) {
+    case "item":
+      return encodeItem(generateItem(random, opts));
+    case "list":
+      return encodeList(list(opts).generate(random));
+    case "dictionary":
+      return encodeDictionary(dictionary(opts).generate(random));
+  }
+}
+
+// decodeAs decodes the field as the type.
+function decodeAs(
+  type: InvalidFieldType,
+  field: string,
+): Item | List | Dictionary {
+  // SfDate keeps the dates out of the range of Date.
+  switch (type) {
+    case "item":
+      return decodeItem(field, { dates: "sfdate" });
+    case "list":
+      return decodeList(field, { dates: "sfdate" });
+    case "dictionary":
+      return decodeDictionary(field, { dates: "sfdate" });
+  }
+}
+
+/**
+ * CheckOptions is the options for check and checkRoundTrip.
+ */
+export interface CheckOptions {
+  /**
+   * seed is the seed of the generator.
+   * The default is a random seed, which is reported by PropertyError.
+   */
+  seed?: number;
+
+  /**
+   * runs is the number of the generated values.
+   * The default is 100.
+   */
+  runs?: number;
+
+  /**
+   * maxShrinks is the maximum number of the shrinking steps.
+   * The default is 1000.
+   */
+  maxShrinks?: number;
+}
+
+/**
+ * PropertyError is thrown when a property fails.
+ */
+export class PropertyError extends Error {
+  /**
+   * seed is the seed that reproduces the failure.
+   */
+  readonly seed: number;
+
+  /**
+   * run is the index of the run that failed.
+   */
+  readonly run: number;
+
+  /**
+   * counterexample is the shrunk value that fails the property.
+   */
+  readonly counterexample: unknown;
+
+  /**
+   * Create a new PropertyError.
+   *
+   * @param seed the seed that reproduces the failure
+   * @param run the index of the run that failed
+   * @param counterexample the shrunk value that fails the property
+   * @param cause the error that the property threw
+   */
+  constructor(
+    seed: number,
+    run: number,
+    counterexample: unknown,
+    cause?: unknown,
+  ) {
+    let message = `property failed at run ${run} (seed: ${seed}): ${
+      describe(counterexample)
+    }`;
+    if (cause instanceof Error) {
+      message += `: ${cause.message}`;
+    }
+    super(message, { cause });
+    this.name = "PropertyError";
+    this.seed = seed;
+    this.run = run;
+    this.counterexample = counterexample;
+  }
+}
+
+// describe returns the serialization of the counterexample if possible.
+function describe(value: unknown): string {
+  try {
+    if (typeof value === "string") {
+      return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+      return JSON.stringify(encodeList(value));
+    }
+    return JSON.stringify(String(value));
+  } catch {
+    return "(unserializable value)";
+  }
+}
+
+/**
+ * check runs the property against the generated values.
+ * The property fails if it returns false or throws.
+ * It throws PropertyError with the shrunk counterexample if the property fails.
+ *
+ * @param arbitrary the generator of the values
+ * @param property the property to check
+ * @param options the options of the check
+ */
+export function check<T>(
+  arbitrary: Arbitrary<T>,
+  property: (value: T) => boolean | void,
+  options: CheckOptions = {},
+): void {
+  const seed = options.seed ?? Math.floor(Math.random() * 0x100000000);
+  const runs = options.runs ?? 100;
+  const maxShrinks = options.maxShrinks ?? 1000;
+  const random = new Random(seed);
+  for (let run = 0; run < runs; run++) {
+    const value = arbitrary.generate(random);
+    const result = test(property, value);
+    if (result.ok) {
+      continue;
+    }
+
+    // shrink the counterexample greedily.
+    let counterexample = value;
+    let cause = result.cause;
+    let shrinks = 0;
+    let shrunk = true;
+    while (shrunk && shrinks < maxShrinks) {
+      shrunk = false;
+      for (const candidate of arbitrary.shrink(counterexample)) {
+        if (++shrinks > maxShrinks) {
+          break;
+        }
+        const r = test(property, candidate);
+        if (!r.ok) {
+          counterexample = candidate;
+          cause = r.cause;
+          shrunk = true;
+          break;
+        }
+      }
+    }
+    throw new PropertyError(seed, run, counterexample, cause);
+  }
+}
+
+// test runs the property, and catches the error.
+function test<T>(
+  property: (value: T) => boolean | void,
+  value: T,
+): { ok: boolean; cause?: unknown } {
+  try {
+    return { ok: property(value) !== false };
+  } catch (e) {
+    return { ok: false, cause: e };
+  }
+}
+
+/**
+ * checkRoundTrip checks that decoding the serialization of
+ * the generated Items, Lists and Dictionaries returns the equal values.
+ * It throws PropertyError if the round trip fails.
+ *
+ * @param options the options of the generators and the check
+ */
+export function checkRoundTrip(
+  options: ArbitraryOptions & CheckOptions = {},
+): void {
+  check(item(options), (value) => {
+    return equals(decodeAs("item", encodeItem(value)), value);
+  }, options);
+  check(list(options), (value) => {
+    return equals(decodeAs("list", encodeList(value)), value);
+  }, options);
+  check(dictionary(options), (value) => {
+    return equals(decodeAs("dictionary", encodeDictionary(value)), value);
+  }, options);
+}
+
+// generateBareItem generates a bare item of the allowed types.
+function generateBareItem(
+  random: Random,
+  opts: Required<ArbitraryOptions>,
+): BareItem {
+  const max = opts.maxStringLength;
+  switch (random.pick(opts.bareItemTypes)) {
+    case "integer":
+      return new Integer(
+        generateNumber(random, Integer.MIN_VALUE, Integer.MAX_VALUE),
+      );
+    case "decimal":
+      return Decimal.fromThousandths(
+        generateNumber(random, -999999999999999, 999999999999999),
+      );
+    case "string":
+      return generateString(
+        random,
+        " !\"#$%&'()*+,-./" + DIGIT + ":;<=>?@" +
+          ALPHA + "[\\]^_`{|}~",
+        0,
+        max,
+      );
+    case "token":
+      return new Token(
+        generateString(random, TOKEN_START, 1, 1) +
+          generateString(random, TOKEN_CHARS, 0, Math.max(max - 1, 0)),
+      );
+    case "binary": {
+      const bytes = new Uint8Array(random.int(0, max));
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = random.int(0, 255);
+      }
+      return bytes;
+    }
+    case "boolean":
+      return random.int(0, 1) === 1;
+    case "date":
+      if (random.int(0, 3) === 0) {
+        // dates out of the range of Date.
+        return new SfDate(
+          generateNumber(random, SfDate.MIN_VALUE, SfDate.MAX_VALUE),
+        );
+      }
+      return new Date(
+        generateNumber(random, -DATE_MAX_SECONDS, DATE_MAX_SECONDS) * 1000,
+      );
+    case "displaystring": {
+      const length = random.int(0, max);
+      let str = "";
+      for (let i = 0; i < length; i++) {
+        str += String.fromCodePoint(generateCodePoint(random));
+      }
+      return new DisplayString(str);
+    }
+  }
+}
+
+// generateNumber generates an integer in [min, max], preferring the edge cases.
+function generateNumber(random: Random, min: number, max: number): number {
+  if (random.int(0, 3) === 0) {
+    return random.pick([0, 1, -1, min, max]);
+  }
+  if (random.int(0, 1) === 0) {
+    return random.int(Math.max(min, -1000), Math.min(max, 1000));
+  }
+  return random.int(min, max);
+}
+
+// generateCodePoint generates a code point of Display Strings, except surrogates.
+function generateCodePoint(random: Random): number {
+  switch (random.int(0, 3)) {
+    case 0:
+      return random.int(0x00, 0x7f);
+    case 1:
+      return random.int(0x80, 0x7ff);
+    case 2:
+      return random.int(0xe000, 0xffff);
+    default:
+      return random.int(0x10000, 0x10ffff);
+  }
+}
+
+// generateString generates a string of the characters.
+function generateString(
+  random: Random,
+  chars: string,
+  minLength: number,
+  maxLength: number,
+): string {
+  const length = random.int(minLength, maxLength);
+  let str = "";
+  for (let i = 0; i < length; i++) {
+    str += chars[random.int(0, chars.length - 1)];
+  }
+  return str;
+}
+
+// generateKey generates a key of Dictionaries and Parameters.
+function generateKey(
+  random: Random,
+  opts: Required<ArbitraryOptions>,
+): string {
+  return generateString(random, KEY_START, 1, 1) +
+    generateString(random, KEY_CHARS, 0, Math.max(opts.maxStringLength - 1, 0));
+}
+
+// generateParameters generates Parameters.
+function generateParameters(
+  random: Random,
+  opts: Required<ArbitraryOptions>,
+): Parameters {
+  const params = new Parameters();
+  const length = random.int(0, opts.maxParameters);
+  for (let i = 0; i < length; i++) {
+    params.set(generateKey(random, opts), generateBareItem(random, opts));
+  }
+  return params;
+}
+
+// generateItem generates an Item.
+function generateItem(random: Random, opts: Required<ArbitraryOptions>): Item {
+  return new Item(
+    generateBareItem(random, opts),
+    generateParameters(random, opts),
+  );
+}
+
+// generateInnerList generates an Inner List.
+function generateInnerList(
+  random: Random,
+  opts: Required<ArbitraryOptions>,
+): InnerList {
+  const length = random.int(0, opts.maxInnerListLength);
+  const items: Item[] = [];
+  for (let i = 0; i < length; i++) {
+    items.push(generateItem(random, opts));
+  }
+  return new InnerList(items, generateParameters(random, opts));
+}
+
+// generateMember generates a member of Lists and Dictionaries.
+function generateMember(
+  random: Random,
+  opts: Required<ArbitraryOptions>,
+): Item | InnerList {
+  if (opts.depth >= 2 && random.int(0, 3) === 0) {
+    return generateInnerList(random, opts);
+  }
+  return generateItem(random, opts);
+}
+
+// shrinkBareItem shrinks the bare item in the same type.
+function* shrinkBareItem(value: BareItem): Iterable<BareItem> {
+  if (value instanceof Integer) {
+    yield* shrinkNumber(value.valueOf(), (n) => new Integer(n));
+  } else if (value instanceof Decimal) {
+    const thousandths = Number(value.thousandths);
+    yield* shrinkNumber(thousandths, (n) => Decimal.fromThousandths(n));
+  } else if (typeof value === "string") {
+    yield* shrinkString(value, 0);
+  } else if (value instanceof Token) {
+    for (const str of shrinkString(value.toString(), 1)) {
+      yield new Token(str);
+    }
+  } else if (value instanceof Uint8Array) {
+    if (value.length > 0) {
+      yield value.slice(0, value.length >> 1);
+      yield value.slice(0, value.length - 1);
+    }
+  } else if (value === true) {
+    yield false;
+  } else if (value instanceof Date) {
+    yield* shrinkNumber(
+      Math.floor(value.getTime() / 1000),
+      (n) => new Date(n * 1000),
+    );
+  } else if (value instanceof SfDate) {
+    yield* shrinkNumber(value.valueOf(), (n) => new SfDate(n));
+  } else if (value instanceof DisplayString) {
+    // shrink by code points, not to split surrogate pairs.
+    const chars = [...value.valueOf()];
+    if (chars.length > 0) {
+      yield new DisplayString(chars.slice(0, chars.length >> 1).join(""));
+      yield new DisplayString(chars.slice(0, -1).join(""));
+    }
+  }
+}
+
+// shrinkNumber shrinks the integer toward zero.
+function* shrinkNumber<T>(n: number, wrap: (n: number) => T): Iterable<T> {
+  if (n === 0) {
+    return;
+  }
+  yield wrap(0);
+  const half = Math.trunc(n / 2);
+  if (half !== 0) {
+    yield wrap(half);
+  }
+  const closer = n - Math.sign(n);
+  if (closer !== 0 && closer !== half) {
+    yield wrap(closer);
+  }
+}
+
+// shrinkString shrinks the string by removing the characters from the end.
+function* shrinkString(str: string, minLength: number): Iterable<string> {
+  if (str.length <= minLength) {
+    return;
+  }
+  const half = Math.max(str.length >> 1, minLength);
+  yield str.slice(0, half);
+  if (half !== str.length - 1) {
+    yield str.slice(0, str.length - 1);
+  }
+}
+
+// shrinkArray shrinks the array by removing an element, and then by shrinking an element.
+function* shrinkArray<T>(
+  array: readonly T[],
+  shrinkElement: (element: T) => Iterable<T>,
+): Iterable<T[]> {
+  for (let i = 0; i < array.length; i++) {
+    yield [...array.slice(0, i), ...array.slice(i + 1)];
+  }
+  for (let i = 0; i < array.length; i++) {
+    for (const element of shrinkElement(array[i])) {
+      yield [...array.slice(0, i), element, ...array.slice(i + 1)];
+    }
+  }
+}
+
+// shrinkEntry shrinks the value of the key-value pair.
+function shrinkEntry<T>(
+  shrinkValue: (value: T) => Iterable<T>,
+): (entry: [string, T]) => Iterable<[string, T]> {
+  return function* ([key, value]) {
+    for (const shrunk of shrinkValue(value)) {
+      yield [key, shrunk];
+    }
+  };
+}
+
+// shrinkParameters shrinks the parameters.
+function* shrinkParameters(params: Parameters): Iterable<Parameters> {
+  for (const entries of shrinkArray([...params], shrinkEntry(shrinkBareItem))) {
+    yield new Parameters(entries);
+  }
+}
+
+// shrinkItem shrinks the parameters of the item, and then the bare item.
+function* shrinkItem(item: Item): Iterable<Item> {
+  for (const params of shrinkParameters(item.parameters)) {
+    yield new Item(item.value, params);
+  }
+  for (const value of shrinkBareItem(item.value)) {
+    yield new Item(value, item.parameters);
+  }
+}
+
+// shrinkInnerList shrinks the items of the inner list, and then the parameters.
+function* shrinkInnerList(inner: InnerList): Iterable<InnerList> {
+  for (const items of shrinkArray(inner.items, shrinkItem)) {
+    yield new InnerList(items, inner.parameters);
+  }
+  for (const params of shrinkParameters(inner.parameters)) {
+    yield new InnerList(inner.items, params);
+  }
+}
+
+// shrinkMember shrinks the member of Lists and Dictionaries.
+function shrinkMember(member: Item | InnerList): Iterable<Item | InnerList> {
+  if (member instanceof InnerList) {
+    return shrinkInnerList(member);
+  }
+  return shrinkItem(member);
+}